@@ -11,13 +11,18 @@ import { SplashScreen } from './components/SplashScreen';
 import { SettingsPanel } from './components/SettingsPanel';
 import { HelpModal } from './components/HelpModal';
 import { DriftPanel } from './components/DriftPanel';
+import { ArchivePanel } from './components/ArchivePanel';
+import { PhylogenyPanel } from './components/PhylogenyPanel';
 import { ResearchPanel } from './components/ResearchPanel';
-import { Xenobot, Genome, AnalysisResult, CameraState, SimulationConfig, Food, GeneticStats, ResearchState, Upgrade, UpgradeID, ToolMode, FloatingText, GlobalEvent } from './types';
-import { DEFAULT_CONFIG, EVOLUTION_INTERVAL, BD_REWARD, TOOL_COSTS, TOOL_COLORS, GROWTH_COST, MITOSIS_THRESHOLD, MAX_BOT_SIZE, FOOD_ENERGY } from './constants';
-import { ScanEye, Volume2, VolumeX, AlertTriangle } from 'lucide-react';
-import { PhysicsEngine } from './services/physicsEngine';
-import { createRandomGenome } from './services/geneticAlgorithm';
+import { SaveSlotBrowser } from './components/SaveSlotBrowser';
+import { Genome, AnalysisResult, CameraState, SimulationConfig, GeneticStats, PackedSnapshot, ResearchState, Upgrade, UpgradeID, ToolMode, FloatingText, GlobalEvent, TickPayload, WorkerMessage, WorkerResponse, ToolResultPayload, SimulationSnapshot, SaveData, EvolvedPayload, SpeciesSummary, Elite, ParetoPayload, NoveltySummary, LineagePayload, MutationStats, CrossoverStats, IslandSummary } from './types';
+import { DEFAULT_CONFIG, BD_REWARD, TOOL_COSTS, TOOL_COLORS, GROWTH_COST, MITOSIS_THRESHOLD, MAX_BOT_SIZE, AUTOSAVE_GENERATION_INTERVAL, PARETO_REFRESH_MS } from './constants';
+import { ScanEye, Volume2, VolumeX, AlertTriangle, X } from 'lucide-react';
 import { AudioManager } from './services/audioManager';
+import { BOT_FLOATS, BOT_INTS, findSnapshotBot } from './services/snapshot';
+import { getStrain, strainColor } from './services/strains';
+import { createSaveData } from './services/saveData';
+import { listSaveSlots, writeSaveSlot, AUTOSAVE_SLOT_ID } from './services/saveStore';
 
 const App: React.FC = () => {
   // Application State
@@ -34,23 +39,29 @@ const App: React.FC = () => {
   // Simulation State
   const [generation, setGeneration] = useState(1);
   const [isRunning, setIsRunning] = useState(false);
-  
+
   // Progress States (Throttled update for UI)
   const [evolutionProgress, setEvolutionProgress] = useState(0);
   const [growthProgress, setGrowthProgress] = useState(0);
   const [reproductionProgress, setReproductionProgress] = useState(0);
 
   const [showEvolutionFlash, setShowEvolutionFlash] = useState(false);
-  
+
   // Gamification State
   const [activeTool, setActiveTool] = useState<ToolMode>('SCANNER');
   const [floatingTexts, setFloatingTexts] = useState<FloatingText[]>([]);
   const [globalEvent, setGlobalEvent] = useState<GlobalEvent | null>(null);
-  
+  const [loadError, setLoadError] = useState<string | null>(null); // Why the last saved world fell back to a respawn
+
   // Genome Visibility State
   const [showGenomePanel, setShowGenomePanel] = useState(false);
   const [showDriftPanel, setShowDriftPanel] = useState(false);
-  
+  const [showArchivePanel, setShowArchivePanel] = useState(false);
+  const [showPhylogenyPanel, setShowPhylogenyPanel] = useState(false);
+  const [elites, setElites] = useState<Elite[]>([]); // Fetched from the worker while the archive panel is open
+  const [pareto, setPareto] = useState<ParetoPayload | null>(null); // Polled from the worker while the drift panel is open
+  const [lineage, setLineage] = useState<LineagePayload>({ records: [], living: {} }); // Fetched while the phylogeny panel is open
+
   // MomBot Interface State
   const [showMomBotPanel, setShowMomBotPanel] = useState(false);
 
@@ -60,24 +71,38 @@ const App: React.FC = () => {
   const [unlockedUpgrades, setUnlockedUpgrades] = useState<UpgradeID[]>([]);
   const [clickMultiplier, setClickMultiplier] = useState(1);
   const [passiveMultiplier, setPassiveMultiplier] = useState(1);
-  
+
   // Genetic History
   const [geneticHistory, setGeneticHistory] = useState<GeneticStats[]>([]);
-
-  // Simulation Engine State (Main Thread)
-  const engineRef = useRef<PhysicsEngine | null>(null);
+  const [species, setSpecies] = useState<SpeciesSummary[]>([]); // As of the last finished generation
+  const [novelty, setNovelty] = useState<NoveltySummary | null>(null); // Null unless the last generation ran in NOVELTY mode
+  const [mutationStats, setMutationStats] = useState<MutationStats | null>(null); // As of the last finished generation
+  const [crossoverStats, setCrossoverStats] = useState<CrossoverStats | null>(null); // As of the last finished generation
+  const [islands, setIslands] = useState<IslandSummary[]>([]); // As bred at the last evolution step
+
+  // Simulation Worker (Physics runs off the main thread)
+  const workerRef = useRef<Worker | null>(null);
+  const tickRef = useRef<TickPayload | null>(null); // Latest TICK snapshot
   const populationRef = useRef<Genome[]>([]);
-  const evolutionTimerRef = useRef<number>(0);
   const totalTickRef = useRef<number>(0);
-  
-  // We use a Ref for bots to pass to Canvas to avoid re-renders
-  const botsRef = useRef<Xenobot[]>([]); 
-  const foodRef = useRef<Food[]>([]);
-  
+
+  // We use a Ref for the packed snapshot to pass to Canvas to avoid re-renders
+  const snapshotRef = useRef<PackedSnapshot | null>(null);
+  // Genomes only arrive when they change, so keep the latest one per bot
+  const genomeCacheRef = useRef<Map<string, Genome>>(new Map());
+  // Filled by SimulationCanvas with a function that renders a save-slot thumbnail
+  const thumbnailRef = useRef<(() => string | null) | null>(null);
+
+  // Save Slots
+  const [canContinue, setCanContinue] = useState(false);
+  const [showSlotBrowser, setShowSlotBrowser] = useState(false);
+  const autosaveRef = useRef<() => void>(() => {});
+  const isAutosavingRef = useRef(false);
+
   // Dynamic list of representative genomes for the panel
   // Now includes energy field and botId for camera tracking
-  const [activeGenomeGroups, setActiveGenomeGroups] = useState<{name: string, genome: Genome | null, color: string, energy: number, botId?: string}[]>([]);
-  
+  const [activeGenomeGroups, setActiveGenomeGroups] = useState<{name: string, genome: Genome | null, color: string, energy: number, regeneration: number, botId?: string}[]>([]);
+
   // Camera State
   const [camera, setCamera] = useState<CameraState>({ x: 0, y: 0, zoom: 0.55 });
   const [followingBotId, setFollowingBotId] = useState<string | null>(null);
@@ -85,14 +110,14 @@ const App: React.FC = () => {
   const keysPressed = useRef<Set<string>>(new Set());
   const lastInputTimeRef = useRef<number>(Date.now());
   const isAutoCameraRef = useRef<boolean>(true);
-  
+
   // Analysis State
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
 
   // Refs for loop
   const requestRef = useRef<number>(0);
-  
+
   // Use window dimensions for full screen canvas
   const [dimensions, setDimensions] = useState({ width: window.innerWidth, height: window.innerHeight });
 
@@ -105,6 +130,74 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // --- Worker Initialization ---
+  useEffect(() => {
+    const worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    return () => {
+        worker.terminate();
+        workerRef.current = null;
+    };
+  }, []);
+
+  const postToWorker = (message: WorkerMessage) => {
+      workerRef.current?.postMessage(message);
+  };
+
+  // Pending REQUEST_SNAPSHOT round-trips, resolved when the worker answers
+  const snapshotRequestsRef = useRef<Map<number, (snapshot: SimulationSnapshot | null) => void>>(new Map());
+  const nextSnapshotRequestRef = useRef(0);
+
+  const captureWorldState = (): Promise<SimulationSnapshot | null> => {
+      if (!workerRef.current) return Promise.resolve(null);
+      const requestId = ++nextSnapshotRequestRef.current;
+      return new Promise(resolve => {
+          snapshotRequestsRef.current.set(requestId, resolve);
+          postToWorker({ type: 'REQUEST_SNAPSHOT', payload: requestId });
+      });
+  };
+
+  // Latest-closure autosave so worker and DOM event handlers never see stale state
+  autosaveRef.current = () => {
+      if (appState !== 'SIMULATION' || isAutosavingRef.current) return;
+      isAutosavingRef.current = true;
+
+      const thumbnail = thumbnailRef.current?.() ?? null;
+      const researchState = { bioData, unlockedUpgrades, clickMultiplier, passiveMultiplier };
+      captureWorldState()
+          .then(snapshot => {
+              const data = createSaveData({
+                  config,
+                  population: populationRef.current,
+                  generation: snapshot ? snapshot.generation : generation,
+                  timestamp: Date.now(),
+                  researchState,
+                  seed: config.seed,
+                  ...(snapshot ? { snapshot } : {})
+              });
+              return writeSaveSlot(data, { id: AUTOSAVE_SLOT_ID, name: 'Autosave', thumbnail });
+          })
+          .catch(err => console.warn('Autosave failed', err))
+          .finally(() => { isAutosavingRef.current = false; });
+  };
+
+  // Autosave when the tab is hidden (covers closing, switching away and most crashes-to-come)
+  useEffect(() => {
+    const handleVisibility = () => {
+        if (document.visibilityState === 'hidden') autosaveRef.current();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // Offer "Continue" on the title screen when any slot exists
+  useEffect(() => {
+    if (appState !== 'TITLE') return;
+    listSaveSlots()
+        .then(slots => setCanContinue(slots.length > 0))
+        .catch(() => setCanContinue(false));
+  }, [appState]);
+
   const toggleMute = () => {
       if (audioManagerRef.current) {
           const muted = audioManagerRef.current.toggleMute();
@@ -116,277 +209,302 @@ const App: React.FC = () => {
   const spawnFloatingText = (x: number, y: number, text: string, color: string) => {
       // Find canvas screen coords for text if needed, but we do simple screen space overlay inside canvas
       setFloatingTexts(prev => [
-          ...prev, 
-          { 
+          ...prev,
+          {
               id: Math.random().toString(36).substr(2, 9),
-              x, y, text, color, life: 1.0, velocity: 1.0 
+              x, y, text, color, life: 1.0, velocity: 1.0
           }
       ]);
   };
 
-  // --- Helper: Global Events ---
-  const triggerRandomEvent = () => {
-      if (globalEvent) return; // One at a time
-
-      const events: GlobalEvent[] = [
-          { 
-              id: 'EVT_BLOOM', 
-              name: 'ALGAL BLOOM', 
-              description: 'Nutrient density increased by 300%.',
-              duration: 900, 
-              isActive: true, 
-              type: 'ALGAL_BLOOM'
-          }
-      ];
+  // --- Simulation Control (Worker Thread) ---
 
-      const evt = events[Math.floor(Math.random() * events.length)];
-      setGlobalEvent(evt);
-      
-      // Apply Event Logic
-      if (engineRef.current) {
-          if (evt.type === 'ALGAL_BLOOM') {
-              engineRef.current.spawnFood();
-              engineRef.current.spawnFood();
-          }
-      }
-  };
-
-  // --- Simulation Logic (Main Thread) ---
-
-  const initSimulation = useCallback((cfg: SimulationConfig, startPop?: Genome[], startGen?: number) => {
-    const engine = new PhysicsEngine(cfg);
-    
-    let pop = startPop ? [...startPop] : [];
-    const currentGen = startGen || 1;
-
-    // Strict Population Cap Enforcement
-    if (pop.length > cfg.populationSize) {
-        pop = pop.slice(0, cfg.populationSize);
+  const initSimulation = useCallback((cfg: SimulationConfig, startPop?: Genome[], startGen?: number, worldState?: SimulationSnapshot) => {
+    setLoadError(null);
+    if (worldState) {
+        // Full-fidelity resume: the worker rebuilds the saved world instead of respawning it
+        postToWorker({ type: 'LOAD_STATE', payload: { config: cfg, snapshot: worldState, population: startPop, generation: startGen } });
+        populationRef.current = worldState.world.bots.filter(b => !b.bot.isDead).map(b => b.bot.genome);
+        setGeneration(worldState.generation);
+        setGlobalEvent(worldState.globalEvent);
+    } else {
+        postToWorker({ type: 'INIT', payload: { config: cfg, population: startPop, generation: startGen } });
+        populationRef.current = startPop ? [...startPop] : [];
+        setGeneration(startGen || 1);
+        setGlobalEvent(null);
     }
 
-    // Population Initialization Strategy
-    if (pop.length < cfg.populationSize) {
-        const totalSize = Math.max(2, cfg.populationSize);
-        // Force exactly 2 if config says so, otherwise split evenly
-        const sizeA = Math.floor(totalSize / 2);
-        const sizeB = totalSize - sizeA;
-        
-        // Group A: "Natives" (Cyan/Blue range ~190)
-        const groupA = Array(sizeA).fill(null).map(() => createRandomGenome(currentGen, 190)); 
-        
-        // Group B: "Invaders" (Magenta/Red range ~340)
-        const groupB = Array(sizeB).fill(null).map(() => createRandomGenome(currentGen, 340)); 
-        
-        pop = [...pop, ...groupA, ...groupB].slice(0, cfg.populationSize);
-    } 
-
-    populationRef.current = pop;
-    setGeneration(currentGen);
-
-    // Create Bots with Position Logic
-    engine.bots = pop.map((g, i) => {
-        let startX = 0;
-        let startY = 200 + Math.random() * 100;
-
-        // Force rigorous separation for Generation 1 to ensure colonies don't touch
-        if (currentGen === 1) {
-            const match = g.color.match(/hsl\((\d+\.?\d*)/);
-            const hue = match ? parseFloat(match[1]) : 0;
-            // Native Strain is Cyan (~180), Invaders are Red/Magenta (~340 or ~0)
-            const isGroupA = (hue > 100 && hue < 260);
-
-            // 5000 unit gap total
-            const baseOffset = 2500; 
-            startX = isGroupA ? -baseOffset : baseOffset;
-            
-            // Large vertical variance to prevent horizontal line clumping
-            startY = 200 + (Math.random() - 0.5) * 1200; 
-            
-            // Random scatter within the colony area
-            startX += (Math.random() - 0.5) * 600; 
-            
-            // Update genome origin to persist this separation
-            g.originX = startX;
-            g.originY = startY;
+    tickRef.current = null;
+    snapshotRef.current = null;
+    genomeCacheRef.current.clear();
+    setEvolutionProgress(0);
+    setFollowingBotId(null);
+    setGeneticHistory([]); // Reset history on init
+    setSpecies([]);
+    setNovelty(null);
+    setMutationStats(null);
+    setCrossoverStats(null);
+    setIslands([]);
+    setElites([]);
+    setPareto(null);
+    setLineage({ records: [], living: {} });
+  }, []);
+
+  const updateGenomeGroups = (snapshot: PackedSnapshot) => {
+    const genomes = genomeCacheRef.current;
+
+    // Groups are strains (see STRAINS), keyed by the ID each bot inherits from its genome
+    // Track the fittest member and summed energy per group in a single pass
+    const summaries = new Map<number, { bestIndex: number, bestEnergy: number, totalEnergy: number }>();
+    for (let i = 0; i < snapshot.botCount; i++) {
+        const groupId = snapshot.botInts[i * BOT_INTS.STRIDE + BOT_INTS.GROUP];
+        const energy = snapshot.botFloats[i * BOT_FLOATS.STRIDE + BOT_FLOATS.ENERGY];
+        const summary = summaries.get(groupId);
+        if (!summary) {
+            summaries.set(groupId, { bestIndex: i, bestEnergy: energy, totalEnergy: energy });
         } else {
-            // For subsequent generations or loaded saves, check for valid existing position
-            const hasValidOrigin = typeof g.originX === 'number' && !isNaN(g.originX) && Math.abs(g.originX) > 1;
-            
-            if (hasValidOrigin) {
-                startX = g.originX! + (Math.random() - 0.5) * 50; 
-                if (typeof g.originY === 'number') startY = g.originY + (Math.random() - 0.5) * 50;
-            } else {
-                // Fallback separation just in case
-                startX = (Math.random() > 0.5 ? -2500 : 2500) + (Math.random() - 0.5) * 500;
+            summary.totalEnergy += energy;
+            if (energy > summary.bestEnergy) {
+                summary.bestIndex = i;
+                summary.bestEnergy = energy;
             }
         }
+    }
 
-        return engine.createBot(g, startX, startY);
-    });
+    const toGroup = (groupId: number, summary: { bestIndex: number, totalEnergy: number }) => {
+        const botId = snapshot.botIds[summary.bestIndex];
+        const genome = genomes.get(botId) || null;
+        return {
+            name: getStrain(groupId).name,
+            genome,
+            color: genome?.color || strainColor(groupId),
+            energy: summary.totalEnergy,
+            regeneration: snapshot.botFloats[summary.bestIndex * BOT_FLOATS.STRIDE + BOT_FLOATS.REGENERATION],
+            botId
+        };
+    };
+
+    const groups = [...summaries.keys()].sort((a, b) => a - b).map(gId => toGroup(gId, summaries.get(gId)!));
 
-    engineRef.current = engine;
-    botsRef.current = engine.bots;
-    foodRef.current = engine.food;
-    evolutionTimerRef.current = 0;
-    setEvolutionProgress(0);
-    setFollowingBotId(null);
-    setGeneticHistory([]); // Reset history on init
-  }, []);
+    setActiveGenomeGroups(groups);
+  };
 
-  const evolveContinuous = () => {
-      const engine = engineRef.current;
-      if (!engine) return;
-      
-      // Capture Stats before mutation for the finishing generation
-      const stats = engine.getPopulationStats(generation);
-      setGeneticHistory(prev => [...prev, stats]);
+  const handleTick = (tick: TickPayload) => {
+      tickRef.current = tick;
+
+      // Sync Refs
+      snapshotRef.current = tick.snapshot;
+      const genomes = genomeCacheRef.current;
+      Object.entries(tick.genomes).forEach(([id, genome]) => genomes.set(id, genome));
+      // Drop genomes of bots that are no longer in the world
+      if (genomes.size > tick.snapshot.botCount) {
+          const alive = new Set(tick.snapshot.botIds);
+          genomes.forEach((_, id) => { if (!alive.has(id)) genomes.delete(id); });
+      }
+      setGeneration(tick.generation);
+
+      // Only replace the banner state when the active event actually changes
+      setGlobalEvent(prev => (prev?.id === tick.globalEvent?.id ? prev : tick.globalEvent));
+
+      if (tick.ticks === 0) return; // Paused / initial frame
+
+      // Process Physics Events for Audio AND Gameplay Awards
+      if (tick.events.length > 0) {
+          let passiveBDGain = 0;
+          let collided = false;
 
-      // Perform evolution step
-      const evolutionOccurred = engine.evolvePopulation(generation);
-  
-      // Always increment the cycle counter to reflect the passage of evolutionary epochs
-      setGeneration(g => g + 1);
+          tick.events.forEach(e => {
+              if (e.type === 'COLLISION') {
+                  collided = true;
+                  passiveBDGain += (BD_REWARD.PASSIVE_COLLISION * passiveMultiplier);
+              }
+              if (e.type === 'EAT') {
+                  audioManagerRef.current?.playEatSound();
+                  passiveBDGain += (BD_REWARD.PASSIVE_EAT * passiveMultiplier);
+              }
+              if (e.type === 'MITOSIS') {
+                  audioManagerRef.current?.playMitosisSound();
+                  passiveBDGain += (BD_REWARD.PASSIVE_MITOSIS * passiveMultiplier);
+              }
+              if (e.type === 'DEATH') {
+                  audioManagerRef.current?.playDeathSound();
+              }
+          });
+
+          // One thud per TICK; a crowded colony can report dozens of contacts at once
+          if (collided) audioManagerRef.current?.playCollisionSound();
+
+          if (passiveBDGain > 0) {
+              setBioData(prev => prev + passiveBDGain);
+          }
+      }
+
+      // Passive Income: Based on TOTAL NODES in the colony
+      // Reward: NODE_SURVIVAL_TICK per node per physics step
+      let totalNodes = 0;
+      for (let i = 0; i < tick.snapshot.botCount; i++) {
+          totalNodes += tick.snapshot.botInts[i * BOT_INTS.STRIDE + BOT_INTS.PARTICLE_COUNT];
+      }
+      const survivalIncome = totalNodes * BD_REWARD.NODE_SURVIVAL_TICK * passiveMultiplier * tick.ticks;
+      setBioData(prev => prev + survivalIncome);
+
+      // Dynamic Ambient Audio Update
+      // Pass the raw event list and bot state to the audio manager every frame
+      // The audio manager handles the smoothing and logic
+      if (audioManagerRef.current) {
+          audioManagerRef.current.updateAmbience(tick.events, tick.snapshot);
+      }
+
+      totalTickRef.current += 1;
+
+      // Update UI Status Bars (Throttled for performance)
+      if (totalTickRef.current % 4 === 0) {
+          setEvolutionProgress(tick.evolutionProgress);
+          setGrowthProgress(tick.growthProgress);
+          setReproductionProgress(tick.reproductionProgress);
+      }
+
+      if (totalTickRef.current % 30 === 0) {
+         updateGenomeGroups(tick.snapshot);
+         // Sync population ref for Save/Load functionality to include new children
+         populationRef.current = tick.snapshot.botIds
+             .map(id => genomeCacheRef.current.get(id))
+             .filter((g): g is Genome => !!g);
+      }
+  };
+
+  const handleEvolved = ({ stats, species, novelty, mutations, crossover, islands }: EvolvedPayload) => {
+      setGeneticHistory(prev => [...prev, stats]);
+      setSpecies(species);
+      setNovelty(novelty);
+      setMutationStats(mutations);
+      setCrossoverStats(crossover);
+      setIslands(islands);
+      if (stats.generation % AUTOSAVE_GENERATION_INTERVAL === 0) autosaveRef.current();
 
       // Trigger Evolution FX
       setShowEvolutionFlash(true);
       setTimeout(() => setShowEvolutionFlash(false), 1500);
       audioManagerRef.current?.playEvolutionSound();
-
-      // Only update population ref if actual changes to gene pool happened (optimization)
-      if (evolutionOccurred) {
-          populationRef.current = engine.bots.map(b => b.genome);
-      }
-      
-      // Reset cycle timer
-      evolutionTimerRef.current = 0;
       setEvolutionProgress(0);
   };
 
-  const updateGenomeGroups = () => {
-    const engine = engineRef.current;
-    if (!engine) return;
-
-    // Group 0: Cyans (150-230 hue)
-    const natives = engine.bots.filter(b => b.groupId === 0);
-
-    // Group 1: Magentas (Everyone else or specifically group 1)
-    const invaders = engine.bots.filter(b => b.groupId === 1);
-    
-    // Group 2+: Mutant Offspring from Mitosis
-    const mutants = engine.bots.filter(b => b.groupId > 1);
-
-    const groups = [];
-
-    if (natives.length > 0) {
-        const bestNative = natives.reduce((prev, curr) => (curr.energy > prev.energy ? curr : prev));
-        const totalEnergy = natives.reduce((sum, b) => sum + b.energy, 0);
-        groups.push({
-            name: "NATIVE STRAIN (ALPHA)",
-            genome: bestNative.genome,
-            color: bestNative.genome.color,
-            energy: totalEnergy,
-            botId: bestNative.id
-        });
-    }
+  const handleToolResult = (result: ToolResultPayload) => {
+      if (!result.success) return;
 
-    if (invaders.length > 0) {
-        const bestInvader = invaders.reduce((prev, curr) => (curr.energy > prev.energy ? curr : prev));
-        const totalEnergy = invaders.reduce((sum, b) => sum + b.energy, 0);
-        groups.push({
-            name: "INVASIVE STRAIN (BETA)",
-            genome: bestInvader.genome,
-            color: bestInvader.genome.color,
-            energy: totalEnergy,
-            botId: bestInvader.id
-        });
-    }
-    
-    // For mutants, we group by ID to avoid clutter if many splits happen
-    if (mutants.length > 0) {
-        const mutantGroups = new Map<number, Xenobot[]>();
-        mutants.forEach(b => {
-            if (!mutantGroups.has(b.groupId)) mutantGroups.set(b.groupId, []);
-            mutantGroups.get(b.groupId)!.push(b);
-        });
-
-        mutantGroups.forEach((bots, gId) => {
-            if (bots.length === 0) return;
-            const bestMutant = bots.reduce((prev, curr) => (curr.energy > prev.energy ? curr : prev));
-            const totalEnergy = bots.reduce((sum, b) => sum + b.energy, 0);
-             groups.push({
-                name: `MUTANT COLONY ${gId}`,
-                genome: bestMutant.genome,
-                color: bestMutant.genome.color,
-                energy: totalEnergy,
-                botId: bestMutant.id
-            });
-        });
-    }
+      const { tool, target, screenX: x, screenY: y } = result;
+      const cost = TOOL_COSTS[tool];
+      let reward = result.reward;
 
-    setActiveGenomeGroups(groups);
+      if (tool === 'SCANNER') {
+          if (target === 'BOT') {
+              // APPLY CLICK MULTIPLIER HERE
+              reward = BD_REWARD.CLICK_BOT * clickMultiplier;
+              spawnFloatingText(x, y, `+${Math.floor(reward)} BD`, TOOL_COLORS.SCANNER);
+              // Audio
+              audioManagerRef.current?.playMitosisSound(); // Reusing pleasant chime
+          } else if (target === 'FOOD') {
+              // APPLY CLICK MULTIPLIER HERE
+              reward = BD_REWARD.CLICK_FOOD * clickMultiplier;
+              spawnFloatingText(x, y, `+${Math.floor(reward)} BD`, TOOL_COLORS.SCANNER);
+              audioManagerRef.current?.playEatSound();
+          }
+      } else if (tool === 'INJECTOR') {
+          spawnFloatingText(x, y, `-${cost} BD`, TOOL_COLORS.INJECTOR);
+          // Reuse eat sound for squishy injection feel
+          audioManagerRef.current?.playEatSound();
+      } else if (tool === 'MUTAGEN') {
+          spawnFloatingText(x, y, "MUTATED", TOOL_COLORS.MUTAGEN);
+          spawnFloatingText(x, y - 20, `-${cost} BD`, "#fff");
+          audioManagerRef.current?.playEvolutionSound(); // Big sound for big action
+      } else if (tool === 'REAPER') {
+          spawnFloatingText(x, y, `+${reward} BD`, TOOL_COLORS.REAPER);
+          spawnFloatingText(x, y - 20, "RECLAIMED", "#fff");
+          audioManagerRef.current?.playDeathSound();
+      }
+
+      if (tool !== 'REAPER') setBioData(prev => prev - cost + reward);
+      else setBioData(prev => prev + reward);
   };
 
-  const simulationLoop = (time: number) => {
-      const engine = engineRef.current;
-      if (!engine) return;
+  // Worker Message Routing (Re-bound when handler dependencies change)
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const message = e.data;
+        switch (message.type) {
+            case 'TICK':
+                handleTick(message.payload);
+                break;
+            case 'EVOLVED':
+                handleEvolved(message.payload);
+                break;
+            case 'TOOL_RESULT':
+                handleToolResult(message.payload);
+                break;
+            case 'ARCHIVE':
+                setElites(message.payload);
+                break;
+            case 'PARETO':
+                setPareto(message.payload);
+                break;
+            case 'LINEAGE':
+                setLineage(message.payload);
+                break;
+            case 'LOAD_FAILED':
+                setGeneration(message.payload.generation);
+                setGlobalEvent(null);
+                setLoadError(message.payload.reason);
+                break;
+            case 'SNAPSHOT': {
+                const resolve = snapshotRequestsRef.current.get(message.payload.requestId);
+                snapshotRequestsRef.current.delete(message.payload.requestId);
+                resolve?.(message.payload.snapshot);
+                break;
+            }
+        }
+    };
+  }, [passiveMultiplier, clickMultiplier]);
 
-      if (isRunning) {
-          engine.update(time / 1000); // Physics Update
-          
-          // Process Physics Events for Audio AND Gameplay Awards
-          if (engine.events.length > 0) {
-              let passiveBDGain = 0;
-              let hasDeath = false;
-
-              engine.events.forEach(e => {
-                  if (e === 'COLLISION') audioManagerRef.current?.playCollisionSound();
-                  if (e === 'EAT') {
-                      audioManagerRef.current?.playEatSound();
-                      passiveBDGain += (BD_REWARD.PASSIVE_EAT * passiveMultiplier);
-                  }
-                  if (e === 'MITOSIS') {
-                      audioManagerRef.current?.playMitosisSound();
-                      passiveBDGain += (BD_REWARD.PASSIVE_MITOSIS * passiveMultiplier);
-                  }
-                  if (e === 'DEATH') {
-                      audioManagerRef.current?.playDeathSound();
-                      hasDeath = true;
-                  }
-              });
-              
-              if (passiveBDGain > 0) {
-                  setBioData(prev => prev + passiveBDGain);
-              }
-          }
+  // Run / Halt
+  useEffect(() => {
+    postToWorker({ type: isRunning ? 'START' : 'STOP' });
+  }, [isRunning]);
 
-          // Passive Income: Based on TOTAL NODES in the colony
-          // Reward: NODE_SURVIVAL_TICK per node per frame
-          const totalNodes = engine.bots.reduce((sum, b) => !b.isDead ? sum + b.particles.length : sum, 0);
-          const survivalIncome = totalNodes * BD_REWARD.NODE_SURVIVAL_TICK * passiveMultiplier;
-          setBioData(prev => prev + survivalIncome);
-
-          // Global Event Management
-          if (globalEvent) {
-               setGlobalEvent(prev => {
-                   if (!prev) return null;
-                   const nextDuration = prev.duration - 1;
-                   if (nextDuration <= 0) return null; // Event Over
-                   return { ...prev, duration: nextDuration };
-               });
-          } else {
-              // Randomly trigger new event (approx once every 2 mins at 60fps)
-              if (Math.random() < 0.0002) {
-                   triggerRandomEvent();
-              }
-          }
+  // Refresh the elite archive when its panel opens and after every generation while it is open
+  useEffect(() => {
+    if (showArchivePanel) postToWorker({ type: 'REQUEST_ARCHIVE' });
+  }, [showArchivePanel, generation]);
 
-          // Dynamic Ambient Audio Update
-          // Pass the raw event list and bot state to the audio manager every frame
-          // The audio manager handles the smoothing and logic
-          if (audioManagerRef.current) {
-              audioManagerRef.current.updateAmbience(engine.events, engine.bots);
-          }
-          
+  // Refresh the phylogeny when its panel opens and after every generation while it is open
+  useEffect(() => {
+    if (showPhylogenyPanel) postToWorker({ type: 'REQUEST_LINEAGE' });
+  }, [showPhylogenyPanel, generation]);
+
+  // The Pareto plot tracks live bots, so poll it rather than waiting for a generation
+  useEffect(() => {
+    if (!showDriftPanel) return;
+    postToWorker({ type: 'REQUEST_PARETO' });
+    const interval = setInterval(() => postToWorker({ type: 'REQUEST_PARETO' }), PARETO_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [showDriftPanel]);
+
+  // Camera Follow Selection
+  // Panels pick bots to follow; auto camera must be on for the follow to engage
+  const followBot = (botId: string) => {
+    setFollowingBotId(botId);
+    isAutoCameraRef.current = true;
+  };
+
+  useEffect(() => {
+    postToWorker({ type: 'FOLLOW_BOT', payload: followingBotId });
+  }, [followingBotId]);
+
+  // Presentation Loop: Floating text and camera (Physics and global events live in the worker)
+  const simulationLoop = () => {
+      if (isRunning) {
           // Floating Text Update (Physics Step)
           setFloatingTexts(prev => prev
               .map(ft => ({
@@ -396,59 +514,11 @@ const App: React.FC = () => {
               }))
               .filter(ft => ft.life > 0)
           );
-
-          // Sync Refs
-          botsRef.current = engine.bots; 
-          foodRef.current = engine.food;
-
-          totalTickRef.current += 1;
-          evolutionTimerRef.current += 1;
-
-          // Update UI Status Bars (Throttled for performance)
-          if (totalTickRef.current % 4 === 0) {
-              const evoProg = Math.min(1, evolutionTimerRef.current / EVOLUTION_INTERVAL);
-              setEvolutionProgress(evoProg);
-
-              // Update Group Stats (Growth/Reproduction)
-              // Logic: Find the LEADER (highest energy) of Group A (Natives)
-              // Calculate their progress against the DYNAMIC SCALED COSTS in engine
-              const groupA = engine.bots.filter(b => b.groupId === 0 && !b.isDead);
-              
-              if (groupA.length > 0) {
-                  const leader = groupA.reduce((prev, curr) => (curr.energy > prev.energy ? curr : prev));
-                  const { growthCost, mitosisCost } = engine.getCosts();
-                  const dynamicMaxSize = engine.config.maxBotSize; // USE DYNAMIC CONFIG LIMIT
-
-                  // Growth Bar (Yellow)
-                  const isMaxSize = leader.particles.length >= dynamicMaxSize;
-                  const growthRatio = isMaxSize ? 1.0 : Math.min(1.0, leader.energy / growthCost);
-                  setGrowthProgress(growthRatio);
-
-                  // Reproduction Bar (White)
-                  const energyRatio = Math.min(1.0, leader.energy / mitosisCost);
-                  const ageRatio = Math.min(1.0, leader.age / 800);
-                  const reproductionRatio = Math.min(energyRatio, ageRatio);
-                  setReproductionProgress(reproductionRatio);
-              } else {
-                  setGrowthProgress(0);
-                  setReproductionProgress(0);
-              }
-          }
-
-          if (evolutionTimerRef.current >= EVOLUTION_INTERVAL) {
-             evolveContinuous();
-          }
-
-          if (totalTickRef.current % 30 === 0) {
-             updateGenomeGroups();
-             // Sync population ref for Save/Load functionality to include new children
-             populationRef.current = engine.bots.filter(b => !b.isDead).map(b => b.genome);
-          }
       }
 
       // Camera Handling
       const now = Date.now();
-      
+
       // Auto-re-enable auto-camera after 3 seconds of manual inactivity
       if (!isAutoCameraRef.current && now - lastInputTimeRef.current > 3000) {
           isAutoCameraRef.current = true;
@@ -461,63 +531,30 @@ const App: React.FC = () => {
           setFollowingBotId(null);
           // Reset velocity
           cameraVelRef.current = { x: 0, y: 0 };
-          
+
           let dx = 0, dy = 0;
           const speed = 15 / camera.zoom;
-          
-          if (keysPressed.current.has('a') || keysPressed.current.has('arrowleft')) dx -= speed; 
-          if (keysPressed.current.has('d') || keysPressed.current.has('arrowright')) dx += speed; 
-          if (keysPressed.current.has('w') || keysPressed.current.has('arrowup')) dy -= speed; 
-          if (keysPressed.current.has('s') || keysPressed.current.has('arrowdown')) dy += speed; 
-          
+
+          if (keysPressed.current.has('a') || keysPressed.current.has('arrowleft')) dx -= speed;
+          if (keysPressed.current.has('d') || keysPressed.current.has('arrowright')) dx += speed;
+          if (keysPressed.current.has('w') || keysPressed.current.has('arrowup')) dy -= speed;
+          if (keysPressed.current.has('s') || keysPressed.current.has('arrowdown')) dy += speed;
+
           if (dx !== 0 || dy !== 0) {
               setCamera(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
           }
-      } 
-      // Auto Follow Logic (With Selection Support)
+      }
+      // Auto Follow Logic (Target resolved by the worker: selection, else Group A leader)
       else if (isAutoCameraRef.current && isRunning) {
-          let targetBot: Xenobot | undefined;
-
-          // 1. If following a specific selected bot
-          if (followingBotId) {
-             targetBot = engine.bots.find(b => b.id === followingBotId && !b.isDead);
-          }
-          
-          // 2. Default Behavior: Follow Leader of Group A (Natives)
-          if (!targetBot) {
-              const groupA = engine.bots.filter(b => !b.isDead && b.groupId === 0);
-              if (groupA.length > 0) {
-                  // Find highest energy bot in Group A
-                  targetBot = groupA.reduce((prev, curr) => (curr.energy > prev.energy ? curr : prev));
-              } else {
-                  // Fallback: Any living bot
-                  targetBot = engine.bots.find(b => !b.isDead);
-              }
-          }
-
-          if (targetBot) {
-             // Calculate Visual Center of Mass from smoothed render positions
-             let visualX = 0, visualY = 0;
-             const pCount = targetBot.particles.length;
-             
-             if (pCount > 0) {
-                 for(let i=0; i<pCount; i++) {
-                     visualX += targetBot.particles[i].renderPos.x;
-                     visualY += targetBot.particles[i].renderPos.y;
-                 }
-                 visualX /= pCount;
-                 visualY /= pCount;
-             } else {
-                 visualX = targetBot.centerOfMass.x;
-                 visualY = targetBot.centerOfMass.y;
-             }
+          const target = tickRef.current?.followTarget;
 
+          if (target) {
              // Offset logic: Keep bot in the left ~35% of the screen
              const offsetX = (dimensions.width * 0.15) / camera.zoom;
 
-             const targetCamX = visualX + offsetX;
-             const targetCamY = visualY;
-             
+             const targetCamX = target.x + offsetX;
+             const targetCamY = target.y;
+
              const dx = targetCamX - camera.x;
              const dy = targetCamY - camera.y;
              const distSq = dx*dx + dy*dy;
@@ -548,7 +585,7 @@ const App: React.FC = () => {
   useEffect(() => {
     requestRef.current = requestAnimationFrame(simulationLoop);
     return () => cancelAnimationFrame(requestRef.current);
-  }, [isRunning, camera, dimensions, followingBotId, globalEvent, clickMultiplier, passiveMultiplier]); 
+  }, [isRunning, camera, dimensions, globalEvent]);
 
   // Window Resize
   useEffect(() => {
@@ -564,7 +601,7 @@ const App: React.FC = () => {
           if(['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
               e.preventDefault();
           }
-          
+
           keysPressed.current.add(e.key.toLowerCase());
           if (e.key === 'q' || e.key === '-') setCamera(c => ({...c, zoom: Math.max(0.1, c.zoom * 0.95)}));
           if (e.key === 'e' || e.key === '=') setCamera(c => ({...c, zoom: Math.min(2.0, c.zoom * 1.05)}));
@@ -595,126 +632,85 @@ const App: React.FC = () => {
     }
   };
 
+  const loadSave = (data: SaveData) => {
+    setConfig(data.config);
+    initSimulation(data.config, data.population, data.generation, data.snapshot);
+    // Load Research State
+    if (data.researchState) {
+        setBioData(data.researchState.bioData);
+        setUnlockedUpgrades(data.researchState.unlockedUpgrades);
+        // Restore Multipliers
+        setClickMultiplier(data.researchState.clickMultiplier);
+        setPassiveMultiplier(data.researchState.passiveMultiplier);
+    }
+  };
+
+  // "Continue" from the title screen: load the chosen slot and go straight into the run
+  const handleContinue = (data: SaveData) => {
+    if (audioManagerRef.current && !isMuted) {
+        audioManagerRef.current.startDrone();
+    }
+    loadSave(data);
+    setShowSlotBrowser(false);
+    setAppState('SIMULATION');
+    setIsRunning(true);
+  };
+
   const handleAnalyze = async () => {
      if (isAnalyzing || activeGenomeGroups.length === 0) return;
      setIsAnalyzing(true);
-     
-     const engine = engineRef.current;
-     if (engine) {
-         // Analyze the currently followed bot if exists, else the top group
-         const targetId = followingBotId || activeGenomeGroups[0]?.botId;
-         
-         if (targetId) {
-            const bot = engine.bots.find(b => b.id === targetId);
-            if (bot) {
-                const result = await analyzeXenobot(bot);
-                setAnalysisResult(result);
-            }
-         }
+
+     // Analyze the currently followed bot if exists, else the top group
+     const targetId = followingBotId || activeGenomeGroups[0]?.botId;
+
+     if (targetId) {
+        const snapshot = snapshotRef.current;
+        const index = snapshot ? findSnapshotBot(snapshot, targetId) : -1;
+        const genome = genomeCacheRef.current.get(targetId);
+        if (snapshot && index !== -1 && genome) {
+            const bf = index * BOT_FLOATS.STRIDE;
+            const result = await analyzeXenobot({
+                genome,
+                age: snapshot.botInts[index * BOT_INTS.STRIDE + BOT_INTS.AGE],
+                energy: snapshot.botFloats[bf + BOT_FLOATS.ENERGY],
+                irruption: snapshot.botFloats[bf + BOT_FLOATS.IRRUPTION],
+                absorption: snapshot.botFloats[bf + BOT_FLOATS.ABSORPTION]
+            });
+            setAnalysisResult(result);
+        }
      }
      setIsAnalyzing(false);
   };
 
   // Interaction Handler for Canvas Clicks (Gamified)
   const handleInteraction = (type: 'BOT' | 'FOOD' | 'EMPTY', id: string, x: number, y: number) => {
-      const engine = engineRef.current;
-      if (!engine) return;
+      if (!workerRef.current) return;
 
       const cost = TOOL_COSTS[activeTool];
-      
+
       // Cost Check (Except Reaper which gains money)
       if (activeTool !== 'REAPER' && bioData < cost) {
           spawnFloatingText(x, y, "NO FUNDS", "#ff0000");
           return;
       }
 
-      let success = false;
-      let reward = 0;
-
-      if (activeTool === 'SCANNER') {
-          if (type === 'BOT') {
-              // Clicked a bot: Award RP
-              const bot = engine.bots.find(b => b.id === id);
-              if (bot) {
-                  bot.energy += 20; 
-                  // APPLY CLICK MULTIPLIER HERE
-                  reward = BD_REWARD.CLICK_BOT * clickMultiplier;
-                  spawnFloatingText(x, y, `+${Math.floor(reward)} BD`, TOOL_COLORS.SCANNER);
-                  success = true;
-                  // Audio
-                  audioManagerRef.current?.playMitosisSound(); // Reusing pleasant chime
-              }
-          } else if (type === 'FOOD') {
-              // APPLY CLICK MULTIPLIER HERE
-              reward = BD_REWARD.CLICK_FOOD * clickMultiplier;
-              spawnFloatingText(x, y, `+${Math.floor(reward)} BD`, TOOL_COLORS.SCANNER);
-              success = true;
-              audioManagerRef.current?.playEatSound();
-          }
-      } 
-      else if (activeTool === 'INJECTOR') {
-          // Spawn food at click location
-          const safeZoom = Math.max(0.1, Math.min(5.0, camera.zoom)) || 1.0;
-          const worldX = (x - dimensions.width/2) / safeZoom + camera.x;
-          const worldY = (y - dimensions.height/2) / safeZoom + camera.y;
-          
-          // Spawn cluster with scatter
-          for(let i=0; i<3; i++) {
-              engine.food.push({
-                  id: Math.random().toString(36).substr(2, 9),
-                  x: worldX + (Math.random()-0.5)*120, // Increased scatter
-                  y: worldY + (Math.random()-0.5)*120,
-                  energy: FOOD_ENERGY, // Uses constant to align with economy
-                  phase: Math.random() * Math.PI * 2
-              });
-          }
-          spawnFloatingText(x, y, `-${cost} BD`, TOOL_COLORS.INJECTOR);
-          success = true;
-          // Reuse eat sound for squishy injection feel
-          audioManagerRef.current?.playEatSound();
-      }
-      else if (activeTool === 'MUTAGEN') {
-          if (type === 'BOT') {
-             const result = engine.applyMutagen(id);
-             if (result) {
-                 spawnFloatingText(x, y, "MUTATED", TOOL_COLORS.MUTAGEN);
-                 spawnFloatingText(x, y - 20, `-${cost} BD`, "#fff");
-                 success = true;
-                 audioManagerRef.current?.playEvolutionSound(); // Big sound for big action
-             }
-          }
-      }
-      else if (activeTool === 'REAPER') {
-          if (type === 'BOT') {
-              const botIndex = engine.bots.findIndex(b => b.id === id);
-              if (botIndex !== -1) {
-                  const bot = engine.bots[botIndex];
-                  const reclaimValue = Math.floor(bot.energy * 0.15); // Increased to 15%
-                  reward = reclaimValue;
-                  
-                  // Kill bot
-                  bot.isDead = true;
-                  engine.events.push('DEATH');
-                  
-                  spawnFloatingText(x, y, `+${reward} BD`, TOOL_COLORS.REAPER);
-                  spawnFloatingText(x, y - 20, "RECLAIMED", "#fff");
-                  success = true; // No cost, but success flag for state update
-                  audioManagerRef.current?.playDeathSound();
-              }
-          }
-      }
+      // Transform click to World Space for placement tools
+      const safeZoom = Math.max(0.1, Math.min(5.0, camera.zoom)) || 1.0;
+      const worldX = (x - dimensions.width/2) / safeZoom + camera.x;
+      const worldY = (y - dimensions.height/2) / safeZoom + camera.y;
 
-      if (success) {
-          if (activeTool !== 'REAPER') setBioData(prev => prev - cost + reward);
-          else setBioData(prev => prev + reward);
-      }
+      // Rewards and costs are settled in handleToolResult once the worker confirms
+      postToWorker({
+          type: 'TOOL_ACTION',
+          payload: { tool: activeTool, target: type, targetId: id, worldX, worldY, screenX: x, screenY: y }
+      });
   };
 
   const handlePurchase = (upgrade: Upgrade) => {
       if (bioData >= upgrade.cost && !unlockedUpgrades.includes(upgrade.id)) {
           setBioData(prev => prev - upgrade.cost);
           setUnlockedUpgrades(prev => [...prev, upgrade.id]);
-          
+
           // Apply META upgrades (Multipliers) logic
           if (upgrade.id.startsWith('SCAN_AMP')) {
               // Any scan amp upgrade DOUBLES the current multiplier
@@ -730,14 +726,7 @@ const App: React.FC = () => {
               const newConfig = { ...config, ...upgrade.effect(config) };
               setConfig(newConfig);
               // Live update the engine
-              if (engineRef.current) {
-                  engineRef.current.config = newConfig;
-                  
-                  // Specific logic updates
-                  if (upgrade.id === 'NUTRIENT_AGAR') {
-                      engineRef.current.spawnFood(); 
-                  }
-              }
+              postToWorker({ type: 'APPLY_UPGRADE', payload: { upgradeId: upgrade.id, config: newConfig } });
           }
       }
   };
@@ -753,8 +742,26 @@ const App: React.FC = () => {
               onStart={handleStart} 
               isMuted={isMuted} 
               onToggleMute={toggleMute} 
+              onContinue={() => setShowSlotBrowser(true)}
+              canContinue={canContinue}
           />
       )}
+
+      {appState === 'TITLE' && showSlotBrowser && (
+          <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/80 backdrop-blur-sm cursor-auto">
+              <div className="bg-slate-900 border border-neon-cyan/50 w-[500px] max-h-[90vh] overflow-y-auto rounded-xl shadow-[0_0_50px_rgba(0,243,255,0.1)]">
+                  <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-950">
+                      <h2 className="font-display font-bold text-xl text-neon-cyan">CONTINUE</h2>
+                      <button onClick={() => setShowSlotBrowser(false)} className="text-slate-500 hover:text-white transition-colors">
+                          <X size={24} />
+                      </button>
+                  </div>
+                  <div className="p-6">
+                      <SaveSlotBrowser onLoad={handleContinue} />
+                  </div>
+              </div>
+          </div>
+      )}
       
       {appState === 'SIMULATION' && (
         <div className="relative w-full h-full overflow-hidden bg-deep-space">
@@ -766,6 +773,20 @@ const App: React.FC = () => {
              className={`absolute inset-0 z-[100] bg-neon-cyan/20 pointer-events-none transition-opacity duration-1000 ease-out mix-blend-screen ${showEvolutionFlash ? 'opacity-40' : 'opacity-0'}`}
           />
 
+          {/* Failed World Restore Notice */}
+          {loadError && (
+              <div className="absolute top-24 left-1/2 -translate-x-1/2 z-50 bg-amber-500/20 border border-amber-500 text-amber-400 px-6 py-2 rounded-lg flex items-center gap-3 shadow-lg">
+                  <AlertTriangle size={20} />
+                  <div className="flex flex-col">
+                      <span className="font-bold font-display tracking-widest text-sm">SAVED WORLD COULD NOT BE RESTORED</span>
+                      <span className="text-[10px] font-mono text-amber-200">Respawned the saved population instead. {loadError}</span>
+                  </div>
+                  <button onClick={() => setLoadError(null)} className="text-amber-400 hover:text-white">
+                      <X size={16} />
+                  </button>
+              </div>
+          )}
+
           {/* Global Event Warning Banner */}
           {globalEvent && (
               <div className="absolute top-8 left-1/2 -translate-x-1/2 z-50 bg-red-500/20 border border-red-500 text-red-500 px-6 py-2 rounded-full flex items-center gap-3 animate-pulse shadow-[0_0_20px_rgba(239,68,68,0.5)]">
@@ -778,8 +799,7 @@ const App: React.FC = () => {
           )}
 
           <SimulationCanvas 
-            botsRef={botsRef}
-            foodRef={foodRef}
+            snapshotRef={snapshotRef}
             width={dimensions.width}
             height={dimensions.height}
             groundY={config.groundHeight}
@@ -789,6 +809,8 @@ const App: React.FC = () => {
             onInteract={handleInteraction}
             floatingTexts={floatingTexts}
             activeTool={activeTool}
+            thumbnailRef={thumbnailRef}
+            islandCount={config.islandCount}
           />
           
           <div className="absolute top-0 left-0 bottom-0 z-30">
@@ -811,6 +833,10 @@ const App: React.FC = () => {
                 onToggleMomBot={() => setShowMomBotPanel(!showMomBotPanel)}
                 showDriftPanel={showDriftPanel}
                 onToggleDriftPanel={() => setShowDriftPanel(!showDriftPanel)}
+                showArchivePanel={showArchivePanel}
+                onToggleArchivePanel={() => setShowArchivePanel(!showArchivePanel)}
+                showPhylogenyPanel={showPhylogenyPanel}
+                onTogglePhylogenyPanel={() => setShowPhylogenyPanel(!showPhylogenyPanel)}
                 // Game Props
                 bioData={bioData}
                 unlockedUpgrades={unlockedUpgrades}
@@ -822,7 +848,33 @@ const App: React.FC = () => {
           </div>
           
           <AnalysisPanel result={analysisResult} onClose={() => setAnalysisResult(null)} />
-          <DriftPanel isOpen={showDriftPanel} onClose={() => setShowDriftPanel(false)} history={geneticHistory} />
+          <DriftPanel
+              isOpen={showDriftPanel}
+              onClose={() => setShowDriftPanel(false)}
+              history={geneticHistory}
+              species={species}
+              novelty={novelty}
+              mutations={mutationStats}
+              crossover={crossoverStats}
+              islands={islands}
+              pareto={pareto}
+              followingBotId={followingBotId}
+              onFollowBot={followBot}
+          />
+          <ArchivePanel
+              isOpen={showArchivePanel}
+              onClose={() => setShowArchivePanel(false)}
+              elites={elites}
+              onRefresh={() => postToWorker({ type: 'REQUEST_ARCHIVE' })}
+              onSpawn={(key) => postToWorker({ type: 'SPAWN_ELITE', payload: key })}
+          />
+          <PhylogenyPanel
+              isOpen={showPhylogenyPanel}
+              onClose={() => setShowPhylogenyPanel(false)}
+              lineage={lineage}
+              onRefresh={() => postToWorker({ type: 'REQUEST_LINEAGE' })}
+              onFollowBot={followBot}
+          />
           
           {showResearchPanel && (
               <ResearchPanel 
@@ -843,17 +895,8 @@ const App: React.FC = () => {
                     setIsRunning(true);
                 }}
                 onLoad={(data) => {
-                    setConfig(data.config);
-                    initSimulation(data.config, data.population, data.generation);
+                    loadSave(data);
                     setShowSettings(false);
-                    // Load Research State
-                    if (data.researchState) {
-                        setBioData(data.researchState.bioData);
-                        setUnlockedUpgrades(data.researchState.unlockedUpgrades);
-                        // Restore Multipliers
-                        setClickMultiplier(data.researchState.clickMultiplier);
-                        setPassiveMultiplier(data.researchState.passiveMultiplier);
-                    }
                 }}
                 onClose={() => {
                     // Just close and resume, do NOT reset simulation
@@ -862,6 +905,8 @@ const App: React.FC = () => {
                 }}
                 population={populationRef.current}
                 generation={generation}
+                onCaptureWorld={captureWorldState}
+                onCaptureThumbnail={() => thumbnailRef.current?.() ?? null}
                 researchState={{
                     bioData,
                     unlockedUpgrades,
@@ -892,11 +937,7 @@ const App: React.FC = () => {
               genomes={activeGenomeGroups}
               hidden={!showGenomePanel}
               onClose={() => setShowGenomePanel(false)}
-              onSelect={(botId) => {
-                  setFollowingBotId(botId);
-                  // Ensure auto camera is on to engage follow logic
-                  isAutoCameraRef.current = true;
-              }}
+              onSelect={followBot}
           />
         </div>
       )}
@@ -0,0 +1,202 @@
+// Headless batch evolution runner (no React, DOM or WebGL).
+//
+//   npm run evolve -- --config sweep.json --seeds 1,2,3 --generations 20 --out runs
+//
+// Each seed runs at full speed in its own worker thread and writes to <out>/seed-<seed>/:
+//   generations.jsonl  one line per finished generation (cell stats + fitness distribution,
+//                      overall and per genome encoding, plus the species found and,
+//                      in NOVELTY mode, the novelty scores and archive size; mutation
+//                      operator counts; crossover survival per mode; with the island
+//                      model, the population, strain mix and immigrants per island)
+//   final.json         the final population as SaveData (loadable from the Settings panel)
+
+import { Worker, isMainThread, parentPort, workerData } from 'node:worker_threads';
+import { mkdirSync, readFileSync, writeFileSync, appendFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { availableParallelism } from 'node:os';
+import { parseArgs } from 'node:util';
+import { Simulation } from '../services/simulation';
+import { createSaveData, validateSimulationConfig } from '../services/saveData';
+import { DEFAULT_CONFIG } from '../constants';
+import { SimulationConfig, EvolvedPayload } from '../types';
+
+interface RunJob {
+  config: SimulationConfig;
+  generations: number;
+  outDir: string;
+}
+
+type RunMessage =
+  | { type: 'GENERATION'; seed: number; report: EvolvedPayload; livingBots: number }
+  | { type: 'DONE'; seed: number; savePath: string };
+
+const USAGE = `Usage: npm run evolve -- [options]
+
+  --config <file>       JSON file with SimulationConfig overrides (defaults fill the rest)
+  --seeds <a,b,...>     Seeds to run, one worker thread each (default: config seed)
+  --generations <n>     Generations to run per seed (default: 10)
+  --threads <n>         Max concurrent workers (default: available cores)
+  --out <dir>           Output directory (default: ./runs)
+  --help                Show this message`;
+
+// --- Worker Thread: run one seed to completion ---
+
+const runSeed = (job: RunJob) => {
+  const { config, generations, outDir } = job;
+  mkdirSync(outDir, { recursive: true });
+
+  const statsPath = join(outDir, 'generations.jsonl');
+  writeFileSync(statsPath, '');
+
+  const sim = new Simulation(config);
+  sim.populate();
+
+  let completed = 0;
+  while (completed < generations) {
+      const report = sim.step();
+      if (!report) continue;
+
+      completed++;
+      const livingBots = sim.engine.bots.filter(b => !b.isDead).length;
+      appendFileSync(statsPath, JSON.stringify({ ...report, livingBots }) + '\n');
+      parentPort!.postMessage({ type: 'GENERATION', seed: config.seed, report, livingBots } satisfies RunMessage);
+  }
+
+  const save = createSaveData({
+      config,
+      population: sim.engine.bots.filter(b => !b.isDead).map(b => b.genome),
+      generation: sim.generation,
+      timestamp: Date.now(),
+      researchState: { bioData: 0, unlockedUpgrades: [], clickMultiplier: 1, passiveMultiplier: 1 },
+      seed: config.seed,
+      snapshot: sim.capture()
+  });
+  const savePath = join(outDir, 'final.json');
+  writeFileSync(savePath, JSON.stringify(save));
+
+  parentPort!.postMessage({ type: 'DONE', seed: config.seed, savePath } satisfies RunMessage);
+};
+
+// --- Main Thread: parse options and fan seeds out to a worker pool ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Defaults fill whatever the file leaves out. The rate tables merge key by key, so a file can
+// override a single rate; fitnessWeights replaces the defaults outright, since it lists the
+// objectives to use. Anything else malformed is left for the validator to report.
+const mergeConfig = (overrides: Record<string, unknown>): Record<string, unknown> => ({
+  ...DEFAULT_CONFIG,
+  ...overrides,
+  mutation: isObject(overrides.mutation) ? { ...DEFAULT_CONFIG.mutation, ...overrides.mutation } : overrides.mutation ?? DEFAULT_CONFIG.mutation,
+  crossoverWeights: isObject(overrides.crossoverWeights)
+      ? { ...DEFAULT_CONFIG.crossoverWeights, ...overrides.crossoverWeights }
+      : overrides.crossoverWeights ?? DEFAULT_CONFIG.crossoverWeights
+});
+
+const parsePositiveInt = (value: string, flag: string): number => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) throw new Error(`${flag} must be a positive integer, got "${value}"`);
+  return n;
+};
+
+// Workers don't inherit the tsx loader, so bootstrap it before importing this file again.
+// tsx is resolved from this file, since eval'd workers resolve bare imports from the cwd.
+const TSX_API = import.meta.resolve('tsx/esm/api');
+const WORKER_BOOTSTRAP = `import(${JSON.stringify(TSX_API)}).then(({ register }) => { register(); return import(${JSON.stringify(import.meta.url)}); })`;
+
+const runWorker = (job: RunJob): Promise<void> => new Promise((resolveRun, rejectRun) => {
+  const worker = new Worker(WORKER_BOOTSTRAP, { eval: true, workerData: job });
+
+  worker.on('message', (message: RunMessage) => {
+      if (message.type === 'GENERATION') {
+          const { generation, fitness, encodings, species, novelty, mutations, crossover, islands } = message.report;
+          const operators = Object.values(mutations);
+          const applied = operators.reduce((sum, m) => sum + m.applied, 0);
+          const accepted = operators.reduce((sum, m) => sum + m.accepted, 0);
+          const crossed = Object.entries(crossover)
+              .filter(([, c]) => c.born > 0)
+              .map(([mode, c]) => `${mode.toLowerCase()} ${c.survived}/${c.born}`);
+          console.log(
+              `[seed ${message.seed}] gen ${generation}: ${message.livingBots} bots, ` +
+              `fitness max ${fitness.max.toFixed(1)} mean ${fitness.mean.toFixed(1)} sd ${fitness.stdDev.toFixed(1)} | ` +
+              `direct ${encodings.DIRECT.count} (mean ${encodings.DIRECT.fitness.mean.toFixed(1)}), ` +
+              `cppn ${encodings.CPPN.count} (mean ${encodings.CPPN.fitness.mean.toFixed(1)}) | ` +
+              `${species.filter(s => s.offspring > 0).length} species | mutations ${accepted}/${applied} accepted` +
+              (crossed.length > 0 ? ` | crossover survived ${crossed.join(', ')}` : '') +
+              (islands.length > 0 ? ` | islands ${islands.map(i => `${i.population}${i.immigrants > 0 ? `(+${i.immigrants})` : ''}`).join(' ')}` : '') +
+              (novelty ? ` | novelty best ${novelty.best.toFixed(1)} mean ${novelty.mean.toFixed(1)}, archive ${novelty.archiveSize}` : '')
+          );
+      } else {
+          console.log(`[seed ${message.seed}] done -> ${message.savePath}`);
+      }
+  });
+  worker.on('error', rejectRun);
+  worker.on('exit', code => {
+      if (code === 0) resolveRun();
+      else rejectRun(new Error(`Worker for seed ${job.config.seed} exited with code ${code}`));
+  });
+});
+
+const main = async () => {
+  const { values } = parseArgs({
+      options: {
+          config: { type: 'string' },
+          seeds: { type: 'string' },
+          generations: { type: 'string', default: '10' },
+          threads: { type: 'string' },
+          out: { type: 'string', default: 'runs' },
+          help: { type: 'boolean', default: false }
+      }
+  });
+
+  if (values.help) {
+      console.log(USAGE);
+      return;
+  }
+
+  const overrides: unknown = values.config ? JSON.parse(readFileSync(resolve(values.config), 'utf8')) : {};
+  if (!isObject(overrides)) throw new Error(`${values.config} must hold a JSON object`);
+  const { config: baseConfig, issues } = validateSimulationConfig(mergeConfig(overrides));
+  issues.forEach(issue => console.warn(`config: ${issue.path}: ${issue.message}`));
+
+  // Each seed writes to its own seed-<n> directory, so a repeated seed would overwrite a run
+  const seeds = values.seeds
+      ? values.seeds.split(',').map(s => {
+          const seed = Number(s.trim());
+          if (!Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF) throw new Error(`Invalid seed "${s}" (expected an integer in [0, ${0xFFFFFFFF}])`);
+          return seed;
+      })
+      : [baseConfig.seed];
+  const repeated = seeds.find((seed, i) => seeds.indexOf(seed) !== i);
+  if (repeated !== undefined) throw new Error(`Seed ${repeated} is listed more than once`);
+
+  const generations = parsePositiveInt(values.generations, '--generations');
+  const threads = values.threads ? parsePositiveInt(values.threads, '--threads') : availableParallelism();
+  const outRoot = resolve(values.out);
+
+  const jobs: RunJob[] = seeds.map(seed => ({
+      config: { ...baseConfig, seed },
+      generations,
+      outDir: join(outRoot, `seed-${seed}`)
+  }));
+
+  console.log(`Running ${jobs.length} seed(s) x ${generations} generation(s) on up to ${threads} thread(s)`);
+
+  // Simple pool: each runner pulls the next job until the queue is empty
+  const queue = [...jobs];
+  const runners = Array.from({ length: Math.min(threads, jobs.length) }, async () => {
+      while (queue.length > 0) {
+          await runWorker(queue.shift()!);
+      }
+  });
+  await Promise.all(runners);
+};
+
+if (isMainThread) {
+  main().catch(err => {
+      console.error(err instanceof Error ? err.message : err);
+      process.exitCode = 1;
+  });
+} else {
+  runSeed(workerData as RunJob);
+}
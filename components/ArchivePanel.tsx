@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { X, Grid3x3, RefreshCw } from 'lucide-react';
+import { DescriptorKey, Elite } from '../types';
+import { ARCHIVE_BINS, DESCRIPTOR_RANGES } from '../constants';
+import { DESCRIPTOR_KEYS } from '../services/eliteArchive';
+
+interface ArchivePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  elites: Elite[];
+  onRefresh: () => void;
+  onSpawn: (key: string) => void;
+}
+
+const DESCRIPTOR_LABELS: Record<DescriptorKey, string> = {
+  muscleFraction: 'MUSCLE',
+  neuronFraction: 'NEURON',
+  nodeCount: 'NODES',
+  elongation: 'ELONGATION',
+  speed: 'SPEED'
+};
+
+const formatDescriptor = (key: DescriptorKey, value: number) => {
+  if (key === 'muscleFraction' || key === 'neuronFraction') return `${Math.round(value * 100)}%`;
+  if (key === 'nodeCount') return value.toFixed(0);
+  return value.toFixed(2);
+};
+
+// 2D projection of the archive: each square shows the fittest elite among all cells that
+// share its bins on the two chosen axes. Clicking a filled square spawns that elite.
+export const ArchivePanel: React.FC<ArchivePanelProps> = ({ isOpen, onClose, elites, onRefresh, onSpawn }) => {
+  const [xAxis, setXAxis] = useState<DescriptorKey>('muscleFraction');
+  const [yAxis, setYAxis] = useState<DescriptorKey>('nodeCount');
+
+  const { grid, minFitness, maxFitness } = useMemo(() => {
+    const xi = DESCRIPTOR_KEYS.indexOf(xAxis);
+    const yi = DESCRIPTOR_KEYS.indexOf(yAxis);
+    const cells: (Elite | null)[][] = Array.from({ length: ARCHIVE_BINS }, () => Array(ARCHIVE_BINS).fill(null));
+    elites.forEach(elite => {
+        const current = cells[elite.bins[yi]][elite.bins[xi]];
+        if (!current || elite.genome.fitness > current.genome.fitness) cells[elite.bins[yi]][elite.bins[xi]] = elite;
+    });
+    const shown = cells.flat().filter((e): e is Elite => e !== null).map(e => e.genome.fitness);
+    return { grid: cells, minFitness: Math.min(...shown), maxFitness: Math.max(...shown) };
+  }, [elites, xAxis, yAxis]);
+
+  if (!isOpen) return null;
+
+  const cellColor = (fitness: number) => {
+    const t = maxFitness > minFitness ? (fitness - minFitness) / (maxFitness - minFitness) : 1;
+    return `hsl(${(200 - t * 160).toFixed(0)}, 90%, ${(30 + t * 30).toFixed(0)}%)`; // Deep blue -> hot yellow
+  };
+
+  const axisSelect = (value: DescriptorKey, onChange: (key: DescriptorKey) => void) => (
+    <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as DescriptorKey)}
+        className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white focus:outline-none focus:border-neon-cyan"
+    >
+        {DESCRIPTOR_KEYS.map(key => <option key={key} value={key}>{DESCRIPTOR_LABELS[key]}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed bottom-24 right-24 z-40 animate-in fade-in slide-in-from-right-10 duration-300">
+      <div className="bg-slate-900/95 border border-slate-700 rounded-lg p-4 backdrop-blur-md shadow-2xl w-[420px] flex flex-col">
+
+        {/* Header */}
+        <div className="flex justify-between items-center mb-3 border-b border-slate-700 pb-3">
+            <h3 className="font-display font-bold text-slate-200 flex items-center gap-2 text-sm">
+                <Grid3x3 size={16} className="text-neon-cyan"/>
+                ELITE ARCHIVE
+                <span className="text-[10px] text-slate-500 font-mono font-normal">{elites.length} CELLS</span>
+            </h3>
+            <div className="flex items-center gap-3">
+                <button onClick={onRefresh} title="Refresh" className="text-slate-500 hover:text-white transition-colors">
+                    <RefreshCw size={14} />
+                </button>
+                <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+                    <X size={16} />
+                </button>
+            </div>
+        </div>
+
+        <div className="flex justify-between items-center mb-2 text-[10px] text-slate-400 font-mono">
+            <span className="flex items-center gap-1">X {axisSelect(xAxis, setXAxis)}</span>
+            <span className="flex items-center gap-1">Y {axisSelect(yAxis, setYAxis)}</span>
+        </div>
+
+        <div className="grid gap-0.5 bg-slate-950/50 rounded border border-slate-800 p-1" style={{ gridTemplateColumns: `repeat(${ARCHIVE_BINS}, minmax(0, 1fr))` }}>
+            {/* Highest Y bin on top */}
+            {[...grid].reverse().map((row, r) => row.map((elite, c) => (
+                <button
+                    key={`${r}-${c}`}
+                    disabled={!elite}
+                    onClick={() => elite && onSpawn(elite.key)}
+                    title={elite
+                        ? `${DESCRIPTOR_KEYS.map(k => `${DESCRIPTOR_LABELS[k]} ${formatDescriptor(k, elite.descriptors[k])}`).join(' · ')}\nFITNESS ${elite.genome.fitness.toFixed(1)} · GEN ${elite.genome.generation}\nClick to spawn`
+                        : undefined}
+                    className="aspect-square rounded-sm border border-slate-800 enabled:hover:border-white transition-colors"
+                    style={{ backgroundColor: elite ? cellColor(elite.genome.fitness) : 'transparent' }}
+                />
+            )))}
+        </div>
+
+        <div className="mt-2 flex justify-between text-[10px] text-slate-500 font-mono">
+            <span>{DESCRIPTOR_LABELS[xAxis]} {formatDescriptor(xAxis, DESCRIPTOR_RANGES[xAxis][0])}–{formatDescriptor(xAxis, DESCRIPTOR_RANGES[xAxis][1])}</span>
+            <span>{DESCRIPTOR_LABELS[yAxis]} {formatDescriptor(yAxis, DESCRIPTOR_RANGES[yAxis][0])}–{formatDescriptor(yAxis, DESCRIPTOR_RANGES[yAxis][1])}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
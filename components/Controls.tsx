@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Play, Pause, Zap, Settings, PanelLeftClose, PanelLeftOpen, Dna, Network, TrendingUp, FlaskConical, Lock, Scan, Syringe, Biohazard, Skull, CircleDashed, Sprout } from 'lucide-react';
+import { Play, Pause, Zap, Settings, PanelLeftClose, PanelLeftOpen, Dna, Network, TrendingUp, Grid3x3, GitBranch, FlaskConical, Lock, Scan, Syringe, Biohazard, Skull, CircleDashed, Sprout } from 'lucide-react';
 import { UpgradeID, ToolMode } from '../types';
 import { TOOL_COLORS, TOOL_COSTS } from '../constants';
 
@@ -22,6 +22,10 @@ interface ControlsProps {
   onToggleMomBot: () => void;
   showDriftPanel: boolean;
   onToggleDriftPanel: () => void;
+  showArchivePanel: boolean;
+  onToggleArchivePanel: () => void;
+  showPhylogenyPanel: boolean;
+  onTogglePhylogenyPanel: () => void;
   
   // New Props for Game
   bioData: number;
@@ -48,6 +52,10 @@ export const Controls: React.FC<ControlsProps> = ({
   onToggleMomBot,
   showDriftPanel,
   onToggleDriftPanel,
+  showArchivePanel,
+  onToggleArchivePanel,
+  showPhylogenyPanel,
+  onTogglePhylogenyPanel,
   bioData,
   unlockedUpgrades,
   onOpenResearch,
@@ -331,6 +339,32 @@ export const Controls: React.FC<ControlsProps> = ({
                           <TrendingUp size={20} />
                           <span className="text-[10px] font-bold">DRIFT</span>
                       </button>
+
+                      {/* Elite Archive Button */}
+                      <button 
+                          onClick={onToggleArchivePanel}
+                          className={`col-span-2 p-2 rounded border flex items-center justify-center gap-2 transition-all ${
+                              showArchivePanel 
+                                ? 'bg-neon-cyan/10 border-neon-cyan/50 text-neon-cyan' 
+                                : 'bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600 hover:bg-slate-900'
+                          }`}
+                      >
+                          <Grid3x3 size={16} />
+                          <span className="text-[10px] font-bold">ELITE ARCHIVE</span>
+                      </button>
+
+                      {/* Phylogeny Button */}
+                      <button 
+                          onClick={onTogglePhylogenyPanel}
+                          className={`col-span-2 p-2 rounded border flex items-center justify-center gap-2 transition-all ${
+                              showPhylogenyPanel 
+                                ? 'bg-neon-cyan/10 border-neon-cyan/50 text-neon-cyan' 
+                                : 'bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600 hover:bg-slate-900'
+                          }`}
+                      >
+                          <GitBranch size={16} />
+                          <span className="text-[10px] font-bold">PHYLOGENY</span>
+                      </button>
                   </div>
 
                   <div className="bg-slate-950 p-4 rounded border border-slate-800">
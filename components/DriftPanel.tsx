@@ -1,21 +1,33 @@
 
 import React from 'react';
 import { X, TrendingUp } from 'lucide-react';
-import { GeneticStats } from '../types';
+import { CrossoverStats, GeneticStats, IslandSummary, MutationStats, NoveltySummary, ParetoPayload, SpeciesSummary } from '../types';
+import { SPECIES_STAGNATION_LIMIT } from '../constants';
+import { getStrain, strainColor } from '../services/strains';
+import { CROSSOVER_MODES, MUTATION_OPERATORS } from '../services/geneticAlgorithm';
 import { GeneticDriftChart } from './GeneticDriftChart';
+import { ParetoChart } from './ParetoChart';
 
 interface DriftPanelProps {
   isOpen: boolean;
   onClose: () => void;
   history: GeneticStats[];
+  species: SpeciesSummary[];
+  novelty: NoveltySummary | null;
+  mutations: MutationStats | null;
+  crossover: CrossoverStats | null;
+  islands: IslandSummary[];
+  pareto: ParetoPayload | null;
+  followingBotId: string | null;
+  onFollowBot: (botId: string) => void;
 }
 
-export const DriftPanel: React.FC<DriftPanelProps> = ({ isOpen, onClose, history }) => {
+export const DriftPanel: React.FC<DriftPanelProps> = ({ isOpen, onClose, history, species, novelty, mutations, crossover, islands, pareto, followingBotId, onFollowBot }) => {
   if (!isOpen) return null;
 
   return (
     <div className="fixed bottom-24 left-24 z-40 animate-in fade-in slide-in-from-left-10 duration-300">
-      <div className="bg-slate-900/95 border border-slate-700 rounded-lg p-4 backdrop-blur-md shadow-2xl w-[600px] h-[400px] flex flex-col">
+      <div className="bg-slate-900/95 border border-slate-700 rounded-lg p-4 backdrop-blur-md shadow-2xl w-[920px] flex flex-col">
         
         {/* Header */}
         <div className="flex justify-between items-center mb-4 border-b border-slate-700 pb-3">
@@ -31,14 +43,107 @@ export const DriftPanel: React.FC<DriftPanelProps> = ({ isOpen, onClose, history
             </button>
         </div>
 
-        <div className="flex-1 bg-slate-950/50 rounded border border-slate-800 p-2 relative">
-             <GeneticDriftChart data={history} width={550} height={280} />
+        <div className="flex gap-3">
+            <div className="w-[570px] h-[296px] bg-slate-950/50 rounded border border-slate-800 p-2 relative">
+                 <GeneticDriftChart data={history} width={550} height={280} />
+            </div>
+            {/* Pareto front of the live population */}
+            <div className="flex-1 h-[296px] bg-slate-950/50 rounded border border-slate-800 p-2 relative">
+                 <ParetoChart data={pareto} selectedBotId={followingBotId} onSelect={onFollowBot} height={250} />
+            </div>
         </div>
 
         <div className="mt-3 flex justify-between text-[10px] text-slate-500 font-mono">
             <span>START GEN: {history[0]?.generation || 0}</span>
+            {novelty && (
+                <span className="text-slate-400">
+                    NOVELTY ARCHIVE: {novelty.archiveSize} · BEST {novelty.best.toFixed(1)} · MEAN {novelty.mean.toFixed(1)}
+                </span>
+            )}
             <span>CURRENT GEN: {history[history.length-1]?.generation || 0}</span>
         </div>
+
+        {/* Mutation operators over the last generation */}
+        {mutations && (
+            <div className="mt-3 border-t border-slate-700 pt-3">
+                <div className="text-[10px] text-slate-400 font-mono mb-2">MUTATIONS (ACCEPTED / APPLIED, LAST GEN)</div>
+                <div className="grid grid-cols-4 gap-1.5">
+                    {MUTATION_OPERATORS.map(op => (
+                        <div key={op} className="flex justify-between px-2 py-0.5 rounded border border-slate-800 bg-slate-950/50 text-[10px] font-mono">
+                            <span className="text-slate-500">{op.replace('_', ' ')}</span>
+                            <span className={mutations[op].applied > 0 ? 'text-white' : 'text-slate-600'}>{mutations[op].accepted}/{mutations[op].applied}</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {crossover && (
+            <div className="mt-3">
+                <div className="text-[10px] text-slate-400 font-mono mb-2">CROSSOVER (SURVIVED / BORN, LAST GEN)</div>
+                <div className="grid grid-cols-4 gap-1.5">
+                    {CROSSOVER_MODES.map(mode => {
+                        const { born, survived } = crossover[mode];
+                        return (
+                            <div key={mode} className="flex justify-between px-2 py-0.5 rounded border border-slate-800 bg-slate-950/50 text-[10px] font-mono">
+                                <span className="text-slate-500">{mode.replace('_', ' ')}</span>
+                                <span className={born > 0 ? 'text-white' : 'text-slate-600'}>
+                                    {survived}/{born}{born > 0 && <span className="text-slate-500"> {Math.round(100 * survived / born)}%</span>}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        )}
+
+        {/* Strain shares per island, left to right as in the world */}
+        {islands.length > 0 && (
+            <div className="mt-3 border-t border-slate-700 pt-3">
+                <div className="text-[10px] text-slate-400 font-mono mb-2">ISLANDS (NEXT GENERATION)</div>
+                <div className="space-y-1">
+                    {islands.map(island => (
+                        <div key={island.id} className="flex items-center gap-2 text-[10px] font-mono">
+                            <span className="w-14 text-slate-500">ISLAND {island.id + 1}</span>
+                            <div className="flex-1 h-2 flex rounded overflow-hidden bg-slate-800">
+                                {Object.keys(island.strains).map(Number).map(strainId => (
+                                    <div
+                                        key={strainId}
+                                        title={`${getStrain(strainId).name}: ${island.strains[strainId]}`}
+                                        style={{ width: `${100 * island.strains[strainId] / island.population}%`, backgroundColor: strainColor(strainId) }}
+                                    />
+                                ))}
+                            </div>
+                            <span className="w-8 text-right text-white">{island.population}</span>
+                            <span className={`w-16 text-right ${island.immigrants > 0 ? 'text-neon-cyan' : 'text-slate-600'}`}>+{island.immigrants} IN</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {/* Species (largest first); faded once allotted no offspring */}
+        <div className="mt-3 border-t border-slate-700 pt-3">
+            <div className="text-[10px] text-slate-400 font-mono mb-2">SPECIES: {species.length}</div>
+            {species.length === 0 ? (
+                <div className="text-[10px] text-slate-600 font-mono">Speciation runs when the first generation finishes.</div>
+            ) : (
+                <div className="max-h-24 overflow-y-auto flex flex-wrap gap-1.5">
+                    {[...species].sort((a, b) => b.size - a.size).map(s => (
+                        <div
+                            key={s.id}
+                            title={`${getStrain(s.strainId).name}${s.islandId !== undefined ? ` · island ${s.islandId + 1}` : ''} · best fitness ${Math.round(s.bestFitness)} · ${s.offspring} offspring`}
+                            className={`flex items-center gap-1.5 px-2 py-0.5 rounded border border-slate-800 bg-slate-950/50 text-[10px] font-mono ${s.offspring === 0 ? 'opacity-40' : ''}`}
+                        >
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: `hsl(${s.hue.toFixed(0)}, 70%, 60%)` }} />
+                            <span className="text-slate-300">#{s.id}</span>
+                            <span className="text-white">{s.size}</span>
+                            {s.staleGenerations >= SPECIES_STAGNATION_LIMIT && <span className="text-red-400">STALE</span>}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
       </div>
     </div>
   );
@@ -9,6 +9,7 @@ interface GenomeGroupData {
   genome: Genome | null;
   color: string;
   energy: number;
+  regeneration?: number;
   botId?: string;
 }
 
@@ -66,6 +67,7 @@ export const GenomePanel: React.FC<GenomePanelProps> = ({ genomes, hidden, onClo
                          </div>
                          <GenomeVisualizer 
                              genome={selectedData.genome} 
+                             regenerationProgress={selectedData.regeneration}
                              embedded={true} 
                              spacing={45} 
                          />
@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { Genome, CellType } from '../types';
+import { CONTROLLER_INPUTS, CONTROLLER_WEIGHT_LIMIT } from '../constants';
 import { Dna, Minus, GripHorizontal } from 'lucide-react';
 
 interface GenomeVisualizerProps {
@@ -12,6 +13,7 @@ interface GenomeVisualizerProps {
   onMinimize?: () => void;
   embedded?: boolean;
   spacing?: number;
+  regenerationProgress?: number; // 0-1 toward the next regrown cell
 }
 
 export const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({ 
@@ -22,7 +24,8 @@ export const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({
   hidden = false,
   onMinimize,
   embedded = false,
-  spacing = 50 // Increased spacing default
+  spacing = 50, // Increased spacing default
+  regenerationProgress = 0
 }) => {
   const [position, setPosition] = useState(initialPosition);
   const [isDragging, setIsDragging] = useState(false);
@@ -66,22 +69,29 @@ export const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({
   }, [isDragging]);
 
   const graphData = useMemo(() => {
-    if (!genome) return { nodes: [], links: [], width: 0, height: 0, offsetX: 0, offsetY: 0 };
+    if (!genome) return { nodes: [], ghosts: [], links: [], restored: 0, width: 0, height: 0, offsetX: 0, offsetY: 0 };
 
     const nodes: {x: number, y: number, type: CellType, key: string}[] = [];
+    const ghosts: {x: number, y: number, key: string}[] = []; // Target cells the body has lost
     const links: {x1: number, y1: number, x2: number, y2: number, key: string}[] = [];
     const gridSize = genome.gridSize;
     
     // 1. Identify Nodes & Calculate Bounding Box for Centering
     let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
     const tempNodes: {x: number, y: number, type: CellType, gx: number, gy: number}[] = [];
+    const tempGhosts: {x: number, y: number, gx: number, gy: number}[] = [];
+    let restored = 0; // Live cells that are part of the target
 
     for(let y=0; y<gridSize; y++) {
         for(let x=0; x<gridSize; x++) {
-            if(genome.genes[y][x] !== CellType.EMPTY) {
+            const isLive = genome.genes[y][x] !== CellType.EMPTY;
+            const isMissing = !isLive && genome.targetGenes !== undefined && genome.targetGenes[y][x] !== CellType.EMPTY;
+            if(isLive || isMissing) {
                 const nx = x * spacing;
                 const ny = y * spacing;
-                tempNodes.push({ x: nx, y: ny, type: genome.genes[y][x], gx: x, gy: y });
+                if (isLive && genome.targetGenes?.[y][x] !== CellType.EMPTY) restored++;
+                if (isLive) tempNodes.push({ x: nx, y: ny, type: genome.genes[y][x], gx: x, gy: y });
+                else tempGhosts.push({ x: nx, y: ny, gx: x, gy: y });
                 
                 if(nx < minX) minX = nx;
                 if(nx > maxX) maxX = nx;
@@ -91,7 +101,7 @@ export const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({
         }
     }
     
-    if (tempNodes.length === 0) return { nodes: [], links: [], width: 0, height: 0, offsetX: 0, offsetY: 0 };
+    if (tempNodes.length === 0) return { nodes: [], ghosts: [], links: [], restored: 0, width: 0, height: 0, offsetX: 0, offsetY: 0 };
 
     const contentWidth = maxX - minX;
     const contentHeight = maxY - minY;
@@ -118,6 +128,10 @@ export const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({
         nodeMap.set(key, {x: finalX, y: finalY});
     });
 
+    tempGhosts.forEach(g => {
+        ghosts.push({ x: g.x + offsetX, y: g.y + offsetY, key: `${g.gx},${g.gy}` });
+    });
+
     // 3. Create Links (Structural Connections)
     const directions = [[1,0], [0,1], [1,1], [-1,1]];
     
@@ -140,9 +154,19 @@ export const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({
         });
     });
 
-    return { nodes, links, width: CONTAINER_SIZE, height: CONTAINER_SIZE };
+    return { nodes, ghosts, links, restored, width: CONTAINER_SIZE, height: CONTAINER_SIZE };
   }, [genome, spacing]);
 
+  // Controller weight cell: cyan excitatory, red inhibitory, opacity by magnitude
+  const weightColor = (w: number) => {
+    const alpha = Math.min(1, Math.abs(w) / CONTROLLER_WEIGHT_LIMIT) * 0.9 + 0.1;
+    return w >= 0 ? `rgba(0, 243, 255, ${alpha})` : `rgba(239, 68, 68, ${alpha})`;
+  };
+
+  // Regrowth status: how much of the target morphology the body currently fills
+  const targetCells = graphData.restored + graphData.ghosts.length;
+  const isRegrowing = graphData.ghosts.length > 0;
+
   if (hidden || !genome) return null;
 
   const containerClasses = embedded 
@@ -212,6 +236,19 @@ export const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({
                 ))}
             </g>
 
+            {/* Missing target cells (regrowth sites) */}
+            {graphData.ghosts.map(g => (
+                <circle 
+                    key={g.key}
+                    cx={g.x} cy={g.y} r="6"
+                    fill="none"
+                    stroke={genome.color}
+                    strokeWidth="1"
+                    strokeDasharray="2 2"
+                    opacity="0.5"
+                />
+            ))}
+
             {/* Nodes */}
             {graphData.nodes.map(n => {
                 let fill = genome.color;
@@ -241,6 +278,10 @@ export const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({
             <span>ID</span>
             <span className="text-white font-bold">{genome.id}</span>
         </div>
+        <div className="flex justify-between">
+            <span>GRID</span>
+            <span className="text-slate-300">{genome.gridSize}×{genome.gridSize}</span>
+        </div>
         <div className="flex justify-between">
             <span>FITNESS</span>
             <span className="text-neon-green">{genome.fitness.toFixed(1)}</span>
@@ -249,7 +290,64 @@ export const GenomeVisualizer: React.FC<GenomeVisualizerProps> = ({
             <span>PLASTICITY</span>
             <span className="text-neon-cyan">{genome.bioelectricMemory.toFixed(3)}</span>
         </div>
+        {genome.speciesId !== undefined && (
+            <div className="flex justify-between">
+                <span>SPECIES</span>
+                <span className="text-slate-300">#{genome.speciesId}</span>
+            </div>
+        )}
+        {genome.novelty !== undefined && (
+            <div className="flex justify-between">
+                <span>NOVELTY</span>
+                <span className="text-slate-300">{genome.novelty.toFixed(1)}</span>
+            </div>
+        )}
+        <div className="flex justify-between">
+            <span>ENCODING</span>
+            <span className="text-slate-300">
+                {genome.cppn
+                    ? `CPPN · ${genome.cppn.nodes.length} NODES · ${genome.cppn.connections.filter(c => c.enabled).length} LINKS`
+                    : 'DIRECT GRID'}
+            </span>
+        </div>
+        {genome.targetGenes && (
+            <div className="flex justify-between">
+                <span>MORPHOLOGY</span>
+                <span className={isRegrowing ? 'text-yellow-400' : 'text-slate-300'}>
+                    {graphData.restored}/{targetCells} {isRegrowing && `· REGROWING ${Math.floor(regenerationProgress * 100)}%`}
+                </span>
+            </div>
+        )}
       </div>
+
+      {/* Controller genes: one row per node, sensor weights then recurrent weights */}
+      {genome.controller && (
+          <div className="mt-3 text-[10px] font-mono text-slate-400 select-none">
+            <div className="flex justify-between mb-1">
+                <span>CONTROLLER</span>
+                <span className="text-neon-cyan">CTRNN · {genome.controller.size} NODES</span>
+            </div>
+            <div className="space-y-px">
+                {Array.from({ length: genome.controller.size }, (_, i) => {
+                    const c = genome.controller!;
+                    const inputs = c.inputWeights.slice(i * CONTROLLER_INPUTS, (i + 1) * CONTROLLER_INPUTS);
+                    const recurrent = c.weights.slice(i * c.size, (i + 1) * c.size);
+                    return (
+                        <div key={i} className="flex items-center gap-px">
+                            {inputs.map((w, k) => (
+                                <div key={`i${k}`} className="h-2 flex-1 rounded-sm" style={{ background: weightColor(w) }} title={`sensor ${k} → node ${i}: ${w.toFixed(2)}`} />
+                            ))}
+                            <div className="w-1" />
+                            {recurrent.map((w, j) => (
+                                <div key={`w${j}`} className="h-2 flex-1 rounded-sm" style={{ background: weightColor(w) }} title={`node ${j} → node ${i}: ${w.toFixed(2)}`} />
+                            ))}
+                            <span className="w-8 text-right text-slate-500" title="Time constant (steps)">τ{c.timeConstants[i].toFixed(0)}</span>
+                        </div>
+                    );
+                })}
+            </div>
+          </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,105 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ParetoPayload } from '../types';
+import { FITNESS_OBJECTIVES } from '../services/fitness';
+
+interface ParetoChartProps {
+  data: ParetoPayload | null;
+  selectedBotId: string | null;
+  onSelect: (botId: string) => void;
+  width?: number;
+  height?: number;
+}
+
+const objectiveName = (id: string) => FITNESS_OBJECTIVES.find(o => o.id === id)?.name ?? id;
+
+// Live bots on two of the weighted objectives. The first front is drawn on top in cyan;
+// deeper fronts fade out. Clicking a point follows that bot.
+export const ParetoChart: React.FC<ParetoChartProps> = ({
+  data,
+  selectedBotId,
+  onSelect,
+  width = 300,
+  height = 280
+}) => {
+  const [xIndex, setXIndex] = useState(0);
+  const [yIndex, setYIndex] = useState(1);
+  const objectives = data?.objectives ?? [];
+
+  // The objective list changes whenever the fitness weights do
+  useEffect(() => {
+      if (xIndex >= objectives.length) setXIndex(0);
+      if (yIndex >= objectives.length) setYIndex(Math.min(1, Math.max(0, objectives.length - 1)));
+  }, [objectives.length, xIndex, yIndex]);
+
+  const points = useMemo(() => {
+      // Deepest fronts first so the Pareto front paints over them
+      return [...(data?.points ?? [])].sort((a, b) => b.rank - a.rank);
+  }, [data]);
+
+  if (objectives.length < 2 || points.length === 0) {
+      return (
+          <div className="flex items-center justify-center h-full text-center text-xs font-mono text-slate-500 px-4">
+              {objectives.length < 2 ? 'WEIGHT AT LEAST TWO OBJECTIVES' : 'GATHERING DATA...'}
+          </div>
+      );
+  }
+
+  const padding = 20;
+  const chartW = width - padding * 2;
+  const chartH = height - padding * 2;
+  const xs = points.map(p => p.values[xIndex] ?? 0);
+  const ys = points.map(p => p.values[yIndex] ?? 0);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  const getX = (v: number) => padding + (maxX > minX ? (v - minX) / (maxX - minX) : 0.5) * chartW;
+  const getY = (v: number) => height - padding - (maxY > minY ? (v - minY) / (maxY - minY) : 0.5) * chartH;
+
+  const axisSelect = (value: number, onChange: (index: number) => void) => (
+      <select
+          value={value}
+          onChange={(e) => onChange(Number(e.target.value))}
+          className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white focus:outline-none focus:border-neon-cyan"
+      >
+          {objectives.map((id, i) => <option key={id} value={i}>{objectiveName(id)}</option>)}
+      </select>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+        <div className="flex justify-between items-center mb-1 text-[10px] text-slate-400 font-mono">
+            <span className="flex items-center gap-1">X {axisSelect(xIndex, setXIndex)}</span>
+            <span className="flex items-center gap-1">Y {axisSelect(yIndex, setYIndex)}</span>
+        </div>
+        <svg width="100%" className="flex-1 overflow-visible" viewBox={`0 0 ${width} ${height}`}>
+            {/* Axes */}
+            <g opacity="0.1">
+                <line x1={padding} y1={padding} x2={padding} y2={height - padding} stroke="#fff" strokeWidth="1" />
+                <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="#fff" strokeWidth="1" />
+            </g>
+
+            {points.map(p => {
+                const selected = p.botId === selectedBotId;
+                return (
+                    <circle
+                        key={p.botId}
+                        cx={getX(p.values[xIndex] ?? 0)}
+                        cy={getY(p.values[yIndex] ?? 0)}
+                        r={selected ? 5 : p.rank === 0 ? 4 : 3}
+                        fill={p.rank === 0 ? '#00f3ff' : '#64748b'}
+                        fillOpacity={p.rank === 0 ? 0.9 : Math.max(0.15, 0.6 - p.rank * 0.1)}
+                        stroke={selected ? '#fff' : 'none'}
+                        strokeWidth="1.5"
+                        className="cursor-pointer"
+                        onClick={() => onSelect(p.botId)}
+                    >
+                        <title>{`FRONT ${p.rank} · ${objectives.map((id, i) => `${objectiveName(id)} ${p.values[i].toFixed(1)}`).join(' · ')}\nClick to follow`}</title>
+                    </circle>
+                );
+            })}
+
+            <text x={width - padding} y={height - 6} fill="#64748b" fontSize="9" fontFamily="monospace" textAnchor="end">{minX.toFixed(0)}–{maxX.toFixed(0)}</text>
+            <text x={padding + 4} y={padding - 6} fill="#64748b" fontSize="9" fontFamily="monospace">{minY.toFixed(0)}–{maxY.toFixed(0)}</text>
+        </svg>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { X, GitBranch, RefreshCw, ChevronRight, ChevronDown, Crosshair } from 'lucide-react';
+import { BirthCause, LineagePayload, LineageRecord } from '../types';
+import { strainColor } from '../services/strains';
+
+interface PhylogenyPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  lineage: LineagePayload;
+  onRefresh: () => void;
+  onFollowBot: (botId: string) => void;
+}
+
+interface TreeNode {
+  record: LineageRecord;
+  children: TreeNode[];
+  living: number; // Living genomes in this subtree, itself included
+  followBotId: string | null; // A living bot in this subtree (itself first)
+}
+
+interface Row {
+  node: TreeNode;
+  depth: number;
+}
+
+const CAUSE_LABELS: Record<BirthCause, string> = {
+  SEED: 'SEED',
+  CROSSOVER: 'CROSS',
+  MITOSIS: 'MITOSIS',
+  MUTAGEN: 'MUTAGEN',
+  FRACTURE: 'FRACTURE',
+  ELITE: 'ELITE'
+};
+
+const ROW_LIMIT = 400; // Rows rendered at once; collapse branches to see the rest
+
+// Nodes hang off their first parent (for crossover, the one that set the strain), so the
+// DAG of two-parent births reads as a tree. Records whose parent was pruned become roots.
+const buildForest = ({ records, living }: LineagePayload): TreeNode[] => {
+  const nodes = new Map<string, TreeNode>(records.map(r => [r.id, { record: r, children: [], living: 0, followBotId: null }]));
+  const roots: TreeNode[] = [];
+  nodes.forEach(node => {
+    const parent = nodes.get(node.record.parentIds[0]);
+    if (parent && parent !== node) parent.children.push(node);
+    else roots.push(node);
+  });
+
+  // Post-order without recursion: ancestry chains can run for hundreds of births
+  const order: TreeNode[] = [];
+  const stack = [...roots];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    order.push(node);
+    stack.push(...node.children);
+  }
+  for (let i = order.length - 1; i >= 0; i--) {
+    const node = order[i];
+    const self = living[node.record.id];
+    node.living = (self ? 1 : 0) + node.children.reduce((sum, c) => sum + c.living, 0);
+    node.followBotId = self ?? node.children.find(c => c.followBotId)?.followBotId ?? null;
+    node.children.sort((a, b) => b.living - a.living || a.record.generation - b.record.generation);
+  }
+  return roots.sort((a, b) => b.living - a.living || a.record.strainId - b.record.strainId);
+};
+
+const describeRecord = (record: LineageRecord, alive: boolean) => {
+  const lines = [
+    `${record.id} · GEN ${record.generation} · ${record.cause}${alive ? ' · ALIVE' : ''}`,
+    record.parentIds.length > 0 ? `PARENTS ${record.parentIds.join(', ')}` : 'NO PARENTS ON RECORD'
+  ];
+  const m = record.mutations;
+  if (m) {
+    lines.push(`MUTATIONS ${m.cellsChanged} cells · memory ${m.memoryDelta >= 0 ? '+' : ''}${m.memoryDelta.toFixed(3)}${m.networkChanged ? ' · network' : ''}`);
+    if (m.operators.length > 0) lines.push(m.operators.map(op => (m.accepted.includes(op) ? op : `${op} (repaired away)`)).join(', '));
+  }
+  return lines.join('\n');
+};
+
+// Indented tree: depth only increases where a lineage branches, so long unbranched chains
+// stay readable. Extinct branches start collapsed.
+export const PhylogenyPanel: React.FC<PhylogenyPanelProps> = ({ isOpen, onClose, lineage, onRefresh, onFollowBot }) => {
+  const [toggled, setToggled] = useState<Set<string>>(new Set()); // Nodes flipped from their default
+
+  const forest = useMemo(() => buildForest(lineage), [lineage]);
+  const livingTotal = Object.keys(lineage.living).length;
+
+  const isExpanded = (node: TreeNode) => (node.living > 0) !== toggled.has(node.record.id);
+
+  const rows = useMemo(() => {
+    const result: Row[] = [];
+    const stack: Row[] = forest.map(node => ({ node, depth: 0 })).reverse();
+    while (stack.length > 0 && result.length < ROW_LIMIT) {
+      const row = stack.pop()!;
+      result.push(row);
+      if (!isExpanded(row.node)) continue;
+      const { children } = row.node;
+      const depth = children.length > 1 ? row.depth + 1 : row.depth;
+      for (let i = children.length - 1; i >= 0; i--) stack.push({ node: children[i], depth });
+    }
+    return result;
+  }, [forest, toggled]);
+
+  if (!isOpen) return null;
+
+  const toggle = (id: string) => setToggled(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  return (
+    <div className="fixed top-24 right-24 z-40 animate-in fade-in slide-in-from-right-10 duration-300">
+      <div className="bg-slate-900/95 border border-slate-700 rounded-lg p-4 backdrop-blur-md shadow-2xl w-[420px] flex flex-col">
+
+        {/* Header */}
+        <div className="flex justify-between items-center mb-3 border-b border-slate-700 pb-3">
+            <h3 className="font-display font-bold text-slate-200 flex items-center gap-2 text-sm">
+                <GitBranch size={16} className="text-neon-cyan"/>
+                PHYLOGENY
+                <span className="text-[10px] text-slate-500 font-mono font-normal">{lineage.records.length} BIRTHS · {livingTotal} ALIVE</span>
+            </h3>
+            <div className="flex items-center gap-3">
+                <button onClick={onRefresh} title="Refresh" className="text-slate-500 hover:text-white transition-colors">
+                    <RefreshCw size={14} />
+                </button>
+                <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+                    <X size={16} />
+                </button>
+            </div>
+        </div>
+
+        <div className="max-h-[420px] overflow-y-auto bg-slate-950/50 rounded border border-slate-800 p-1 font-mono text-[10px]">
+            {rows.length === 0 && (
+                <div className="text-slate-600 p-2">No lineage recorded yet.</div>
+            )}
+            {rows.map(({ node, depth }) => {
+                const { record, children, living, followBotId } = node;
+                const alive = lineage.living[record.id] !== undefined;
+                const expanded = isExpanded(node);
+                return (
+                    <div
+                        key={record.id}
+                        className={`flex items-center gap-1.5 py-0.5 pr-1 rounded hover:bg-slate-800/60 ${living === 0 ? 'opacity-40' : ''}`}
+                        style={{ paddingLeft: 4 + depth * 10 }}
+                        title={describeRecord(record, alive)}
+                    >
+                        {children.length > 0 ? (
+                            <button onClick={() => toggle(record.id)} className="text-slate-500 hover:text-white">
+                                {expanded ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
+                            </button>
+                        ) : <span className="w-[10px]" />}
+                        <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: strainColor(record.strainId) }} />
+                        <span className={alive ? 'text-white' : 'text-slate-400'}>{record.id.slice(0, 6)}</span>
+                        <span className="text-slate-500">G{record.generation}</span>
+                        <span className="text-slate-500">{CAUSE_LABELS[record.cause]}</span>
+                        {living === 0 && <span className="text-red-400">† EXTINCT</span>}
+                        {!expanded && children.length > 0 && <span className="text-slate-600">+{children.length}</span>}
+                        <span className="ml-auto text-slate-400">{living > 0 ? living : ''}</span>
+                        {followBotId && (
+                            <button
+                                onClick={() => onFollowBot(followBotId)}
+                                title={alive ? 'Follow this bot' : 'Follow a living descendant'}
+                                className="text-slate-500 hover:text-neon-cyan"
+                            >
+                                <Crosshair size={10} />
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+            {rows.length >= ROW_LIMIT && (
+                <div className="text-slate-600 p-1">Showing the first {ROW_LIMIT} rows; collapse branches to see more.</div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
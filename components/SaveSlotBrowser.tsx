@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { SaveData, SaveSlotMeta } from '../types';
+import { listSaveSlots, loadSaveSlot, renameSaveSlot, deleteSaveSlot } from '../services/saveStore';
+import { Play, Pencil, Trash2, Check, Plus, ImageOff } from 'lucide-react';
+
+interface SaveSlotBrowserProps {
+  onLoad: (data: SaveData) => void;
+  onSaveCurrent?: () => Promise<void>; // Shown as "New Slot" when a run is active
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+export const SaveSlotBrowser: React.FC<SaveSlotBrowserProps> = ({ onLoad, onSaveCurrent }) => {
+  const [slots, setSlots] = useState<SaveSlotMeta[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = () => {
+    listSaveSlots()
+      .then(setSlots)
+      .catch(() => {
+          setSlots([]);
+          setError('Browser storage is unavailable; use Export Save instead.');
+      });
+  };
+
+  useEffect(refresh, []);
+
+  // Wrap slot operations so one failure surfaces in the panel instead of an unhandled rejection
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+        await action();
+    } catch (err) {
+        setError(err instanceof Error ? err.message : 'Storage operation failed.');
+    }
+    setBusy(false);
+    refresh();
+  };
+
+  const handleLoad = (slot: SaveSlotMeta) => run(async () => {
+    const { data, report } = await loadSaveSlot(slot.id);
+    if (!data) throw new Error(report.fatal ?? 'Save slot could not be read.');
+    onLoad(data);
+  });
+
+  const commitRename = (slot: SaveSlotMeta) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (name && name !== slot.name) run(() => renameSaveSlot(slot.id, name));
+  };
+
+  return (
+    <div className="space-y-2 font-mono text-sm">
+      {onSaveCurrent && (
+          <button
+              onClick={() => run(onSaveCurrent)}
+              disabled={busy}
+              className="w-full flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white py-2 rounded border border-dashed border-slate-600 transition-colors"
+          >
+              <Plus size={16} /> New Slot
+          </button>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {slots === null && <p className="text-xs text-slate-500">Reading saves...</p>}
+      {slots?.length === 0 && !error && <p className="text-xs text-slate-500">No saves yet.</p>}
+
+      <div className="max-h-72 overflow-y-auto space-y-2">
+        {slots?.map(slot => (
+            <div key={slot.id} className="flex gap-3 p-2 rounded border border-slate-700 bg-slate-950/50">
+                {slot.thumbnail ? (
+                    <img src={slot.thumbnail} alt="" className="w-24 h-14 object-cover rounded border border-slate-800 shrink-0" />
+                ) : (
+                    <div className="w-24 h-14 rounded border border-slate-800 shrink-0 flex items-center justify-center text-slate-700">
+                        <ImageOff size={18} />
+                    </div>
+                )}
+
+                <div className="flex-1 min-w-0 flex flex-col justify-between">
+                    {renamingId === slot.id ? (
+                        <input
+                            autoFocus
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onBlur={() => commitRename(slot)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitRename(slot);
+                                if (e.key === 'Escape') setRenamingId(null);
+                            }}
+                            className="bg-slate-800 border border-slate-600 rounded px-2 py-0.5 text-white text-xs focus:outline-none focus:border-neon-cyan"
+                        />
+                    ) : (
+                        <div className="text-white text-xs truncate">
+                            {slot.isAutosave && <span className="text-neon-green mr-1">[AUTO]</span>}
+                            {slot.name}
+                        </div>
+                    )}
+                    <div className="text-[10px] text-slate-500">
+                        GEN {slot.generation} · {Math.floor(slot.bioData)} BD · {slot.populationSize} bots
+                    </div>
+                    <div className="text-[10px] text-slate-600">{formatTime(slot.updatedAt)}</div>
+                </div>
+
+                <div className="flex flex-col justify-center gap-1">
+                    <button onClick={() => handleLoad(slot)} disabled={busy} title="Load" className="p-1 text-neon-cyan hover:text-white disabled:opacity-50">
+                        <Play size={14} />
+                    </button>
+                    {renamingId === slot.id ? (
+                        <button onMouseDown={(e) => e.preventDefault()} onClick={() => commitRename(slot)} title="Confirm" className="p-1 text-neon-green hover:text-white">
+                            <Check size={14} />
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => { setRenamingId(slot.id); setRenameValue(slot.name); }}
+                            disabled={busy}
+                            title="Rename"
+                            className="p-1 text-slate-400 hover:text-white disabled:opacity-50"
+                        >
+                            <Pencil size={14} />
+                        </button>
+                    )}
+                    <button onClick={() => run(() => deleteSaveSlot(slot.id))} disabled={busy} title="Delete" className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-50">
+                        <Trash2 size={14} />
+                    </button>
+                </div>
+            </div>
+        ))}
+      </div>
+    </div>
+  );
+};
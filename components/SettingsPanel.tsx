@@ -1,7 +1,50 @@
 
 import React, { useState, useRef } from 'react';
-import { SimulationConfig, SaveData, Genome, ResearchState } from '../types';
-import { Save, Upload, RefreshCw, X, Sliders, PlayCircle } from 'lucide-react';
+import { SimulationConfig, SaveData, Genome, ResearchState, SimulationSnapshot, SaveImportReport, FitnessObjective, SelectionMode, MutationConfig, CrossoverMode, MigrationTopology } from '../types';
+import { Save, Upload, RefreshCw, X, Sliders, PlayCircle, Dices, AlertTriangle } from 'lucide-react';
+import { createSeed } from '../services/random';
+import { createSaveData, parseSaveFile } from '../services/saveData';
+import { writeSaveSlot } from '../services/saveStore';
+import { FITNESS_OBJECTIVES } from '../services/fitness';
+import { SaveSlotBrowser } from './SaveSlotBrowser';
+import { MAX_ISLANDS } from '../constants';
+
+const SELECTION_MODES: { id: SelectionMode; label: string }[] = [
+  { id: 'WEIGHTED', label: 'Weighted' },
+  { id: 'NSGA2', label: 'NSGA-II' },
+  { id: 'NOVELTY', label: 'Novelty' }
+];
+
+const MIGRATION_TOPOLOGIES: { id: MigrationTopology; label: string }[] = [
+  { id: 'RING', label: 'Ring' },
+  { id: 'FULL', label: 'Full' },
+  { id: 'NONE', label: 'None' }
+];
+
+const MUTATION_RATES: { key: keyof MutationConfig; label: string; title: string }[] = [
+  { key: 'growth', label: 'Growth', title: 'Chance of a growth pass' },
+  { key: 'growthFill', label: 'Growth Fill / Cell', title: 'Chance each empty cell beside the body fills during a growth pass' },
+  { key: 'noise', label: 'Noise / Cell', title: 'Chance each cell is re-rolled to a random type' },
+  { key: 'memoryDrift', label: 'Memory Drift', title: 'Chance bioelectric memory shifts by up to 0.1' },
+  { key: 'swap', label: 'Cell Swap', title: 'Two cells of different types trade places' },
+  { key: 'mirror', label: 'Mirror Duplication', title: 'One half of the body is copied over the other, mirrored' },
+  { key: 'translocation', label: 'Limb Translocation', title: 'A 1-3 cell limb is cut off and reattached elsewhere' },
+  { key: 'deletion', label: 'Deletion', title: 'One cell is removed' },
+  { key: 'conversion', label: 'Type Conversion', title: 'One cell becomes another living type' }
+];
+
+const CROSSOVER_MODES: { id: CrossoverMode; label: string; title: string }[] = [
+  { id: 'UNIFORM', label: 'Uniform', title: 'Each cell from either parent, pruned to a small body' },
+  { id: 'SINGLE_POINT', label: 'Single Point', title: 'Rows or columns before a cut from one parent, the rest from the other' },
+  { id: 'BLOCK', label: 'Block Swap', title: 'One quadrant of the body taken from the other parent' },
+  { id: 'GRAFT', label: 'Subgraph Graft', title: 'A connected region of one parent attached to the other' }
+];
+
+const GROWTH_WEIGHTS: { key: keyof MutationConfig; label: string }[] = [
+  { key: 'nodeSkin', label: 'Skin' },
+  { key: 'nodeHeart', label: 'Muscle' },
+  { key: 'nodeNeuron', label: 'Neuron' }
+];
 
 interface SettingsPanelProps {
   config: SimulationConfig;
@@ -11,6 +54,8 @@ interface SettingsPanelProps {
   population: Genome[];
   generation: number;
   researchState: ResearchState;
+  onCaptureWorld: () => Promise<SimulationSnapshot | null>;
+  onCaptureThumbnail: () => string | null;
 }
 
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({ 
@@ -20,23 +65,53 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   onClose,
   population,
   generation,
-  researchState
+  researchState,
+  onCaptureWorld,
+  onCaptureThumbnail
 }) => {
   const [localConfig, setLocalConfig] = useState<SimulationConfig>({ ...config });
+  // Import awaiting confirmation because validation rejected or repaired something
+  const [pendingImport, setPendingImport] = useState<{ data: SaveData | null; report: SaveImportReport } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleChange = (key: keyof SimulationConfig, value: number) => {
     setLocalConfig(prev => ({ ...prev, [key]: value }));
   };
 
-  const handleExport = () => {
-    const data: SaveData = {
-      config: localConfig,
+  // A zero weight removes the objective from the mix
+  const handleWeightChange = (id: FitnessObjective, value: number) => {
+    setLocalConfig(prev => {
+        const fitnessWeights = { ...prev.fitnessWeights };
+        if (value) fitnessWeights[id] = value;
+        else delete fitnessWeights[id];
+        return { ...prev, fitnessWeights };
+    });
+  };
+
+  const handleMutationChange = (key: keyof MutationConfig, value: number) => {
+    setLocalConfig(prev => ({ ...prev, mutation: { ...prev.mutation, [key]: Math.min(1, Math.max(0, value)) } }));
+  };
+
+  const handleCrossoverChange = (mode: CrossoverMode, value: number) => {
+    setLocalConfig(prev => ({ ...prev, crossoverWeights: { ...prev.crossoverWeights, [mode]: Math.max(0, value) } }));
+  };
+
+  const buildSave = async (): Promise<SaveData> => {
+    // The world belongs to the running config, so it is saved alongside that (not the edited one)
+    const snapshot = await onCaptureWorld();
+    return createSaveData({
+      config: snapshot ? config : localConfig,
       population,
-      generation,
+      generation: snapshot ? snapshot.generation : generation,
       timestamp: Date.now(),
-      researchState
-    };
+      researchState,
+      seed: snapshot ? config.seed : localConfig.seed,
+      ...(snapshot ? { snapshot } : {})
+    });
+  };
+
+  const handleExport = async () => {
+    const data = await buildSave();
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -46,24 +121,28 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     URL.revokeObjectURL(url);
   };
 
+  const handleSaveSlot = async () => {
+    const thumbnail = onCaptureThumbnail();
+    const data = await buildSave();
+    await writeSaveSlot(data, { name: `Generation ${data.generation}`, thumbnail });
+  };
+
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     const reader = new FileReader();
     reader.onload = (event) => {
-      try {
-        const data = JSON.parse(event.target?.result as string) as SaveData;
-        if (data.config && data.population) {
-            onLoad(data);
-        } else {
-            alert("Invalid save file format.");
-        }
-      } catch (err) {
-        alert("Failed to parse save file.");
+      const result = parseSaveFile(event.target?.result as string);
+      if (result.data && result.report.issues.length === 0) {
+          onLoad(result.data);
+      } else {
+          setPendingImport(result);
       }
     };
     reader.readAsText(file);
+    // Allow re-selecting the same file after fixing it
+    e.target.value = '';
   };
 
   return (
@@ -115,6 +194,19 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     className="w-full accent-neon-cyan h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
                 />
              </div>
+
+             <div className="space-y-1" title="Share of freshly seeded genomes that grow their body from a CPPN network instead of a direct cell grid. Applies to new worlds and re-seeded groups.">
+                <div className="flex justify-between">
+                    <span>CPPN Seeds</span>
+                    <span className="text-neon-cyan">{Math.round(localConfig.cppnShare * 100)}%</span>
+                </div>
+                <input
+                    type="range" min="0" max="1" step="0.05"
+                    value={localConfig.cppnShare}
+                    onChange={(e) => handleChange('cppnShare', parseFloat(e.target.value))}
+                    className="w-full accent-neon-cyan h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                />
+             </div>
           </div>
 
           <hr className="border-slate-800" />
@@ -178,6 +270,198 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
           <hr className="border-slate-800" />
 
+          {/* Section: Fitness */}
+          <div className="space-y-3">
+             <label className="text-xs uppercase text-slate-500 font-bold tracking-wider">Fitness Objectives</label>
+             {FITNESS_OBJECTIVES.map(objective => (
+                <div key={objective.id} className="flex items-center justify-between gap-3" title={objective.description}>
+                    <span className={localConfig.fitnessWeights[objective.id] ? 'text-white' : 'text-slate-500'}>{objective.name}</span>
+                    <input
+                        type="number" step="0.5"
+                        value={localConfig.fitnessWeights[objective.id] ?? 0}
+                        onChange={(e) => handleWeightChange(objective.id, parseFloat(e.target.value) || 0)}
+                        className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-right text-neon-cyan focus:outline-none focus:border-neon-cyan"
+                    />
+                </div>
+             ))}
+             <div className="flex items-center justify-between gap-3">
+                <span>Selection</span>
+                <div className="flex rounded border border-slate-600 overflow-hidden text-xs">
+                    {SELECTION_MODES.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            onClick={() => setLocalConfig(prev => ({ ...prev, selectionMode: id }))}
+                            className={`px-3 py-1 transition-colors ${localConfig.selectionMode === id ? 'bg-neon-cyan text-slate-900 font-bold' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+             </div>
+             {localConfig.selectionMode === 'NOVELTY' && (
+                <div className="space-y-1">
+                    <div className="flex justify-between">
+                        <span>Fitness Blend</span>
+                        <span className="text-neon-cyan">{Math.round(localConfig.noveltyBlend * 100)}%</span>
+                    </div>
+                    <input
+                        type="range" min="0" max="1" step="0.05"
+                        value={localConfig.noveltyBlend}
+                        onChange={(e) => handleChange('noveltyBlend', parseFloat(e.target.value))}
+                        className="w-full accent-neon-cyan h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                    />
+                </div>
+             )}
+             <p className="text-[10px] text-slate-500">
+                {localConfig.selectionMode === 'NSGA2'
+                    ? 'Survivors are ranked by Pareto dominance over the weighted objectives; a weight\'s sign sets its direction, its size is ignored.'
+                    : localConfig.selectionMode === 'NOVELTY'
+                    ? 'Survivors are the bots whose trajectories differ most from their peers and the behavior archive, mixed with the weighted fitness by the blend.'
+                    : 'Fitness is the weighted sum of these objectives.'} Applies from the next scoring onward.
+             </p>
+          </div>
+
+          <hr className="border-slate-800" />
+
+          {/* Section: Mutation */}
+          <div className="space-y-3">
+             <label className="text-xs uppercase text-slate-500 font-bold tracking-wider">Mutation Operators</label>
+             {MUTATION_RATES.map(({ key, label, title }) => (
+                <div key={key} className="flex items-center justify-between gap-3" title={title}>
+                    <span className={localConfig.mutation[key] ? 'text-white' : 'text-slate-500'}>{label}</span>
+                    <input
+                        type="number" min="0" max="1" step="0.01"
+                        value={localConfig.mutation[key]}
+                        onChange={(e) => handleMutationChange(key, parseFloat(e.target.value) || 0)}
+                        className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-right text-neon-cyan focus:outline-none focus:border-neon-cyan"
+                    />
+                </div>
+             ))}
+             <div className="flex items-center justify-between gap-3" title="Relative odds of each cell type when a bot grows a new node">
+                <span>Growth Split</span>
+                <div className="flex gap-1">
+                    {GROWTH_WEIGHTS.map(({ key, label }) => (
+                        <input
+                            key={key}
+                            type="number" min="0" max="1" step="0.05"
+                            title={label}
+                            value={localConfig.mutation[key]}
+                            onChange={(e) => handleMutationChange(key, parseFloat(e.target.value) || 0)}
+                            className="w-14 bg-slate-800 border border-slate-600 rounded px-1 py-1 text-right text-neon-cyan focus:outline-none focus:border-neon-cyan"
+                        />
+                    ))}
+                </div>
+             </div>
+             <p className="text-[10px] text-slate-500">Chances per mutation unless marked per cell. Growth split is skin / muscle / neuron. Cell operators skip CPPN genomes.</p>
+          </div>
+
+          <hr className="border-slate-800" />
+
+          {/* Section: Crossover */}
+          <div className="space-y-3">
+             <label className="text-xs uppercase text-slate-500 font-bold tracking-wider">Crossover Modes</label>
+             {CROSSOVER_MODES.map(({ id, label, title }) => (
+                <div key={id} className="flex items-center justify-between gap-3" title={title}>
+                    <span className={localConfig.crossoverWeights[id] ? 'text-white' : 'text-slate-500'}>{label}</span>
+                    <input
+                        type="number" min="0" step="0.5"
+                        value={localConfig.crossoverWeights[id]}
+                        onChange={(e) => handleCrossoverChange(id, parseFloat(e.target.value) || 0)}
+                        className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-right text-neon-cyan focus:outline-none focus:border-neon-cyan"
+                    />
+                </div>
+             ))}
+             <p className="text-[10px] text-slate-500">Relative odds of each mode (0 = off; all off falls back to uniform). CPPN parents always recombine their networks.</p>
+          </div>
+
+          <hr className="border-slate-800" />
+
+          {/* Section: Islands */}
+          <div className="space-y-3">
+             <label className="text-xs uppercase text-slate-500 font-bold tracking-wider">Island Model</label>
+             <div className="space-y-1">
+                <div className="flex justify-between">
+                    <span>Islands</span>
+                    <span className="text-neon-cyan">{localConfig.islandCount || 'OFF'}</span>
+                </div>
+                <input
+                    type="range" min="0" max={MAX_ISLANDS} step="1"
+                    value={localConfig.islandCount}
+                    onChange={(e) => handleChange('islandCount', parseInt(e.target.value))}
+                    className="w-full accent-neon-cyan h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                />
+             </div>
+             {localConfig.islandCount > 0 && (
+                <>
+                    <div className="flex items-center justify-between gap-3">
+                        <span>Topology</span>
+                        <div className="flex rounded border border-slate-600 overflow-hidden text-xs">
+                            {MIGRATION_TOPOLOGIES.map(({ id, label }) => (
+                                <button
+                                    key={id}
+                                    onClick={() => setLocalConfig(prev => ({ ...prev, migrationTopology: id }))}
+                                    className={`px-3 py-1 transition-colors ${localConfig.migrationTopology === id ? 'bg-neon-cyan text-slate-900 font-bold' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <span>Migrate Every (Generations)</span>
+                        <input
+                            type="number" min="1" max="1000" step="1"
+                            value={localConfig.migrationInterval}
+                            onChange={(e) => handleChange('migrationInterval', Math.max(1, parseInt(e.target.value) || 1))}
+                            className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-right text-neon-cyan focus:outline-none focus:border-neon-cyan"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex justify-between">
+                            <span>Migration Rate</span>
+                            <span className="text-neon-cyan">{Math.round(localConfig.migrationRate * 100)}%</span>
+                        </div>
+                        <input
+                            type="range" min="0" max="1" step="0.05"
+                            value={localConfig.migrationRate}
+                            onChange={(e) => handleChange('migrationRate', parseFloat(e.target.value))}
+                            className="w-full accent-neon-cyan h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                </>
+             )}
+             <p className="text-[10px] text-slate-500">
+                {localConfig.islandCount > 0
+                    ? 'The world is split into equal regions left to right, each evolving as its own pool whatever the strain, so strains that share an island interbreed. Migrants respawn on their destination island, and strains are not re-seeded when they die out.'
+                    : 'Off: each strain evolves as its own pool and never exchanges genes with the others.'}
+             </p>
+          </div>
+
+          <hr className="border-slate-800" />
+
+          {/* Section: Determinism */}
+          <div className="space-y-3">
+             <label className="text-xs uppercase text-slate-500 font-bold tracking-wider">Run Seed</label>
+             <div className="flex gap-2">
+                <input
+                    type="number" min="0" max="4294967295" step="1"
+                    value={localConfig.seed}
+                    onChange={(e) => handleChange('seed', (parseInt(e.target.value) || 0) >>> 0)}
+                    className="flex-1 bg-slate-800 border border-slate-600 rounded px-3 py-2 text-neon-green focus:outline-none focus:border-neon-cyan"
+                />
+                <button
+                    onClick={() => handleChange('seed', createSeed())}
+                    title="Randomize seed"
+                    className="flex items-center justify-center px-3 bg-slate-800 hover:bg-slate-700 text-white rounded border border-slate-600 transition-colors"
+                >
+                    <Dices size={16} />
+                </button>
+             </div>
+             <p className="text-[10px] text-slate-500">The same seed and settings always produce the same evolutionary history.</p>
+          </div>
+
+          <hr className="border-slate-800" />
+
           {/* Section: Save/Load */}
            <div className="space-y-3">
              <label className="text-xs uppercase text-slate-500 font-bold tracking-wider">Data Persistence</label>
@@ -202,8 +486,62 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     accept=".json"
                 />
              </div>
+
+             {/* Import Report */}
+             {pendingImport && (
+                <div className={`rounded border p-3 space-y-2 ${pendingImport.data ? 'border-yellow-500/50 bg-yellow-500/5' : 'border-red-500/50 bg-red-500/5'}`}>
+                    <div className={`flex items-center gap-2 font-bold text-xs ${pendingImport.data ? 'text-yellow-400' : 'text-red-400'}`}>
+                        <AlertTriangle size={14} />
+                        {pendingImport.data ? 'SAVE NEEDS REPAIR' : 'SAVE CANNOT BE LOADED'}
+                        {pendingImport.report.fromVersion !== null && (
+                            <span className="ml-auto text-slate-500 font-normal">
+                                schema v{pendingImport.report.fromVersion} → v{pendingImport.report.toVersion}
+                            </span>
+                        )}
+                    </div>
+                    {pendingImport.report.fatal && (
+                        <p className="text-xs text-red-300">{pendingImport.report.fatal}</p>
+                    )}
+                    {pendingImport.report.issues.length > 0 && (
+                        <ul className="max-h-40 overflow-y-auto space-y-1 text-[10px]">
+                            {pendingImport.report.issues.map((issue, i) => (
+                                <li key={i} className="flex gap-2">
+                                    <span className={`shrink-0 w-16 font-bold ${
+                                        issue.action === 'REJECTED' ? 'text-red-400' : issue.action === 'REPAIRED' ? 'text-yellow-400' : 'text-neon-cyan'
+                                    }`}>{issue.action}</span>
+                                    <span className="text-slate-400 break-all"><span className="text-slate-200">{issue.path}</span>: {issue.message}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="flex gap-2 pt-1">
+                        <button
+                            onClick={() => setPendingImport(null)}
+                            className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 py-1.5 rounded border border-slate-600 text-xs transition-colors"
+                        >
+                            {pendingImport.data ? 'Cancel' : 'Dismiss'}
+                        </button>
+                        {pendingImport.data && (
+                            <button
+                                onClick={() => onLoad(pendingImport.data!)}
+                                className="flex-1 bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-1.5 rounded text-xs transition-colors"
+                            >
+                                Load Repaired Save
+                            </button>
+                        )}
+                    </div>
+                </div>
+             )}
            </div>
 
+          <hr className="border-slate-800" />
+
+          {/* Section: Save Slots */}
+          <div className="space-y-3">
+             <label className="text-xs uppercase text-slate-500 font-bold tracking-wider">Save Slots</label>
+             <SaveSlotBrowser onLoad={onLoad} onSaveCurrent={handleSaveSlot} />
+          </div>
+
         </div>
 
         {/* Footer */}
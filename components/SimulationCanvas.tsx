@@ -1,9 +1,14 @@
 
 import React, { useRef, useEffect, useLayoutEffect } from 'react';
-import { Xenobot, CameraState, Food, FloatingText, ToolMode } from '../types';
-import { COLORS, FOOD_RADIUS, TOOL_COLORS } from '../constants';
+import { CameraState, FloatingText, ToolMode, PackedSnapshot } from '../types';
+import { COLORS, FOOD_RADIUS, TOOL_COLORS, SAVE_THUMBNAIL_WIDTH, SPATIAL_HASH_CELL_SIZE } from '../constants';
+import { BOT_FLOATS, BOT_INTS, PARTICLE_FLOATS, SPRING_FLOATS, FOOD_FLOATS, SPRING_FLAG_MUSCLE, SPRING_FLAG_RIGID } from '../services/snapshot';
+import { SpatialHash } from '../services/spatialHash';
+import { strainColor } from '../services/strains';
+import { islandBounds } from '../services/islands';
 
 const MAX_PARTICLES = 256; 
+const BOT_CULL_MARGIN = 800; // World units beyond the viewport a bot center may sit and still be drawn (body + auras)
 
 const VS_SOURCE = `
   attribute vec2 position;
@@ -133,9 +138,21 @@ const FS_SOURCE = `
   }
 `;
 
+// One live bot in the canvas spatial index; `slot` is its index in the latest snapshot
+interface BotIndexEntry {
+  slot: number;
+  stamp: number;
+}
+
+// One food item in the canvas spatial index. Food never moves, so it is keyed by id
+// and patched from each TICK's food changes instead of being re-indexed.
+interface FoodIndexEntry {
+  id: string;
+  phase: number;
+}
+
 interface SimulationCanvasProps {
-  botsRef: React.MutableRefObject<Xenobot[]>; 
-  foodRef: React.MutableRefObject<Food[]>;
+  snapshotRef: React.MutableRefObject<PackedSnapshot | null>; // Latest worker TICK
   width: number;
   height: number;
   groundY: number;
@@ -145,11 +162,12 @@ interface SimulationCanvasProps {
   onInteract: (type: 'BOT' | 'FOOD' | 'EMPTY', id: string, x: number, y: number) => void;
   floatingTexts: FloatingText[];
   activeTool: ToolMode;
+  thumbnailRef?: React.MutableRefObject<(() => string | null) | null>; // Filled with a save-slot thumbnail capture
+  islandCount: number; // Island borders are drawn when the island model is on
 }
 
 export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ 
-  botsRef, 
-  foodRef, 
+  snapshotRef, 
   width, 
   height, 
   groundY, 
@@ -158,7 +176,9 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   isRunning,
   onInteract,
   floatingTexts,
-  activeTool
+  activeTool,
+  thumbnailRef,
+  islandCount
 }) => {
   const canvas2dRef = useRef<HTMLCanvasElement>(null);
   const canvasGlRef = useRef<HTMLCanvasElement>(null);
@@ -174,14 +194,92 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
 
   // Buffers for WebGL
   const particleBufferRef = useRef<Float32Array>(new Float32Array(MAX_PARTICLES * 4));
-  const candidateIndicesRef = useRef<Int32Array>(new Int32Array(1000));
+  const candidateIndicesRef = useRef<Int32Array>(new Int32Array(1000)); // Snapshot particle indices
   const candidateChargesRef = useRef<Float32Array>(new Float32Array(1000));
+  const candidateBotsRef = useRef<Int32Array>(new Int32Array(1000)); // Owning bot index per candidate
+
+  // Spatial index over the latest snapshot, kept alive across ticks. Bots are tracked by id
+  // and moved in place; food is patched with each TICK's added and removed items.
+  const spatialIndexRef = useRef({
+      snapshot: null as PackedSnapshot | null,
+      stamp: 0,
+      worldEpoch: -1,
+      foodVersion: -1,
+      botEntries: new Map<string, BotIndexEntry>(),
+      bots: new SpatialHash<BotIndexEntry>(SPATIAL_HASH_CELL_SIZE),
+      foodEntries: new Map<string, FoodIndexEntry>(),
+      food: new SpatialHash<FoodIndexEntry>(SPATIAL_HASH_CELL_SIZE)
+  });
+  const visibleBotsRef = useRef<number[]>([]);
+
+  // Updated lazily, at most once per worker TICK
+  const getSpatialIndex = (snapshot: PackedSnapshot) => {
+      const index = spatialIndexRef.current;
+      if (index.snapshot === snapshot) return index;
+
+      index.snapshot = snapshot;
+      const stamp = ++index.stamp;
+      for (let i = 0; i < snapshot.botCount; i++) {
+          const bf = i * BOT_FLOATS.STRIDE;
+          const x = snapshot.botFloats[bf + BOT_FLOATS.COM_X];
+          const y = snapshot.botFloats[bf + BOT_FLOATS.COM_Y];
+          if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+
+          const id = snapshot.botIds[i];
+          let entry = index.botEntries.get(id);
+          if (!entry) {
+              entry = { slot: i, stamp };
+              index.botEntries.set(id, entry);
+          }
+          entry.slot = i;
+          entry.stamp = stamp;
+          index.bots.insert(entry, x, y);
+      }
+      // Drop bots that died or went non-finite since the last TICK
+      index.botEntries.forEach((entry, id) => {
+          if (entry.stamp === stamp) return;
+          index.bots.remove(entry);
+          index.botEntries.delete(id);
+      });
+
+      if (snapshot.worldEpoch === index.worldEpoch && snapshot.foodVersion === index.foodVersion) return index;
+
+      const addFood = (id: string, x: number, y: number, phase: number) => {
+          if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+          const entry = { id, phase };
+          index.foodEntries.set(id, entry);
+          index.food.insert(entry, x, y);
+      };
+
+      const changes = snapshot.foodChanges;
+      if (changes && snapshot.worldEpoch === index.worldEpoch && changes.fromVersion === index.foodVersion) {
+          changes.added.forEach(f => addFood(f.id, f.x, f.y, f.phase));
+          changes.removedIds.forEach(id => {
+              const entry = index.foodEntries.get(id);
+              if (!entry) return;
+              index.food.remove(entry);
+              index.foodEntries.delete(id);
+          });
+      } else {
+          // A new engine, a reset log, or a TICK this canvas never drew: re-index everything
+          index.foodEntries.clear();
+          index.food.clear();
+          for (let i = 0; i < snapshot.foodCount; i++) {
+              const o = i * FOOD_FLOATS.STRIDE;
+              addFood(snapshot.foodIds[i], snapshot.foodFloats[o + FOOD_FLOATS.X], snapshot.foodFloats[o + FOOD_FLOATS.Y], snapshot.foodFloats[o + FOOD_FLOATS.PHASE]);
+          }
+      }
+      index.worldEpoch = snapshot.worldEpoch;
+      index.foodVersion = snapshot.foodVersion;
+      return index;
+  };
 
   // --- WebGL Setup ---
   useEffect(() => {
     const canvas = canvasGlRef.current;
     if (!canvas) return;
-    const gl = canvas.getContext('webgl', { alpha: true, premultipliedAlpha: false });
+    // preserveDrawingBuffer lets thumbnails read the glow layer outside the render callback
+    const gl = canvas.getContext('webgl', { alpha: true, premultipliedAlpha: false, preserveDrawingBuffer: true });
     if (!gl) return;
     glContextRef.current = gl;
 
@@ -230,9 +328,8 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   };
 
   const handleClick = (e: React.MouseEvent) => {
-    const bots = botsRef.current;
-    const food = foodRef.current;
-    if (!bots || !food) return;
+    const snapshot = snapshotRef.current;
+    if (!snapshot) return;
 
     const rect = e.currentTarget.getBoundingClientRect();
     const clickX = e.clientX - rect.left;
@@ -243,27 +340,20 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     const worldX = (clickX - width/2) / safeZoom + camera.x;
     const worldY = (clickY - height/2) / safeZoom + camera.y;
 
-    // Check Bot Collision (Approximate using Center of Mass)
-    const BOT_HIT_RADIUS_SQ = 60 * 60; // 60px radius
-    for(const b of bots) {
-        if (b.isDead) continue;
-        const dx = b.centerOfMass.x - worldX;
-        const dy = b.centerOfMass.y - worldY;
-        if (dx*dx + dy*dy < BOT_HIT_RADIUS_SQ) {
-            onInteract('BOT', b.id, clickX, clickY);
-            return; // Stop after one hit
-        }
+    const index = getSpatialIndex(snapshot);
+
+    // Check Bot Collision (Approximate using Center of Mass, 60px radius)
+    const botHit = index.bots.nearest(worldX, worldY, 60);
+    if (botHit !== null) {
+        onInteract('BOT', snapshot.botIds[botHit.slot], clickX, clickY);
+        return; // Stop after one hit
     }
 
     // Check Food Collision
-    const FOOD_HIT_RADIUS_SQ = 30 * 30;
-    for(const f of food) {
-        const dx = f.x - worldX;
-        const dy = f.y - worldY;
-        if (dx*dx + dy*dy < FOOD_HIT_RADIUS_SQ) {
-            onInteract('FOOD', f.id, clickX, clickY);
-            return;
-        }
+    const foodHit = index.food.nearest(worldX, worldY, 30);
+    if (foodHit !== null) {
+        onInteract('FOOD', foodHit.id, clickX, clickY);
+        return;
     }
 
     // No hit? Send EMPTY interaction for tools like Injector
@@ -272,14 +362,15 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
 
   // --- Main Render Loop (Decoupled from React State) ---
   const render = () => {
-    const bots = botsRef.current;
-    const food = foodRef.current;
+    const snapshot = snapshotRef.current;
     
-    if (!bots) {
+    if (!snapshot) {
         requestRef.current = requestAnimationFrame(render);
         return;
     }
 
+    const { botFloats, botInts, particleFloats, springFloats, springFlags, botIds } = snapshot;
+
     // 2D Canvas Render
     const ctx = canvas2dRef.current?.getContext('2d');
     if (ctx) {
@@ -310,24 +401,17 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       ctx.scale(safeZoom, safeZoom);
       ctx.translate(-camera.x, -camera.y);
 
+      const spatialIndex = getSpatialIndex(snapshot);
+
       // Determine Hovered Bot
       let hoveredBotId: string | null = null;
       if (mouseRef.current) {
           const worldMx = (mouseRef.current.x - width/2) / safeZoom + camera.x;
           const worldMy = (mouseRef.current.y - height/2) / safeZoom + camera.y;
           
-          // Simple proximity check for hover
-          let minDistSq = Infinity;
-          for(const b of bots) {
-              if (b.isDead) continue;
-              const dx = b.centerOfMass.x - worldMx;
-              const dy = b.centerOfMass.y - worldMy;
-              const dSq = dx*dx + dy*dy;
-              if (dSq < 2500 && dSq < minDistSq) { // 50px radius
-                  minDistSq = dSq;
-                  hoveredBotId = b.id;
-              }
-          }
+          // Simple proximity check for hover (50px radius)
+          const hovered = spatialIndex.bots.nearest(worldMx, worldMy, 50);
+          if (hovered !== null) hoveredBotId = botIds[hovered.slot];
       }
 
       // --- ENHANCED GRID RENDERING ---
@@ -400,69 +484,96 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.lineTo(0, endY);
       }
       ctx.stroke();
+
+      // 4. Island Borders (inner edges only; the outer islands extend past the range)
+      if (islandCount > 1) {
+        ctx.save();
+        ctx.beginPath();
+        ctx.setLineDash([20 / safeZoom, 12 / safeZoom]);
+        ctx.strokeStyle = 'rgba(255, 0, 255, 0.35)';
+        ctx.lineWidth = 2 / safeZoom;
+        for (let i = 1; i < islandCount; i++) {
+          const x = islandBounds(i, islandCount)[0];
+          if (x < viewMinX || x > viewMaxX) continue;
+          ctx.moveTo(x, startY);
+          ctx.lineTo(x, endY);
+        }
+        ctx.stroke();
+        ctx.restore();
+      }
       // --- END GRID ---
 
       // Render Food
-      if (food && food.length > 0) {
+      if (snapshot.foodCount > 0) {
           const time = Date.now() * 0.003;
           ctx.fillStyle = COLORS.FOOD;
           ctx.shadowColor = COLORS.FOOD;
           ctx.shadowBlur = 15;
           
-          for (const f of food) {
-              // Safety check
-              if (!Number.isFinite(f.x) || !Number.isFinite(f.y)) continue;
-              
-              // Only draw if visible
-              if (f.x < startX || f.x > endX || f.y < startY || f.y > endY) continue;
-
-              const pulse = Math.sin(time + f.phase) * 2;
+          // Only draw what is visible
+          spatialIndex.food.forEachInRect(startX, startY, endX, endY, (food, fx, fy) => {
+              const pulse = Math.sin(time + food.phase) * 2;
               const radius = Math.max(2, FOOD_RADIUS + pulse);
 
               ctx.beginPath();
-              ctx.arc(f.x, f.y, radius, 0, Math.PI * 2);
+              ctx.arc(fx, fy, radius, 0, Math.PI * 2);
               ctx.fill();
-          }
+          });
           ctx.shadowBlur = 0;
       }
 
-      const botCount = bots.length;
-      for (let i = 0; i < botCount; i++) {
-        const bot = bots[i];
-        if (bot.isDead) continue;
-        
-        const springs = bot.springs;
-        const sCount = springs.length;
-        const particles = bot.particles;
+      // Viewport culling; sorted so overlapping bots keep a stable draw order
+      const visibleBots = visibleBotsRef.current;
+      visibleBots.length = 0;
+      spatialIndex.bots.forEachInRect(
+          viewMinX - BOT_CULL_MARGIN, viewMinY - BOT_CULL_MARGIN, viewMaxX + BOT_CULL_MARGIN, viewMaxY + BOT_CULL_MARGIN,
+          entry => { visibleBots.push(entry.slot); }
+      );
+      visibleBots.sort((a, b) => a - b);
+
+      for (const i of visibleBots) {
+        const bf = i * BOT_FLOATS.STRIDE;
+        const ib = i * BOT_INTS.STRIDE;
+        const botId = botIds[i];
+        const energy = botFloats[bf + BOT_FLOATS.ENERGY];
+        const comX = botFloats[bf + BOT_FLOATS.COM_X];
+        const comY = botFloats[bf + BOT_FLOATS.COM_Y];
+        const irruption = botFloats[bf + BOT_FLOATS.IRRUPTION];
+        const absorption = botFloats[bf + BOT_FLOATS.ABSORPTION];
+
+        const pStart = botInts[ib + BOT_INTS.PARTICLE_START];
+        const pCount = botInts[ib + BOT_INTS.PARTICLE_COUNT];
+        const sStart = botInts[ib + BOT_INTS.SPRING_START];
+        const sCount = botInts[ib + BOT_INTS.SPRING_COUNT];
 
         // Collision Visual Effect
-        if (bot.lastCollisionTime && Date.now() - bot.lastCollisionTime < 200 && bot.lastCollisionPoint) {
-            const p = bot.lastCollisionPoint;
-            const progress = (Date.now() - bot.lastCollisionTime) / 200;
+        const collisionAge = botFloats[bf + BOT_FLOATS.COLLISION_AGE];
+        if (collisionAge >= 0 && collisionAge < 200) {
+            const progress = collisionAge / 200;
             ctx.beginPath();
-            ctx.arc(p.x, p.y, 5 + progress * 30, 0, Math.PI * 2);
+            ctx.arc(botFloats[bf + BOT_FLOATS.COLLISION_X], botFloats[bf + BOT_FLOATS.COLLISION_Y], 5 + progress * 30, 0, Math.PI * 2);
             ctx.fillStyle = `rgba(255, 255, 255, ${1.0 - progress})`;
             ctx.fill();
         }
 
         // Critical Energy Warning (Pulsating Aura)
-        if (bot.energy < 1000) {
-            const criticality = 1.0 - Math.max(0, bot.energy / 1000); // 0 to 1 scaling based on energy loss
+        if (energy < 1000) {
+            const criticality = 1.0 - Math.max(0, energy / 1000); // 0 to 1 scaling based on energy loss
             const time = Date.now() * 0.002; // Slower pulse (reduced from 0.005)
-            const pulse = 0.5 + 0.5 * Math.sin(time + (bot.id.charCodeAt(0) || 0)); // Offset phase by ID
+            const pulse = 0.5 + 0.5 * Math.sin(time + (botId.charCodeAt(0) || 0)); // Offset phase by ID
             
             // Inner failing glow
             ctx.beginPath();
-            ctx.arc(bot.centerOfMass.x, bot.centerOfMass.y, 30 + pulse * 15, 0, Math.PI * 2);
+            ctx.arc(comX, comY, 30 + pulse * 15, 0, Math.PI * 2);
             // Fade from transparent to dim red/grey
             const alpha = Math.min(0.2, criticality * 0.25 * pulse);
             ctx.fillStyle = `rgba(255, 80, 80, ${alpha})`;
             ctx.fill();
 
             // Critical structure warning ring
-            if (bot.energy < 400) {
+            if (energy < 400) {
                 ctx.beginPath();
-                ctx.arc(bot.centerOfMass.x, bot.centerOfMass.y, 45 - pulse * 10, 0, Math.PI * 2);
+                ctx.arc(comX, comY, 45 - pulse * 10, 0, Math.PI * 2);
                 ctx.strokeStyle = `rgba(255, 0, 0, ${criticality * 0.3})`;
                 ctx.lineWidth = 1;
                 ctx.setLineDash([2, 8]);
@@ -472,41 +583,42 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         }
 
         // Visualizing Absorption (Conscious Experience)
-        if (bot.absorption > 0.1) {
-            const com = bot.centerOfMass;
+        if (absorption > 0.1) {
             ctx.beginPath();
-            ctx.arc(com.x, com.y, 40 * bot.absorption, 0, Math.PI * 2);
-            ctx.strokeStyle = `rgba(0, 255, 200, ${bot.absorption * 0.8})`;
+            ctx.arc(comX, comY, 40 * absorption, 0, Math.PI * 2);
+            ctx.strokeStyle = `rgba(0, 255, 200, ${absorption * 0.8})`;
             ctx.lineWidth = 2;
             ctx.stroke();
         }
 
-        for (let j = 0; j < sCount; j++) {
-            const s = springs[j];
-            const p1 = particles[s.p1];
-            const p2 = particles[s.p2];
+        for (let j = sStart; j < sStart + sCount; j++) {
+            const o = j * SPRING_FLOATS.STRIDE;
+            const x1 = springFloats[o + SPRING_FLOATS.X1];
+            const y1 = springFloats[o + SPRING_FLOATS.Y1];
+            const x2 = springFloats[o + SPRING_FLOATS.X2];
+            const y2 = springFloats[o + SPRING_FLOATS.Y2];
             
             // Safety: Skip invalid particles - stricter checks
-            if (!p1 || !p2 || !Number.isFinite(p1.renderPos.x) || !Number.isFinite(p1.renderPos.y) || 
-                !Number.isFinite(p2.renderPos.x) || !Number.isFinite(p2.renderPos.y)) continue;
+            if (!Number.isFinite(x1) || !Number.isFinite(y1) || 
+                !Number.isFinite(x2) || !Number.isFinite(y2)) continue;
 
             // Visual Artifact Prevention: Don't draw lines stretched to infinity
-            const dx = p1.renderPos.x - p2.renderPos.x;
-            const dy = p1.renderPos.y - p2.renderPos.y;
+            const dx = x1 - x2;
+            const dy = y1 - y2;
             const distSq = dx*dx + dy*dy;
             
             if (distSq > 800 * 800) continue; // Skip huge lines
 
-            const dist = Math.sqrt(distSq);
+            const strain = springFloats[o + SPRING_FLOATS.STRAIN];
+            const flags = springFlags[j];
 
             ctx.beginPath();
-            ctx.moveTo(p1.renderPos.x, p1.renderPos.y);
-            ctx.lineTo(p2.renderPos.x, p2.renderPos.y);
+            ctx.moveTo(x1, y1);
+            ctx.lineTo(x2, y2);
             
-            if (s.isMuscle) {
-               const strain = Math.abs(dist - s.currentRestLength) / (s.currentRestLength || 1);
+            if (flags & SPRING_FLAG_MUSCLE) {
                // Add Irruption visualization to muscles
-               const intensity = Math.min(1.0, strain * 4.0 + bot.irruption * 0.5); 
+               const intensity = Math.min(1.0, strain * 4.0 + irruption * 0.5); 
                
                // DARKER SILHOUETTE for visibility against bright bio-field
                // Deep Crimson/Maroon
@@ -518,8 +630,7 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
                ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${0.9 + intensity * 0.1})`;
                ctx.lineWidth = Math.min(6, 2.5 + intensity * 3.5); 
             } else {
-               const strain = Math.abs(dist - s.currentRestLength) / (s.currentRestLength || 1);
-               if (s.stiffness > 0.7) { 
+               if (flags & SPRING_FLAG_RIGID) { 
                    const intensity = Math.min(1.0, strain * 3.0);
                    // Dark Charcoal/Black for stiff structures to silhouette against the glow
                    ctx.strokeStyle = `rgba(20, 20, 20, ${0.9 + intensity * 0.1})`;
@@ -533,22 +644,19 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
             ctx.stroke();
         }
 
-        const pCount = particles.length;
-        const genomeColor = bot.genome.color || '#39ff14';
-
-        let activeColor = genomeColor;
-        const chargeDensity = bot.totalCharge / (pCount || 1);
+        // Non-HSL genome colors fall back to the strain's base color
+        let activeColor = strainColor(botInts[ib + BOT_INTS.GROUP]);
+        const chargeDensity = botFloats[bf + BOT_FLOATS.TOTAL_CHARGE] / (pCount || 1);
         
-        const match = genomeColor.match(/hsl\((\d+\.?\d*),\s*(\d+)%,\s*(\d+)%\)/);
-        if (match) {
-            const h = match[1];
-            let s = Math.min(100, parseInt(match[2]) + chargeDensity * 50);
-            let l = Math.min(95, parseInt(match[3]) + chargeDensity * 40);
+        const h = botFloats[bf + BOT_FLOATS.HUE];
+        if (h >= 0) {
+            let s = Math.min(100, botFloats[bf + BOT_FLOATS.SATURATION] + chargeDensity * 50);
+            let l = Math.min(95, botFloats[bf + BOT_FLOATS.LIGHTNESS] + chargeDensity * 40);
             
             // Visual Cue: Aging / Dying
             // If energy is low (< 800), desaturate and darken
-            if (bot.energy < 800) {
-                 const deathFactor = 1.0 - (Math.max(0, bot.energy) / 800);
+            if (energy < 800) {
+                 const deathFactor = 1.0 - (Math.max(0, energy) / 800);
                  s = s * (1.0 - deathFactor); 
                  l = l * (1.0 - deathFactor * 0.5);
             }
@@ -556,14 +664,17 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
             activeColor = `hsl(${h}, ${s}%, ${l}%)`;
         }
 
-        for (let j = 0; j < pCount; j++) {
-            const p = particles[j];
-            if (!Number.isFinite(p.renderPos.x) || !Number.isFinite(p.renderPos.y)) continue;
+        for (let j = pStart; j < pStart + pCount; j++) {
+            const o = j * PARTICLE_FLOATS.STRIDE;
+            const px = particleFloats[o + PARTICLE_FLOATS.X];
+            const py = particleFloats[o + PARTICLE_FLOATS.Y];
+            const charge = particleFloats[o + PARTICLE_FLOATS.CHARGE];
+            if (!Number.isFinite(px) || !Number.isFinite(py)) continue;
             
             ctx.fillStyle = activeColor;
             
             // Visual Cue: Pulsating effect for critical energy (< 300)
-            if (bot.energy < 300) {
+            if (energy < 300) {
                  const pulse = 0.5 + 0.5 * Math.sin(Date.now() * 0.002); // Slower pulse
                  ctx.globalAlpha = 0.5 + pulse * 0.5;
             } else {
@@ -571,22 +682,22 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
             }
             
             ctx.beginPath();
-            ctx.arc(p.renderPos.x, p.renderPos.y, 8, 0, Math.PI * 2); 
+            ctx.arc(px, py, 8, 0, Math.PI * 2); 
             ctx.fill();
 
             // Inner Highlight
             ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
             ctx.beginPath();
-            ctx.arc(p.renderPos.x - 2, p.renderPos.y - 2, 3, 0, Math.PI * 2);
+            ctx.arc(px - 2, py - 2, 3, 0, Math.PI * 2);
             ctx.fill();
 
-            if (p.charge > 0.1) {
-                ctx.fillStyle = `rgba(255, 255, 255, ${Math.min(0.8, p.charge)})`; 
+            if (charge > 0.1) {
+                ctx.fillStyle = `rgba(255, 255, 255, ${Math.min(0.8, charge)})`; 
                 // Reduced shadow blur
                 ctx.shadowColor = '#fff';
-                ctx.shadowBlur = Math.min(10, 5 * p.charge); 
+                ctx.shadowBlur = Math.min(10, 5 * charge); 
                 ctx.beginPath();
-                ctx.arc(p.renderPos.x, p.renderPos.y, 4, 0, Math.PI * 2);
+                ctx.arc(px, py, 4, 0, Math.PI * 2);
                 ctx.fill();
                 ctx.shadowBlur = 0;
             }
@@ -596,13 +707,14 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         }
 
         // Render Age Text (Visible if selected or hovered)
-        if (bot.id === followingBotId || bot.id === hoveredBotId) {
+        if (botId === followingBotId || botId === hoveredBotId) {
             ctx.save();
-            ctx.translate(bot.centerOfMass.x, bot.centerOfMass.y - 60);
+            ctx.translate(comX, comY - 60);
             
             // UPDATED: Much larger tooltip
+            // Border in the strain's base color, which (unlike the body tint) never drifts
             ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
-            ctx.strokeStyle = "rgba(255, 255, 255, 0.3)";
+            ctx.strokeStyle = strainColor(botInts[ib + BOT_INTS.GROUP]);
             ctx.lineWidth = 1;
             
             ctx.beginPath();
@@ -614,11 +726,11 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
             ctx.font = "bold 16px monospace"; // Larger Font
             ctx.fillStyle = "#fff";
             ctx.textAlign = "center";
-            ctx.fillText(`AGE: ${bot.age}`, 0, -25);
+            ctx.fillText(`AGE: ${botInts[ib + BOT_INTS.AGE]}`, 0, -25);
             
             ctx.font = "bold 14px monospace"; // Larger Font
-            ctx.fillStyle = bot.energy < 500 ? "#ef4444" : "#39ff14";
-            ctx.fillText(`${Math.floor(bot.energy)}J`, 0, -8); 
+            ctx.fillStyle = energy < 500 ? "#ef4444" : "#39ff14";
+            ctx.fillText(`${Math.floor(energy)}J`, 0, -8); 
             
             ctx.restore();
         }
@@ -715,25 +827,27 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
 
         const candIndices = candidateIndicesRef.current;
         const candCharges = candidateChargesRef.current;
+        const candBots = candidateBotsRef.current;
         let candCount = 0;
         const MAX_CAND = candIndices.length;
 
-        const botCount = bots.length;
-        for(let i=0; i<botCount; i++) {
-            const bot = bots[i];
-            if(bot.isDead) continue;
-            const particles = bot.particles;
-            const pCount = particles.length;
+        // Gather charged particles of on-screen bots (Index into the snapshot particle block)
+        for (const i of visibleBotsRef.current) {
+            const ib = i * BOT_INTS.STRIDE;
+            const pStart = botInts[ib + BOT_INTS.PARTICLE_START];
+            const pEnd = pStart + botInts[ib + BOT_INTS.PARTICLE_COUNT];
             
-            for(let j=0; j<pCount; j++) {
-                const p = particles[j];
+            for (let j = pStart; j < pEnd; j++) {
+                const o = j * PARTICLE_FLOATS.STRIDE;
                 // Check safety again
-                if (!Number.isFinite(p.renderPos.x) || !Number.isFinite(p.renderPos.y)) continue;
+                if (!Number.isFinite(particleFloats[o + PARTICLE_FLOATS.X]) || !Number.isFinite(particleFloats[o + PARTICLE_FLOATS.Y])) continue;
                 
-                if (p.charge > 0.01) {
+                const charge = particleFloats[o + PARTICLE_FLOATS.CHARGE];
+                if (charge > 0.01) {
                     if (candCount < MAX_CAND) {
-                        candIndices[candCount] = (i << 16) | j;
-                        candCharges[candCount] = p.charge;
+                        candIndices[candCount] = j;
+                        candBots[candCount] = i;
+                        candCharges[candCount] = charge;
                         candCount++;
                     }
                 }
@@ -743,23 +857,19 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
 
         const data = particleBufferRef.current;
         for(let k=0; k<candCount; k++) {
-            const encoded = candIndices[k];
-            const bIdx = encoded >> 16;
-            const pIdx = encoded & 0xFFFF;
-            const bot = bots[bIdx];
-            const p = bot.particles[pIdx];
+            const o = candIndices[k] * PARTICLE_FLOATS.STRIDE;
             
-            const screenX = (p.renderPos.x - camX) * zoom + cx;
-            const screenY = (p.renderPos.y - camY) * zoom + cy;
+            const screenX = (particleFloats[o + PARTICLE_FLOATS.X] - camX) * zoom + cx;
+            const screenY = (particleFloats[o + PARTICLE_FLOATS.Y] - camY) * zoom + cy;
             
             // Pulse logic removed for steady-state realism
             // Just use the raw charge value, maybe lightly scaled
-            const intensity = p.charge;
+            const intensity = candCharges[k];
             
             data[k*4] = screenX;
             data[k*4+1] = screenY;
             data[k*4+2] = intensity; // Pass steady intensity
-            data[k*4+3] = bot.irruption; // Pass Irruption level to shader
+            data[k*4+3] = botFloats[candBots[k] * BOT_FLOATS.STRIDE + BOT_FLOATS.IRRUPTION]; // Pass Irruption level to shader
         }
 
         const uRes = gl.getUniformLocation(program, 'u_resolution');
@@ -784,7 +894,33 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   useLayoutEffect(() => {
     requestRef.current = requestAnimationFrame(render);
     return () => cancelAnimationFrame(requestRef.current);
-  }, [width, height, groundY, camera, followingBotId, isRunning, floatingTexts, activeTool]); 
+  }, [width, height, groundY, camera, followingBotId, isRunning, floatingTexts, activeTool, islandCount]); 
+
+  // --- Save Thumbnail Capture ---
+  // Composites both layers the way the page blends them, downscaled to a small JPEG
+  useEffect(() => {
+    if (!thumbnailRef) return;
+    thumbnailRef.current = () => {
+        const glCanvas = canvasGlRef.current;
+        const canvas2d = canvas2dRef.current;
+        if (!glCanvas || !canvas2d || !snapshotRef.current) return null;
+
+        const thumb = document.createElement('canvas');
+        thumb.width = SAVE_THUMBNAIL_WIDTH;
+        thumb.height = Math.round(SAVE_THUMBNAIL_WIDTH * height / width);
+        const ctx = thumb.getContext('2d');
+        if (!ctx) return null;
+
+        ctx.fillStyle = '#020617';
+        ctx.fillRect(0, 0, thumb.width, thumb.height);
+        ctx.globalCompositeOperation = 'screen';
+        ctx.drawImage(glCanvas, 0, 0, thumb.width, thumb.height);
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.drawImage(canvas2d, 0, 0, thumb.width, thumb.height);
+        return thumb.toDataURL('image/jpeg', 0.7);
+    };
+    return () => { thumbnailRef.current = null; };
+  }, [thumbnailRef, width, height]);
 
   // --- Dynamic Cursor Styles based on Tool ---
   const cursorStyle = (() => {
@@ -1,13 +1,15 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { Cpu, Globe, Zap, Volume2, VolumeX } from 'lucide-react';
+import { Cpu, Globe, Zap, Volume2, VolumeX, History } from 'lucide-react';
 
 interface TitleScreenProps {
   onStart: () => void;
   isMuted: boolean;
   onToggleMute: () => void;
+  onContinue: () => void;
+  canContinue: boolean; // Any save slot exists
 }
 
-export const TitleScreen: React.FC<TitleScreenProps> = ({ onStart, isMuted, onToggleMute }) => {
+export const TitleScreen: React.FC<TitleScreenProps> = ({ onStart, isMuted, onToggleMute, onContinue, canContinue }) => {
   const [glitch, setGlitch] = useState(false);
   
   // Refs for direct DOM manipulation to prevent render lag
@@ -166,7 +168,7 @@ export const TitleScreen: React.FC<TitleScreenProps> = ({ onStart, isMuted, onTo
         <div className="space-y-4">
             <div className="h-px w-32 mx-auto bg-gradient-to-r from-transparent via-neon-cyan to-transparent"></div>
             <div className="text-slate-300 font-mono text-sm md:text-base max-w-lg mx-auto leading-relaxed tracking-wide select-none">
-                <span className="text-neon-cyan">>></span> EVOLUTIONARY_PROTOCOL_INITIATED<br/>
+                <span className="text-neon-cyan">{'>>'}</span> EVOLUTIONARY_PROTOCOL_INITIATED<br/>
                 <span className="text-slate-500">Simulating soft-body dynamics and neural topology in fluidic space. Observe the emergence of synthetic life.</span>
             </div>
             <div className="h-px w-32 mx-auto bg-gradient-to-r from-transparent via-neon-cyan to-transparent"></div>
@@ -187,6 +189,18 @@ export const TitleScreen: React.FC<TitleScreenProps> = ({ onStart, isMuted, onTo
             <div className="absolute bottom-0 left-0 w-2 h-2 bg-white opacity-0 group-hover:opacity-100 transition-opacity delay-100"></div>
         </button>
 
+        {canContinue && (
+            <div>
+                <button
+                    onClick={onContinue}
+                    className="inline-flex items-center gap-3 px-6 py-3 border border-slate-700 text-slate-300 font-display font-bold text-sm tracking-widest hover:border-neon-cyan hover:text-neon-cyan transition-colors cursor-pointer"
+                >
+                    <History size={18} />
+                    CONTINUE
+                </button>
+            </div>
+        )}
+
         <div className="text-[10px] text-slate-600 font-mono mt-8 uppercase tracking-widest select-none">
             Tufts University // Levin Lab // Neural Link Est. 4.2.1
         </div>
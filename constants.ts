@@ -1,12 +1,21 @@
 
-import { SimulationConfig, Upgrade } from './types';
+import { SimulationConfig, Upgrade, GlobalEvent, StrainDefinition, DescriptorKey, Point } from './types';
+import { createSeed } from './services/random';
 
 export const INITIAL_POPULATION_SIZE = 2; 
 export const MAX_POPULATION_CAP = 10000; 
-export const GRID_SIZE = 12; // Increased to allow larger swimmers
+export const GRID_SIZE = 12; // Default genome grid; grids expand when a body grows into the border
+export const MAX_GRID_SIZE = 32; // Hard cap on a genome's grid side length
 export const EVOLUTION_INTERVAL = 3600; // 60 seconds at 60fps
+export const FIXED_TIMESTEP = 16; // Simulated ms per physics step (approx 16.66ms)
 export const DEFAULT_FOOD_COUNT = 4000; 
 export const INITIAL_MAX_BOT_SIZE = 50; // New Initial Cap
+export const SIMULATION_SNAPSHOT_VERSION = 1; // Bump when WorldSnapshot/SimulationSnapshot change shape
+export const SAVE_SCHEMA_VERSION = 3; // Bump (and add a migration) when SaveData changes shape
+export const AUTOSAVE_GENERATION_INTERVAL = 3; // Autosave every N finished generations (and when the tab is hidden)
+export const PARETO_REFRESH_MS = 1000; // Pareto plot poll interval while the drift panel is open
+export const SPATIAL_HASH_CELL_SIZE = 320; // World units per spatial index cell (about one food broadphase radius)
+export const SAVE_THUMBNAIL_WIDTH = 240; // px; height follows the viewport aspect ratio
 
 export const DEFAULT_CONFIG: SimulationConfig = {
   populationSize: INITIAL_POPULATION_SIZE,
@@ -23,6 +32,30 @@ export const DEFAULT_CONFIG: SimulationConfig = {
   plasticity: 0.0005, 
   syncRate: 0.4, 
   generationDuration: 0, 
+  seed: createSeed(), // Fresh per session; set it in Settings to replay a run
+  cppnShare: 0, // Every fresh genome directly encoded unless CPPN seeding is turned on
+  fitnessWeights: { ENERGY: 1, DISPLACEMENT_X: 2 }, // The classic energy + 2 x rightward travel
+  selectionMode: 'WEIGHTED',
+  noveltyBlend: 0,
+  mutation: {
+    growth: 0.3,
+    growthFill: 0.1,
+    noise: 0.05,
+    memoryDrift: 0.2,
+    swap: 0, // Structural operators are opt-in; the defaults keep the classic growth/noise mutation
+    mirror: 0,
+    translocation: 0,
+    deletion: 0,
+    conversion: 0,
+    nodeSkin: 0.5, // 50% Skin, 30% Muscle, 20% Neuron
+    nodeHeart: 0.3,
+    nodeNeuron: 0.2
+  },
+  crossoverWeights: { UNIFORM: 1, SINGLE_POINT: 0, BLOCK: 0, GRAFT: 0 }, // Uniform only, as before structured modes existed
+  islandCount: 0,
+  migrationInterval: 5,
+  migrationRate: 0.1,
+  migrationTopology: 'RING'
 };
 
 export const COLORS = {
@@ -53,16 +86,94 @@ export const MITOSIS_THRESHOLD = 6000; // Threshold for colony splitting
 export const SURFACE_TENSION = 0.005; 
 export const FOOD_ENERGY = 150; // Small increment per food
 export const FOOD_RADIUS = 12;
-export const BREAKING_THRESHOLD = 150.0; 
+export const BREAKING_THRESHOLD = 150.0; // World units a spring may stretch past its rest length before it snaps
 export const COLLISION_RADIUS = 12.0;
+// Regeneration: progress per step = bioelectricMemory * plasticity * REGENERATION_RATE,
+// so a default bot regrows a lost cell roughly every 5 seconds while it can pay for it
+export const REGENERATION_RATE = 10;
+export const REGENERATION_COST = 100; // Cheaper than GROWTH_COST: the pattern is already known
+
+// Neuron Sensing: each NEURON cell samples food (chemotaxis) and nearby bots (avoidance)
+export const NEURON_SENSE_RADIUS = 400;
+export const NEURON_AVOID_RADIUS = 150; // Personal space measured to other bots' centers
+export const NEURON_AVOID_WEIGHT = 2.0; // Crowding outweighs food at close range
+export const NEURON_TURN_RATE = 0.04; // Max heading change (radians/step) at full sensory input
+export const NEURON_FREQ_GAIN = 0.5; // Muscle frequency boost at full sensory input
+
+// Neural Controller (CTRNN). Inputs: sensed direction ahead, to the side, and intensity.
+// Each muscle reads two nodes: one scales its amplitude, the other shifts its phase.
+export const CONTROLLER_SIZE = 4;
+export const CONTROLLER_INPUTS = 3;
+export const CONTROLLER_WEIGHT_LIMIT = 4.0; // Weights and biases are clamped to +/- this
+export const CONTROLLER_TAU_RANGE: [number, number] = [2, 60]; // Time constants, in physics steps
+
+// CPPN Encoding
+export const CPPN_MAX_CELLS = 12; // Decoded bodies larger than this are pruned
+
+// Speciation (NEAT-style niching within each strain)
+export const COMPATIBILITY_THRESHOLD = 0.5; // Max distance to a species' representative for a genome to join it
+export const COMPATIBILITY_MEMORY_WEIGHT = 0.5; // Weight of the bioelectricMemory gap against the cell mismatch fraction
+export const SPECIES_STAGNATION_LIMIT = 15; // Generations without a fitness improvement before a species is culled
+
+// Fitness Objectives
+export const FITNESS_TARGET: Point = { x: 0, y: 200 }; // Goal for the TARGET_SEEKING objective, midway between the colony homes
+export const NOVELTY_NEIGHBOURS = 5; // k nearest displacements averaged by the NOVELTY objective
+export const NOVELTY_SAMPLE_SIZE = 64; // Other bots compared per novelty score (an even stride through the population)
+
+// Novelty Search: NOVELTY_NEIGHBOURS also sets k for the behavior archive
+export const BEHAVIOR_SAMPLES = 8; // Trajectory samples per bot, spread over a generation
+export const BEHAVIOR_SAMPLE_INTERVAL = EVOLUTION_INTERVAL / BEHAVIOR_SAMPLES; // Physics steps between samples
+export const NOVELTY_ARCHIVE_ADDS = 3; // Most novel behaviors archived per generation
+export const NOVELTY_ARCHIVE_LIMIT = 500; // Oldest behaviors are dropped past this
+
+// Lineage: records stay while they have a living descendant; extinct ones are kept for this
+// many generations after their birth so the phylogeny can still show dead branches
+export const LINEAGE_EXTINCT_MEMORY = 10;
+
+// MAP-Elites Archive: each descriptor range is split into ARCHIVE_BINS bins (values outside
+// the range land in the edge bins)
+export const ARCHIVE_BINS = 8;
+export const DESCRIPTOR_RANGES: Record<DescriptorKey, [number, number]> = {
+  muscleFraction: [0, 1], // Share of HEART cells
+  neuronFraction: [0, 1], // Share of NEURON cells
+  nodeCount: [1, 33],
+  elongation: [1, 5], // Bounding box aspect ratio (long side / short side)
+  speed: [0, 1] // World units per physics step, start position to current position
+};
+
+// Island Model: islands split this x range into equal-width regions. The strain homes sit
+// at +-2500, so with two islands each strain starts on its own.
+export const ISLAND_RANGE: [number, number] = [-4000, 4000];
+export const MAX_ISLANDS = 8;
 
 // --- GAMEPLAY CONSTANTS ---
 
+// Strain Registry. Group membership comes from genome.strainId, never from the color.
+export const PLAYER_STRAIN_ID = 0;
+export const STRAINS: StrainDefinition[] = [
+  { id: 0, name: 'NATIVE STRAIN (ALPHA)', hue: 190, homeX: -2500, escalatingCosts: true },
+  { id: 1, name: 'INVASIVE STRAIN (BETA)', hue: 340, homeX: 2500, escalatingCosts: false }
+];
+
+// Global Events (rolled by the simulation worker once per physics step)
+export const GLOBAL_EVENT_CHANCE = 0.0002; // Approx once every 2 mins at 60 steps/s
+export const GLOBAL_EVENTS: GlobalEvent[] = [
+  {
+    id: 'EVT_BLOOM',
+    name: 'ALGAL BLOOM',
+    description: 'Nutrient density increased by 300%.',
+    duration: 900,
+    isActive: true,
+    type: 'ALGAL_BLOOM'
+  }
+];
+
 export const BD_REWARD = {
     CLICK_BOT: 1, // Base Manual Scan Value (Starts at 1)
     CLICK_FOOD: 2, // Low active income
     PASSIVE_EAT: 2,
     PASSIVE_MITOSIS: 50,
+    PASSIVE_COLLISION: 0.5, // Per bot-to-bot contact
     // Per Node, Per Frame.
     // 60 frames * 0.002 = 0.12 BD per second per node.
     // A 10-node bot generates 1.2 BD/sec.
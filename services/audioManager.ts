@@ -1,4 +1,5 @@
-import { GeneticStats, Xenobot } from '../types';
+import { GeneticStats, PackedSnapshot, SimulationEvent } from '../types';
+import { BOT_FLOATS } from './snapshot';
 
 export class AudioManager {
     private ctx: AudioContext | null = null;
@@ -222,23 +223,29 @@ export class AudioManager {
     }
 
     // Called every frame-ish from App.tsx
-    public updateAmbience(events: string[], bots: Xenobot[]) {
+    public updateAmbience(events: SimulationEvent[], snapshot: PackedSnapshot) {
         if (!this.ctx || !this.isStarted) return;
         
         // 1. Calculate Instant Metrics
-        const deathCount = events.filter(e => e === 'DEATH').length;
-        const totalEnergy = bots.reduce((sum, b) => sum + b.energy, 0);
-        const avgEnergy = bots.length > 0 ? totalEnergy / bots.length : 0;
-        
+        const deathCount = events.filter(e => e.type === 'DEATH').length;
+        const collisionCount = events.filter(e => e.type === 'COLLISION').length;
+        const { botCount, botFloats } = snapshot;
+        let totalEnergy = 0;
         // Activity Proxy: Total Charge (Bio-electricity intensity)
-        const totalCharge = bots.reduce((sum, b) => sum + b.totalCharge, 0);
+        let totalCharge = 0;
+        for (let i = 0; i < botCount; i++) {
+            totalEnergy += botFloats[i * BOT_FLOATS.STRIDE + BOT_FLOATS.ENERGY];
+            totalCharge += botFloats[i * BOT_FLOATS.STRIDE + BOT_FLOATS.TOTAL_CHARGE];
+        }
+        const avgEnergy = botCount > 0 ? totalEnergy / botCount : 0;
+        
         // Normalize activity: 100 bots * 2.0 charge avg ~ 200
-        const activity = Math.min(1, totalCharge / (Math.max(1, bots.length) * 4.0));
+        const activity = Math.min(1, totalCharge / (Math.max(1, botCount) * 4.0));
 
         // 2. Update Chaos Metric (0 to 1)
         // Deaths cause immediate spikes. Low energy causes creeping dread.
         // Chaos decays naturally if things are stable.
-        let targetChaos = (deathCount * 0.4); 
+        let targetChaos = (deathCount * 0.4) + Math.min(0.2, collisionCount * 0.05); // Scuffles add a little tension
         if (avgEnergy < 800) targetChaos += 0.3; // Low energy anxiety
         if (avgEnergy < 400) targetChaos += 0.5; // Critical anxiety
         
@@ -0,0 +1,214 @@
+import { CellType, CppnGenes, CppnNode, CppnConnection, CppnActivation } from '../types';
+import { GRID_SIZE } from '../constants';
+import { rng } from './random';
+
+// --- CPPN Indirect Encoding ---
+// A compositional pattern-producing network is queried once per grid cell with that
+// cell's coordinates. Its outputs decide whether a cell exists there and which type it
+// is, so symmetric and repeating activations produce regular bodies whose structure
+// survives crossover and mutation far better than the raw CellType grid.
+//
+// Node IDs 0-3 are the inputs (x, y, distance from center, bias) and 4-7 the outputs
+// (presence, skin, heart, neuron). Hidden nodes are numbered from 8 via `nextNodeId`.
+
+export const CPPN_INPUT_COUNT = 4;
+export const CPPN_OUTPUT_COUNT = 4;
+const FIRST_OUTPUT_ID = CPPN_INPUT_COUNT;
+const FIRST_HIDDEN_ID = CPPN_INPUT_COUNT + CPPN_OUTPUT_COUNT;
+
+export const CPPN_ACTIVATIONS: CppnActivation[] = ['SINE', 'GAUSSIAN', 'SIGMOID', 'TANH', 'ABS', 'LINEAR'];
+
+const WEIGHT_LIMIT = 4.0;
+const clampWeight = (w: number) => Math.max(-WEIGHT_LIMIT, Math.min(WEIGHT_LIMIT, w));
+
+const activate = (fn: CppnActivation, x: number): number => {
+  switch (fn) {
+    case 'SINE': return Math.sin(x * 2);
+    case 'GAUSSIAN': return Math.exp(-x * x * 2);
+    case 'SIGMOID': return 1 / (1 + Math.exp(-x));
+    case 'TANH': return Math.tanh(x);
+    case 'ABS': return Math.min(1, Math.abs(x));
+    case 'LINEAR': return Math.max(-1, Math.min(1, x));
+  }
+};
+
+const isInput = (id: number) => id < FIRST_OUTPUT_ID;
+const isOutput = (id: number) => id >= FIRST_OUTPUT_ID && id < FIRST_HIDDEN_ID;
+
+// Minimal network: every input wired straight to every output
+export function createRandomCppn(): CppnGenes {
+  const nodes: CppnNode[] = [];
+  const connections: CppnConnection[] = [];
+
+  for (let id = 0; id < FIRST_HIDDEN_ID; id++) {
+    const activation: CppnActivation = isInput(id) ? 'LINEAR' : id === FIRST_OUTPUT_ID ? 'TANH' : 'SIGMOID';
+    nodes.push({ id, activation, bias: isInput(id) ? 0 : rng.next() * 2 - 1 });
+  }
+  for (let from = 0; from < CPPN_INPUT_COUNT; from++) {
+    for (let to = FIRST_OUTPUT_ID; to < FIRST_HIDDEN_ID; to++) {
+      connections.push({ from, to, weight: (rng.next() * 2 - 1) * 2, enabled: true });
+    }
+  }
+  return { nodes, connections, nextNodeId: FIRST_HIDDEN_ID };
+}
+
+export function cloneCppn(cppn: CppnGenes): CppnGenes {
+  return {
+    nodes: cppn.nodes.map(n => ({ ...n })),
+    connections: cppn.connections.map(c => ({ ...c })),
+    nextNodeId: cppn.nextNodeId
+  };
+}
+
+// Kahn's algorithm over enabled connections. Nodes caught in a cycle (only possible in
+// hand-edited saves) are left out and evaluate to 0.
+const evaluationOrder = (cppn: CppnGenes): CppnNode[] => {
+  const inDegree = new Map<number, number>();
+  const outgoing = new Map<number, number[]>();
+  cppn.nodes.forEach(n => inDegree.set(n.id, 0));
+  cppn.connections.forEach(c => {
+    if (!c.enabled || !inDegree.has(c.from) || !inDegree.has(c.to)) return;
+    inDegree.set(c.to, inDegree.get(c.to)! + 1);
+    if (!outgoing.has(c.from)) outgoing.set(c.from, []);
+    outgoing.get(c.from)!.push(c.to);
+  });
+
+  const byId = new Map(cppn.nodes.map(n => [n.id, n]));
+  const queue = cppn.nodes.filter(n => inDegree.get(n.id) === 0).map(n => n.id);
+  const order: CppnNode[] = [];
+  for (let q = 0; q < queue.length; q++) {
+    const id = queue[q];
+    order.push(byId.get(id)!);
+    outgoing.get(id)?.forEach(next => {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    });
+  }
+  return order;
+};
+
+// Query the network at every cell. A cell exists where the presence output is positive;
+// its type is whichever of the skin/heart/neuron outputs is strongest. Coordinates are
+// measured from the grid center in units of the default GRID_SIZE, so an expanded grid
+// reveals more of the same pattern instead of stretching it.
+export function decodeCppn(cppn: CppnGenes, gridSize: number): CellType[][] {
+  const order = evaluationOrder(cppn);
+  const incoming = new Map<number, CppnConnection[]>();
+  cppn.connections.forEach(c => {
+    if (!c.enabled) return;
+    if (!incoming.has(c.to)) incoming.set(c.to, []);
+    incoming.get(c.to)!.push(c);
+  });
+
+  const values = new Map<number, number>();
+  const center = (gridSize - 1) / 2;
+  const halfSpan = Math.max(1, GRID_SIZE - 1) / 2;
+  const genes: CellType[][] = [];
+
+  for (let y = 0; y < gridSize; y++) {
+    const row: CellType[] = [];
+    for (let x = 0; x < gridSize; x++) {
+      const nx = (x - center) / halfSpan;
+      const ny = (y - center) / halfSpan;
+      const inputs = [nx, ny, Math.sqrt(nx * nx + ny * ny) / Math.SQRT2, 1];
+
+      values.clear();
+      for (const node of order) {
+        if (isInput(node.id)) {
+          values.set(node.id, inputs[node.id]);
+          continue;
+        }
+        let sum = node.bias;
+        incoming.get(node.id)?.forEach(c => { sum += c.weight * (values.get(c.from) ?? 0); });
+        values.set(node.id, activate(node.activation, sum));
+      }
+
+      const output = (i: number) => values.get(FIRST_OUTPUT_ID + i) ?? 0;
+      if (output(0) <= 0) {
+        row.push(CellType.EMPTY);
+        continue;
+      }
+      const skin = output(1), heart = output(2), neuron = output(3);
+      if (heart >= skin && heart >= neuron) row.push(CellType.HEART);
+      else if (neuron >= skin) row.push(CellType.NEURON);
+      else row.push(CellType.SKIN);
+    }
+    genes.push(row);
+  }
+  return genes;
+}
+
+// True if `to` already feeds into `from` (so from -> to would close a cycle)
+const reaches = (cppn: CppnGenes, start: number, target: number): boolean => {
+  const stack = [start];
+  const seen = new Set<number>();
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === target) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    cppn.connections.forEach(c => { if (c.from === id) stack.push(c.to); });
+  }
+  return false;
+};
+
+const addConnection = (cppn: CppnGenes) => {
+  const sources = cppn.nodes.filter(n => !isOutput(n.id));
+  const targets = cppn.nodes.filter(n => !isInput(n.id));
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const from = rng.pick(sources).id;
+    const to = rng.pick(targets).id;
+    if (from === to || cppn.connections.some(c => c.from === from && c.to === to)) continue;
+    if (reaches(cppn, to, from)) continue;
+    cppn.connections.push({ from, to, weight: (rng.next() * 2 - 1) * 2, enabled: true });
+    return;
+  }
+};
+
+// Split an enabled connection: from -> new (weight 1) -> to (old weight)
+const addNode = (cppn: CppnGenes) => {
+  const enabled = cppn.connections.filter(c => c.enabled);
+  if (enabled.length === 0) return;
+  const split = rng.pick(enabled);
+  split.enabled = false;
+
+  const id = cppn.nextNodeId++;
+  cppn.nodes.push({ id, activation: rng.pick(CPPN_ACTIVATIONS), bias: 0 });
+  cppn.connections.push({ from: split.from, to: id, weight: 1, enabled: true });
+  cppn.connections.push({ from: id, to: split.to, weight: split.weight, enabled: true });
+};
+
+// Structural mutations (add connection, add node, swap a hidden activation) plus
+// per-weight and per-bias perturbation
+export function mutateCppn(cppn: CppnGenes): CppnGenes {
+  const next = cloneCppn(cppn);
+
+  next.connections.forEach(c => {
+    if (rng.next() < 0.2) c.weight = clampWeight(c.weight + (rng.next() * 2 - 1) * 0.5);
+    else if (rng.next() < 0.02) c.enabled = !c.enabled;
+  });
+  next.nodes.forEach(n => {
+    if (!isInput(n.id) && rng.next() < 0.1) n.bias = clampWeight(n.bias + (rng.next() * 2 - 1) * 0.5);
+  });
+
+  if (rng.next() < 0.1) addConnection(next);
+  if (rng.next() < 0.05) addNode(next);
+
+  const hidden = next.nodes.filter(n => n.id >= FIRST_HIDDEN_ID);
+  if (hidden.length > 0 && rng.next() < 0.05) rng.pick(hidden).activation = rng.pick(CPPN_ACTIVATIONS);
+
+  return next;
+}
+
+// Structure comes from `primary` (the fitter parent); connections both parents share
+// (same endpoints) take either parent's weight
+export function crossoverCppn(primary: CppnGenes, secondary: CppnGenes): CppnGenes {
+  const child = cloneCppn(primary);
+  const shared = new Map(secondary.connections.map(c => [`${c.from}>${c.to}`, c]));
+  child.connections.forEach(c => {
+    const other = shared.get(`${c.from}>${c.to}`);
+    if (other && rng.next() < 0.5) c.weight = other.weight;
+  });
+  return child;
+}
@@ -0,0 +1,78 @@
+import { CellType, DescriptorKey, Elite, Genome, MorphologyDescriptors, Xenobot } from '../types';
+import { ARCHIVE_BINS, DESCRIPTOR_RANGES } from '../constants';
+
+// --- MAP-Elites Archive ---
+// Quality-diversity memory for the run. Descriptor space is divided into a grid and every
+// occupied cell keeps the fittest genome ever seen there, so body plans that selection
+// drops (unfit, but unusual) stay available to inspect and respawn.
+
+export const DESCRIPTOR_KEYS: DescriptorKey[] = ['muscleFraction', 'neuronFraction', 'nodeCount', 'elongation', 'speed'];
+
+// Morphology comes from the genome's live cells, speed from the bot's displacement so far
+export function describeBot(bot: Xenobot): MorphologyDescriptors {
+  let cells = 0, hearts = 0, neurons = 0;
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  bot.genome.genes.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell === CellType.EMPTY) return;
+      cells++;
+      if (cell === CellType.HEART) hearts++;
+      if (cell === CellType.NEURON) neurons++;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+  }));
+
+  const width = cells > 0 ? maxX - minX + 1 : 1;
+  const height = cells > 0 ? maxY - minY + 1 : 1;
+  const dx = bot.centerOfMass.x - bot.startPosition.x;
+  const dy = bot.centerOfMass.y - bot.startPosition.y;
+  const speed = Math.sqrt(dx * dx + dy * dy) / Math.max(1, bot.age);
+
+  return {
+      muscleFraction: cells > 0 ? hearts / cells : 0,
+      neuronFraction: cells > 0 ? neurons / cells : 0,
+      nodeCount: cells,
+      elongation: Math.max(width, height) / Math.min(width, height),
+      speed: Number.isFinite(speed) ? speed : 0
+  };
+}
+
+export function descriptorBin(key: DescriptorKey, value: number): number {
+  const [min, max] = DESCRIPTOR_RANGES[key];
+  const bin = Math.floor(((value - min) / (max - min)) * ARCHIVE_BINS);
+  return Math.max(0, Math.min(ARCHIVE_BINS - 1, bin));
+}
+
+export class EliteArchive {
+  private cells = new Map<string, Elite>();
+
+  public get size(): number {
+    return this.cells.size;
+  }
+
+  public get elites(): Elite[] {
+    return [...this.cells.values()];
+  }
+
+  public get(key: string): Elite | undefined {
+    return this.cells.get(key);
+  }
+
+  // Store the genome if its cell is empty or it beats the current elite. Returns true if stored.
+  public consider(genome: Genome, descriptors: MorphologyDescriptors): boolean {
+    if (!Number.isFinite(genome.fitness)) return false;
+    const bins = DESCRIPTOR_KEYS.map(key => descriptorBin(key, descriptors[key]));
+    const key = bins.join(',');
+    const current = this.cells.get(key);
+    if (current && current.genome.fitness >= genome.fitness) return false;
+
+    // Shallow copy: scoring rewrites fitness and origin on live genomes in place
+    this.cells.set(key, { key, bins, descriptors, genome: { ...genome } });
+    return true;
+  }
+
+  public load(elites: Elite[]) {
+    this.cells = new Map(elites.map(e => [e.key, e]));
+  }
+}
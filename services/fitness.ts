@@ -0,0 +1,117 @@
+import { FitnessDefinition, FitnessObjective, FitnessScores, FitnessWeights, Xenobot } from '../types';
+import { FITNESS_TARGET, INITIAL_YOLK_ENERGY, NOVELTY_NEIGHBOURS, NOVELTY_SAMPLE_SIZE } from '../constants';
+
+// --- Fitness Registry ---
+// Every objective scores a bot from its current state. A run's fitness is the weighted sum
+// of the objectives in config.fitnessWeights. Ratio objectives are scaled by 1000, so a
+// weight of 1 keeps each of them in the same range as energy and distance (hundreds to
+// a few thousand for a good bot).
+
+const displacement = (bot: Xenobot) => {
+  const dx = bot.centerOfMass.x - bot.startPosition.x;
+  const dy = bot.centerOfMass.y - bot.startPosition.y;
+  return Number.isFinite(dx) && Number.isFinite(dy) ? { dx, dy } : { dx: 0, dy: 0 };
+};
+
+const distanceToTarget = (x: number, y: number) => Math.hypot(x - FITNESS_TARGET.x, y - FITNESS_TARGET.y);
+
+// Mean distance from this bot's displacement to the k nearest among an even stride of the
+// others. Deterministic (no RNG draws), since it also runs outside the fixed-step loop.
+const novelty = (bot: Xenobot, population: readonly Xenobot[]): number => {
+  const own = displacement(bot);
+  const stride = Math.max(1, Math.ceil(population.length / NOVELTY_SAMPLE_SIZE));
+  const distances: number[] = [];
+  for (let i = 0; i < population.length; i += stride) {
+    const other = population[i];
+    if (other === bot) continue;
+    const { dx, dy } = displacement(other);
+    distances.push(Math.hypot(dx - own.dx, dy - own.dy));
+  }
+  if (distances.length === 0) return 0;
+  distances.sort((a, b) => a - b);
+  const nearest = distances.slice(0, NOVELTY_NEIGHBOURS);
+  return nearest.reduce((sum, d) => sum + d, 0) / nearest.length;
+};
+
+export const FITNESS_OBJECTIVES: FitnessDefinition[] = [
+  {
+    id: 'ENERGY',
+    name: 'Energy',
+    description: 'Metabolic reserve left over.',
+    evaluate: bot => bot.energy
+  },
+  {
+    id: 'DISPLACEMENT_X',
+    name: 'Rightward Travel',
+    description: 'Horizontal distance from the start; negative when the bot drifted left.',
+    evaluate: bot => displacement(bot).dx
+  },
+  {
+    id: 'DISPLACEMENT',
+    name: 'Net Displacement',
+    description: 'Straight-line distance from the start, in any direction.',
+    evaluate: bot => {
+      const { dx, dy } = displacement(bot);
+      return Math.hypot(dx, dy);
+    }
+  },
+  {
+    id: 'PATH_EFFICIENCY',
+    name: 'Path Efficiency',
+    description: 'Net displacement over distance travelled (1000 = a perfectly straight swim).',
+    evaluate: bot => {
+      const { dx, dy } = displacement(bot);
+      return 1000 * Math.hypot(dx, dy) / Math.max(1, bot.pathLength ?? 0);
+    }
+  },
+  {
+    id: 'FOOD_EFFICIENCY',
+    name: 'Foraging Efficiency',
+    description: 'Food energy eaten per unit of energy spent (x1000).',
+    evaluate: bot => {
+      const eaten = bot.foodEnergy ?? 0;
+      const spent = INITIAL_YOLK_ENERGY + eaten - bot.energy;
+      return 1000 * eaten / Math.max(1, spent);
+    }
+  },
+  {
+    id: 'SURVIVAL',
+    name: 'Survival Time',
+    description: 'Physics steps survived.',
+    evaluate: bot => bot.age
+  },
+  {
+    id: 'TARGET_SEEKING',
+    name: 'Target Seeking',
+    description: 'How much closer the bot got to the target point between the colonies.',
+    evaluate: bot => {
+      const { dx, dy } = displacement(bot);
+      const { x, y } = bot.startPosition;
+      return distanceToTarget(x, y) - distanceToTarget(x + dx, y + dy);
+    }
+  },
+  {
+    id: 'NOVELTY',
+    name: 'Novelty',
+    description: 'How far the bot ended up from where its nearest peers ended up.',
+    evaluate: novelty
+  }
+];
+
+const byId = new Map(FITNESS_OBJECTIVES.map(o => [o.id, o]));
+
+// Raw values of the objectives with a nonzero weight
+export function evaluateObjectives(bot: Xenobot, population: readonly Xenobot[], weights: FitnessWeights): FitnessScores {
+  const scores: FitnessScores = {};
+  (Object.keys(weights) as FitnessObjective[]).forEach(id => {
+    const objective = byId.get(id);
+    if (!weights[id] || !objective) return;
+    scores[id] = objective.evaluate(bot, population);
+  });
+  return scores;
+}
+
+export function scoreBot(bot: Xenobot, population: readonly Xenobot[], weights: FitnessWeights): number {
+  const scores = evaluateObjectives(bot, population, weights);
+  return (Object.keys(scores) as FitnessObjective[]).reduce((sum, id) => sum + weights[id]! * scores[id]!, 0);
+}
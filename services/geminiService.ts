@@ -5,7 +5,7 @@ import { Xenobot, AnalysisResult, CellType } from "../types";
 // Initialize Gemini with environment API key
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-export async function analyzeXenobot(bot: Xenobot): Promise<AnalysisResult> {
+export async function analyzeXenobot(bot: Pick<Xenobot, 'genome' | 'age' | 'energy' | 'irruption' | 'absorption'>): Promise<AnalysisResult> {
   const { genome, age, energy, irruption, absorption } = bot;
 
   // Serialize the grid for the LLM
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { paretoRanks, crowdingDistances, crossover, createRandomGenome, CROSSOVER_MODES } from './geneticAlgorithm';
+import { rng } from './random';
+import { CellType, CrossoverMode, Genome } from '../types';
+
+const ORTHOGONAL = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const BODY_CELLS = [CellType.SKIN, CellType.HEART, CellType.NEURON];
+
+// Connected pieces of the filled cells, using the same orthogonal neighbours as enforceContiguity
+const componentCount = (genes: CellType[][]) => {
+  const size = genes.length;
+  const seen = genes.map(row => row.map(() => false));
+  let count = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (genes[y][x] === CellType.EMPTY || seen[y][x]) continue;
+      count++;
+      const stack = [[x, y]];
+      seen[y][x] = true;
+      while (stack.length > 0) {
+        const [cx, cy] = stack.pop()!;
+        ORTHOGONAL.forEach(([dx, dy]) => {
+          const nx = cx + dx, ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= size || ny >= size || seen[ny][nx] || genes[ny][nx] === CellType.EMPTY) return;
+          seen[ny][nx] = true;
+          stack.push([nx, ny]);
+        });
+      }
+    }
+  }
+  return count;
+};
+
+// `base` with a random connected body of up to `cells` cells grown from a random spot,
+// so parents differ in shape and sit off-center in their grids
+const randomBody = (base: Genome, size: number, cells: number): Genome => {
+  const genes: CellType[][] = Array.from({ length: size }, () => Array(size).fill(CellType.EMPTY));
+  const filled = [[rng.int(size), rng.int(size)]];
+  genes[filled[0][1]][filled[0][0]] = rng.pick(BODY_CELLS);
+  for (let attempt = 0; filled.length < cells && attempt < cells * 20; attempt++) {
+    const [x, y] = rng.pick(filled);
+    const [dx, dy] = rng.pick(ORTHOGONAL);
+    const nx = x + dx, ny = y + dy;
+    if (nx < 0 || ny < 0 || nx >= size || ny >= size || genes[ny][nx] !== CellType.EMPTY) continue;
+    genes[ny][nx] = rng.pick(BODY_CELLS);
+    filled.push([nx, ny]);
+  }
+  return { ...base, gridSize: size, genes };
+};
+
+const onlyMode = (mode: CrossoverMode) =>
+  Object.fromEntries(CROSSOVER_MODES.map(m => [m, m === mode ? 1 : 0])) as Record<CrossoverMode, number>;
+
+// Both objectives maximized
+const POINTS = [
+  [0, 4], [2, 2], [4, 0], // Pareto front
+  [1, 1], [0, 3], // Each dominated by one front point
+  [0, 0] // Dominated by the second front too
+];
+
+describe('paretoRanks', () => {
+  it('assigns each point to its non-dominated front', () => {
+    expect(paretoRanks(POINTS)).toEqual([0, 0, 0, 1, 1, 2]);
+  });
+
+  it('puts duplicate points on the same front', () => {
+    expect(paretoRanks([[1, 1], [1, 1], [0, 0]])).toEqual([0, 0, 1]);
+  });
+});
+
+describe('crowdingDistances', () => {
+  it('gives boundary points infinite distance and sums normalized gaps for the rest', () => {
+    const distances = crowdingDistances(POINTS, paretoRanks(POINTS));
+
+    expect(distances[0]).toBe(Infinity);
+    expect(distances[2]).toBe(Infinity);
+    expect(distances[1]).toBeCloseTo(2);
+    // Fronts of one or two points are all boundary
+    expect(distances.slice(3)).toEqual([Infinity, Infinity, Infinity]);
+  });
+});
+
+describe('crossover', () => {
+  it.each(CROSSOVER_MODES)('keeps every %s offspring of mixed-size parents in one piece', mode => {
+    rng.reseed(2024);
+    for (let i = 0; i < 100; i++) {
+      const small = randomBody(createRandomGenome(1, 0, 0), 8, 4 + rng.int(20));
+      const large = randomBody(createRandomGenome(1, 0, 0), 10 + rng.int(8), 4 + rng.int(40));
+      const [a, b] = i % 2 === 0 ? [small, large] : [large, small];
+      const child = crossover(a, b, 2, onlyMode(mode));
+
+      expect(child.crossoverMode).toBe(mode);
+      expect(child.gridSize).toBe(large.gridSize);
+      expect(componentCount(child.genes)).toBe(1);
+    }
+  });
+});
@@ -1,46 +1,44 @@
 
-import { Genome, CellType } from '../types';
-import { GRID_SIZE } from '../constants';
+import { Genome, CellType, FitnessSummary, ControllerGenes, GenomeEncoding, EncodingSummary, Species, FitnessObjective, FitnessWeights, SimulationConfig, NoveltySummary, BirthCause, MutationConfig, MutationOperator, MutationStats, CrossoverMode, CrossoverStats, IslandSummary } from '../types';
+import { DEFAULT_CONFIG, GRID_SIZE, MAX_GRID_SIZE, STRAINS, PLAYER_STRAIN_ID, CONTROLLER_SIZE, CONTROLLER_INPUTS, CONTROLLER_WEIGHT_LIMIT, CONTROLLER_TAU_RANGE, CPPN_MAX_CELLS, COMPATIBILITY_THRESHOLD, COMPATIBILITY_MEMORY_WEIGHT, SPECIES_STAGNATION_LIMIT } from '../constants';
+import { rng } from './random';
+import { getStrain } from './strains';
+import { islandOf, randomIslandX } from './islands';
+import { createRandomCppn, decodeCppn, mutateCppn, crossoverCppn, cloneCppn } from './cppn';
 
 // "Nervous Ring" Topology Definition
 // Central 2x2 Core: NEURON
 // Surrounding Ring: Alternating HEART / SKIN
-const PLATONIC_IDEAL_MAP: Record<string, CellType> = {};
-
-// Initialize the ideal map centered dynamically based on GRID_SIZE
-const center = GRID_SIZE / 2;
-const coreStart = Math.floor(center - 1);
-const coreEnd = Math.floor(center);
-const ringStart = Math.floor(center - 2);
-const ringEnd = Math.floor(center + 1);
-
-for (let y = 0; y < GRID_SIZE; y++) {
-    for (let x = 0; x < GRID_SIZE; x++) {
-        const key = `${x},${y}`;
-        // Center 2x2 Core (Neurons)
-        if (x >= coreStart && x <= coreEnd && y >= coreStart && y <= coreEnd) {
-            PLATONIC_IDEAL_MAP[key] = CellType.NEURON;
-        }
-        // Surrounding Ring (Muscles/Skin)
-        else if (x >= ringStart && x <= ringEnd && y >= ringStart && y <= ringEnd) {
-            // Alternating pattern for the ring
-            if ((x + y) % 2 === 0) {
-                PLATONIC_IDEAL_MAP[key] = CellType.HEART;
-            } else {
-                PLATONIC_IDEAL_MAP[key] = CellType.SKIN;
-            }
-        } 
-        // Outer shell
-        else {
-            PLATONIC_IDEAL_MAP[key] = CellType.EMPTY;
-        }
+// Centered on whatever grid size the genome uses.
+function platonicIdealCell(x: number, y: number, size: number): CellType {
+    const center = size / 2;
+    const coreStart = Math.floor(center - 1);
+    const coreEnd = Math.floor(center);
+    const ringStart = Math.floor(center - 2);
+    const ringEnd = Math.floor(center + 1);
+
+    // Center 2x2 Core (Neurons)
+    if (x >= coreStart && x <= coreEnd && y >= coreStart && y <= coreEnd) {
+        return CellType.NEURON;
     }
+    // Surrounding Ring (Muscles/Skin), alternating pattern
+    if (x >= ringStart && x <= ringEnd && y >= ringStart && y <= ringEnd) {
+        return (x + y) % 2 === 0 ? CellType.HEART : CellType.SKIN;
+    }
+    // Outer shell
+    return CellType.EMPTY;
 }
 
-export function createRandomGenome(generation: number = 0, targetHue?: number): Genome {
+export function createRandomGenome(generation: number = 0, strainId: number = PLAYER_STRAIN_ID, cppnShare: number = DEFAULT_CONFIG.cppnShare): Genome {
   // Rare "Prophet" spawn only in later generations to allow initial colonies to start small
-  if (generation > 8 && Math.random() < 0.05) {
-      return createNervousRingGenome(generation, targetHue);
+  if (generation > 8 && rng.next() < 0.05) {
+      return createNervousRingGenome(generation, strainId);
+  }
+
+  // Optionally part of every fresh population uses the indirect CPPN encoding so the two can be compared
+  if (rng.next() < cppnShare) {
+      const cppnGenome = createCppnGenome(generation, strainId);
+      if (cppnGenome) return cppnGenome;
   }
 
   // Initialize empty grid
@@ -54,29 +52,25 @@ export function createRandomGenome(generation: number = 0, targetHue?: number):
   genes[c][c] = CellType.NEURON; 
   
   // Node 2: Right (Heart - Motility)
-  genes[c][c+1] = Math.random() > 0.3 ? CellType.HEART : CellType.SKIN;
+  genes[c][c+1] = rng.next() > 0.3 ? CellType.HEART : CellType.SKIN;
   
   // Node 3: Down (Skin - Support)
   genes[c+1][c] = CellType.SKIN;
 
-  let h: number;
-  if (targetHue !== undefined) {
-      h = (targetHue + (Math.random() * 40 - 20)) % 360;
-  } else {
-      h = Math.random() * 360;
-  }
-  if (h < 0) h += 360;
-  
-  const color = `hsl(${h.toFixed(0)}, 70%, 60%)`;
+  const color = `hsl(${pickHue(getStrain(strainId).hue, 20).toFixed(0)}, 70%, 60%)`;
 
   const genome = {
-    id: Math.random().toString(36).substr(2, 9),
+    id: rng.id(9),
     gridSize: GRID_SIZE,
     genes,
     fitness: 0,
     generation,
     color,
-    bioelectricMemory: 0.5 + (Math.random() * 0.4), // Higher plasticity for early bots
+    strainId,
+    parentIds: [],
+    birthCause: 'SEED' as const,
+    bioelectricMemory: 0.5 + (rng.next() * 0.4), // Higher plasticity for early bots
+    controller: createRandomController(),
     originX: 0, 
     originY: 200
   };
@@ -85,32 +79,62 @@ export function createRandomGenome(generation: number = 0, targetHue?: number):
   return enforceContiguity(genome);
 }
 
-function createNervousRingGenome(generation: number, targetHue?: number): Genome {
+// Hue near `baseHue` (within +/- spread)
+function pickHue(baseHue: number, spread: number): number {
+    let h = (baseHue + (rng.next() * spread * 2 - spread)) % 360;
+    if (h < 0) h += 360;
+    return h;
+}
+
+// Random CPPN genome. Returns null if no sampled network expresses a viable body.
+function createCppnGenome(generation: number, strainId: number): Genome | null {
+    for (let attempt = 0; attempt < 10; attempt++) {
+        const cppn = createRandomCppn();
+        const genome = expressCppn({
+            id: rng.id(9),
+            gridSize: GRID_SIZE,
+            genes: [], // Filled in by expressCppn
+            fitness: 0,
+            generation,
+            color: `hsl(${pickHue(getStrain(strainId).hue, 20).toFixed(0)}, 70%, 60%)`,
+            strainId,
+            parentIds: [],
+            birthCause: 'SEED',
+            bioelectricMemory: 0.5 + (rng.next() * 0.4),
+            controller: createRandomController(),
+            cppn,
+            originX: 0,
+            originY: 200
+        });
+        if (countCells(genome.genes) >= 3) return genome;
+    }
+    return null;
+}
+
+function createNervousRingGenome(generation: number, strainId: number, size: number = GRID_SIZE): Genome {
     const genes: CellType[][] = [];
-    for (let y = 0; y < GRID_SIZE; y++) {
+    for (let y = 0; y < size; y++) {
         const row: CellType[] = [];
-        for (let x = 0; x < GRID_SIZE; x++) {
-            row.push(PLATONIC_IDEAL_MAP[`${x},${y}`] || CellType.EMPTY);
+        for (let x = 0; x < size; x++) {
+            row.push(platonicIdealCell(x, y, size));
         }
         genes.push(row);
     }
 
-    let h: number;
-    if (targetHue !== undefined) {
-        h = (targetHue + (Math.random() * 20 - 10)) % 360;
-    } else {
-        h = Math.random() * 360;
-    }
-    if (h < 0) h += 360;
+    const h = pickHue(getStrain(strainId).hue, 10);
 
     const genome = {
-        id: "PLATONIC-" + Math.random().toString(36).substr(2, 6),
-        gridSize: GRID_SIZE,
+        id: "PLATONIC-" + rng.id(6),
+        gridSize: size,
         genes,
         fitness: 0,
         generation,
         color: `hsl(${h.toFixed(0)}, 80%, 50%)`, 
+        strainId,
+        parentIds: [],
+        birthCause: 'SEED' as const,
         bioelectricMemory: 0.8,
+        controller: createRandomController(),
         originX: 0,
         originY: 200
     };
@@ -119,6 +143,20 @@ function createNervousRingGenome(generation: number, targetHue?: number): Genome
     return enforceContiguity(genome);
 }
 
+const countCells = (genes: CellType[][]) => genes.reduce((n, row) => n + row.filter(c => c !== CellType.EMPTY).length, 0);
+
+export const genomeEncoding = (genome: Genome): GenomeEncoding => genome.cppn ? 'CPPN' : 'DIRECT';
+
+// Decode a CPPN genome into its grid, keeping the largest connected body and capping it at
+// CPPN_MAX_CELLS. If the network expresses nothing, the previous grid is kept.
+export function expressCppn(genome: Genome): Genome {
+    if (!genome.cppn) return genome;
+    const decoded = enforceContiguity({ ...genome, genes: decodeCppn(genome.cppn, genome.gridSize) });
+    const cells = countCells(decoded.genes);
+    if (cells === 0) return genome;
+    return cells > CPPN_MAX_CELLS ? pruneGenome(decoded, CPPN_MAX_CELLS) : decoded;
+}
+
 // Ensures the genome is a single connected component
 export function enforceContiguity(genome: Genome): Genome {
     const genes = genome.genes.map(row => [...row]);
@@ -192,20 +230,19 @@ export function enforceContiguity(genome: Genome): Genome {
         }
     }
 
-    const keepSet = new Set(largest.map(c => `${c.x},${c.y}`));
-
     // Prune everything else
-    for(let y=0; y<size; y++) {
-        for(let x=0; x<size; x++) {
-            if (genes[y][x] !== CellType.EMPTY) {
-                if (!keepSet.has(`${x},${y}`)) {
-                    genes[y][x] = CellType.EMPTY;
-                }
-            }
-        }
-    }
+    return { ...genome, genes: maskGenes(genes, largest) };
+}
 
-    return { ...genome, genes };
+// Copy of `genes` with every cell outside `keep` set to EMPTY
+function maskGenes(genes: CellType[][], keep: {x:number, y:number}[]): CellType[][] {
+    const keepSet = new Set(keep.map(c => `${c.x},${c.y}`));
+    return genes.map((row, y) => row.map((cell, x) => keepSet.has(`${x},${y}`) ? cell : CellType.EMPTY));
+}
+
+// Same genome limited to `cells` (e.g. the part of a body left after it was severed)
+export function restrictGenome(genome: Genome, cells: {x:number, y:number}[]): Genome {
+    return { ...genome, genes: maskGenes(genome.genes, cells) };
 }
 
 /**
@@ -239,7 +276,7 @@ export function pruneGenome(genome: Genome, retentionRateOrTarget: number = 0.15
     targetSize = Math.max(3, Math.min(activeCells.length, targetSize));
 
     // Pick a random seed cell to keep
-    const seedIndex = Math.floor(Math.random() * activeCells.length);
+    const seedIndex = rng.int(activeCells.length);
     const seed = activeCells[seedIndex];
     
     // BFS to find connected neighbors to keep (grow seed to target size)
@@ -260,7 +297,7 @@ export function pruneGenome(genome: Genome, retentionRateOrTarget: number = 0.15
 
         // Shuffle neighbors to avoid directional bias in pruning
         for (let i = neighbors.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
+            const j = rng.int(i + 1);
             [neighbors[i], neighbors[j]] = [neighbors[j], neighbors[i]];
         }
 
@@ -293,7 +330,39 @@ export function pruneGenome(genome: Genome, retentionRateOrTarget: number = 0.15
 }
 
 // Finds a valid empty spot next to existing structure and adds a random cell
-export function addStructuralNode(genome: Genome): { newGenome: Genome, addedX: number, addedY: number } | null {
+const touchesBorder = (genes: CellType[][]) => {
+    const last = genes.length - 1;
+    return genes.some((row, y) => row.some((cell, x) =>
+        cell !== CellType.EMPTY && (x === 0 || y === 0 || x === last || y === last)));
+};
+
+// Pad the grid (and target morphology) with `pad` empty cells on every side.
+// Existing cells move by +pad on both axes.
+export function expandGrid(genome: Genome, pad: number = 1): Genome {
+    const size = genome.gridSize + pad * 2;
+    const grow = (grid: CellType[][]) => {
+        const out: CellType[][] = Array.from({ length: size }, () => Array(size).fill(CellType.EMPTY));
+        grid.forEach((row, y) => row.forEach((cell, x) => { out[y + pad][x + pad] = cell; }));
+        return out;
+    };
+    return {
+        ...genome,
+        gridSize: size,
+        genes: grow(genome.genes),
+        targetGenes: genome.targetGenes && grow(genome.targetGenes)
+    };
+}
+
+// Expand-on-edge: a body touching the grid border first gets a fresh ring of empty cells
+// (up to MAX_GRID_SIZE), so growth isn't capped by the grid. Existing coordinates shift
+// by `offset` when that happens.
+export function addStructuralNode(genome: Genome, rates: MutationConfig = DEFAULT_CONFIG.mutation): { newGenome: Genome, addedX: number, addedY: number, offset: number } | null {
+    let offset = 0;
+    if (touchesBorder(genome.genes) && genome.gridSize + 2 <= MAX_GRID_SIZE) {
+        genome = expandGrid(genome, 1);
+        offset = 1;
+    }
+
     const newGenes = genome.genes.map(row => [...row]);
     const candidates: {x: number, y: number}[] = [];
     
@@ -318,176 +387,922 @@ export function addStructuralNode(genome: Genome): { newGenome: Genome, addedX:
     
     if (candidates.length === 0) return null;
     
-    const target = candidates[Math.floor(Math.random() * candidates.length)];
+    const target = candidates[rng.int(candidates.length)];
     
-    // 50% Skin, 30% Muscle, 20% Neuron
-    const r = Math.random();
+    // Cell type by the nodeSkin / nodeHeart / nodeNeuron weights
+    const total = rates.nodeSkin + rates.nodeHeart + rates.nodeNeuron;
+    const r = rng.next() * total;
     let type = CellType.SKIN;
-    if (r > 0.5) type = CellType.HEART;
-    if (r > 0.8) type = CellType.NEURON;
+    if (r >= rates.nodeSkin) type = CellType.HEART;
+    if (r >= rates.nodeSkin + rates.nodeHeart) type = CellType.NEURON;
     
     newGenes[target.y][target.x] = type;
     
     return {
         newGenome: { ...genome, genes: newGenes },
         addedX: target.x,
-        addedY: target.y
+        addedY: target.y,
+        offset
     };
 }
 
-function crossover(parentA: Genome, parentB: Genome, generation: number): Genome {
-  const newGenes: CellType[][] = [];
-  const size = parentA.gridSize;
+// CPPN parents recombine their networks, which keeps body structure intact, so no pruning
+// is needed. A mixed pair can't recombine across encodings, so the fitter parent is copied.
+function crossoverIndirect(parentA: Genome, parentB: Genome, generation: number): Genome {
+  const [primary, secondary] = parentA.fitness >= parentB.fitness ? [parentA, parentB] : [parentB, parentA];
+  const child: Genome = {
+    id: rng.id(9),
+    gridSize: primary.gridSize,
+    genes: primary.genes.map(row => [...row]),
+    fitness: 0,
+    generation,
+    color: primary.color,
+    strainId: parentA.strainId,
+    bioelectricMemory: (parentA.bioelectricMemory + parentB.bioelectricMemory) / 2,
+    controller: crossoverController(parentA.controller, parentB.controller),
+    originX: parentA.originX,
+    originY: parentA.originY
+  };
+  if (!primary.cppn) return child;
+
+  const cppn = secondary.cppn ? crossoverCppn(primary.cppn, secondary.cppn) : cloneCppn(primary.cppn);
+  return expressCppn({ ...child, cppn });
+}
+
+// Copy a genome's cells into a size x size frame with its cell centroid on the frame
+// center, so parents of different grid sizes (or offset bodies) line up for crossover.
+// Cells shifted outside the frame are dropped.
+function alignGenes(genome: Genome, size: number): CellType[][] {
+  let sumX = 0, sumY = 0, count = 0;
+  for (let y = 0; y < genome.gridSize; y++) {
+    for (let x = 0; x < genome.gridSize; x++) {
+      if (genome.genes[y][x] === CellType.EMPTY) continue;
+      sumX += x;
+      sumY += y;
+      count++;
+    }
+  }
 
-  for (let y = 0; y < size; y++) {
-    const row: CellType[] = [];
-    for (let x = 0; x < size; x++) {
-      row.push(Math.random() > 0.5 ? parentA.genes[y][x] : parentB.genes[y][x]);
+  const frameCenter = (size - 1) / 2;
+  const dx = count > 0 ? Math.round(frameCenter - sumX / count) : 0;
+  const dy = count > 0 ? Math.round(frameCenter - sumY / count) : 0;
+  const frame: CellType[][] = Array.from({ length: size }, () => Array(size).fill(CellType.EMPTY));
+  for (let y = 0; y < genome.gridSize; y++) {
+    for (let x = 0; x < genome.gridSize; x++) {
+      const tx = x + dx, ty = y + dy;
+      if (tx >= 0 && tx < size && ty >= 0 && ty < size) frame[ty][tx] = genome.genes[y][x];
     }
-    newGenes.push(row);
   }
+  return frame;
+}
+
+export function crossover(
+  parentA: Genome,
+  parentB: Genome,
+  generation: number,
+  weights: Record<CrossoverMode, number> = DEFAULT_CONFIG.crossoverWeights
+): Genome {
+  if (parentA.cppn || parentB.cppn) return crossoverIndirect(parentA, parentB, generation);
 
-  const color = Math.random() > 0.5 ? parentA.color : parentB.color;
+  const size = Math.max(parentA.gridSize, parentB.gridSize);
+  const genesA = alignGenes(parentA, size);
+  const genesB = alignGenes(parentB, size);
+  const mode = pickCrossoverMode(weights);
 
-  const child = {
-    id: Math.random().toString(36).substr(2, 9),
+  const color = rng.next() > 0.5 ? parentA.color : parentB.color;
+
+  const child: Genome = {
+    id: rng.id(9),
     gridSize: size,
-    genes: newGenes,
+    genes: RECOMBINERS[mode](genesA, genesB),
     fitness: 0,
     generation,
     color,
+    strainId: parentA.strainId,
     bioelectricMemory: (parentA.bioelectricMemory + parentB.bioelectricMemory) / 2,
+    controller: crossoverController(parentA.controller, parentB.controller),
     originX: parentA.originX,
-    originY: parentA.originY
+    originY: parentA.originY,
+    crossoverMode: mode
   };
 
   let processed = enforceContiguity(child);
-  // Crossover usually results in large chaotic structures, prune to stable size ~8 (smaller than before)
-  return pruneGenome(processed, 8); 
+  // Uniform crossover usually results in large chaotic structures, prune to stable size ~8 (smaller than before)
+  if (mode === 'UNIFORM') return pruneGenome(processed, 8);
+  // The structural modes keep whole body parts, so they're only trimmed to the larger parent
+  const limit = Math.max(countCells(parentA.genes), countCells(parentB.genes));
+  return countCells(processed.genes) > limit ? pruneGenome(processed, limit) : processed;
 }
 
-export function mutate(genome: Genome): Genome {
-  const newGenes = genome.genes.map(row => [...row]);
-  let mutated = false;
-  
-  // 1. Structural Growth / Decay
-  if (Math.random() < 0.3) {
-    for (let y = 1; y < genome.gridSize - 1; y++) {
-      for (let x = 1; x < genome.gridSize - 1; x++) {
-        if (newGenes[y][x] === CellType.EMPTY && Math.random() < 0.1) {
-            const neighbors = [newGenes[y+1][x], newGenes[y-1][x], newGenes[y][x+1], newGenes[y][x-1]];
-            if (neighbors.some(n => n !== CellType.EMPTY)) {
-                newGenes[y][x] = Math.random() > 0.5 ? CellType.SKIN : CellType.NEURON;
-                mutated = true;
-            }
-        }
-      }
+// --- Crossover Modes ---
+// Each recombiner takes both parents aligned on the same frame (see alignGenes) and returns
+// the child's cells; crossover() then keeps the largest connected piece.
+
+export const CROSSOVER_MODES: CrossoverMode[] = ['UNIFORM', 'SINGLE_POINT', 'BLOCK', 'GRAFT'];
+
+export function emptyCrossoverStats(): CrossoverStats {
+  return Object.fromEntries(CROSSOVER_MODES.map(mode => [mode, { born: 0, survived: 0 }])) as CrossoverStats;
+}
+
+// Weighted draw; falls back to UNIFORM when every mode is off
+function pickCrossoverMode(weights: Record<CrossoverMode, number>): CrossoverMode {
+  const total = CROSSOVER_MODES.reduce((sum, mode) => sum + Math.max(0, weights[mode]), 0);
+  if (total <= 0) return 'UNIFORM';
+  let roll = rng.next() * total;
+  for (const mode of CROSSOVER_MODES) {
+    roll -= Math.max(0, weights[mode]);
+    if (roll < 0) return mode;
+  }
+  return 'UNIFORM';
+}
+
+// Bounding box of the cells filled in either grid
+function occupiedBounds(a: CellType[][], b: CellType[][]) {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (let y = 0; y < a.length; y++) {
+    for (let x = 0; x < a.length; x++) {
+      if (a[y][x] === CellType.EMPTY && b[y][x] === CellType.EMPTY) continue;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
     }
   }
+  return minX <= maxX ? { minX, maxX, minY, maxY } : { minX: 0, maxX: a.length - 1, minY: 0, maxY: a.length - 1 };
+}
 
-  // 3. Random Noise Mutation
-  for (let y = 0; y < genome.gridSize; y++) {
-    for (let x = 0; x < genome.gridSize; x++) {
-      if (Math.random() < 0.05) {
-        const types = [CellType.EMPTY, CellType.SKIN, CellType.HEART, CellType.NEURON];
-        newGenes[y][x] = types[Math.floor(Math.random() * types.length)];
-        mutated = true;
-      }
+// A cut strictly inside [min, max], so both sides of it hold part of a body
+const pickCut = (min: number, max: number) => (max > min ? min + 1 + rng.int(max - min) : min);
+
+function uniformCells(a: CellType[][], b: CellType[][]): CellType[][] {
+  return a.map((row, y) => row.map((cell, x) => (rng.next() > 0.5 ? cell : b[y][x])));
+}
+
+// Rows (or columns) before the cut come from A, the rest from B
+function singlePointCells(a: CellType[][], b: CellType[][]): CellType[][] {
+  const bounds = occupiedBounds(a, b);
+  const byRow = rng.next() < 0.5;
+  const cut = byRow ? pickCut(bounds.minY, bounds.maxY) : pickCut(bounds.minX, bounds.maxX);
+  return a.map((row, y) => row.map((cell, x) => ((byRow ? y : x) < cut ? cell : b[y][x])));
+}
+
+// B with one quadrant, split at a random point inside the bodies, taken from A
+function blockCells(a: CellType[][], b: CellType[][]): CellType[][] {
+  const bounds = occupiedBounds(a, b);
+  const splitX = pickCut(bounds.minX, bounds.maxX);
+  const splitY = pickCut(bounds.minY, bounds.maxY);
+  const left = rng.next() < 0.5, top = rng.next() < 0.5;
+  return a.map((row, y) => row.map((cell, x) => ((x < splitX) === left && (y < splitY) === top ? cell : b[y][x])));
+}
+
+// A connected region of A (breadth-first from a random cell, up to half its body) attached
+// to B: placed where it was in the aligned frame, or slid toward B's centroid until it
+// touches B. Region cells overwrite B's.
+function graftCells(a: CellType[][], b: CellType[][]): CellType[][] {
+  const size = a.length;
+  const child = b.map(row => [...row]);
+  const cellsA = livingCells(a);
+  if (cellsA.length === 0) return child;
+
+  const target = Math.max(2, Math.ceil(cellsA.length * (0.25 + rng.next() * 0.25)));
+  const seed = rng.pick(cellsA);
+  const region: CellEdit[] = [];
+  const visited = new Set([`${seed.x},${seed.y}`]);
+  const queue = [seed];
+  while (queue.length > 0 && region.length < target) {
+    const curr = queue.shift()!;
+    region.push(curr);
+    for (const [nx, ny] of [[curr.x + 1, curr.y], [curr.x - 1, curr.y], [curr.x, curr.y + 1], [curr.x, curr.y - 1]]) {
+      if (nx < 0 || nx >= size || ny < 0 || ny >= size || visited.has(`${nx},${ny}`)) continue;
+      visited.add(`${nx},${ny}`);
+      if (a[ny][nx] !== CellType.EMPTY) queue.push({ x: nx, y: ny, cell: a[ny][nx] });
+    }
+  }
+
+  const filled = (x: number, y: number) => x >= 0 && x < size && y >= 0 && y < size && b[y][x] !== CellType.EMPTY;
+  const touches = (dx: number, dy: number) => region.some(({ x, y }) => {
+    const tx = x + dx, ty = y + dy;
+    return filled(tx, ty) || filled(tx + 1, ty) || filled(tx - 1, ty) || filled(tx, ty + 1) || filled(tx, ty - 1);
+  });
+  const centroid = (cells: { x: number, y: number }[]) => ({
+    x: cells.reduce((sum, c) => sum + c.x, 0) / cells.length,
+    y: cells.reduce((sum, c) => sum + c.y, 0) / cells.length
+  });
+
+  const cellsB = livingCells(b);
+  let dx = 0, dy = 0;
+  if (cellsB.length > 0) {
+    const from = centroid(region), to = centroid(cellsB);
+    const goalX = Math.round(to.x - from.x), goalY = Math.round(to.y - from.y);
+    while (!touches(dx, dy) && (dx !== goalX || dy !== goalY)) {
+      if (Math.abs(goalX - dx) >= Math.abs(goalY - dy)) dx += Math.sign(goalX - dx);
+      else dy += Math.sign(goalY - dy);
     }
   }
 
+  region.forEach(({ x, y, cell }) => {
+    const tx = x + dx, ty = y + dy;
+    if (tx >= 0 && tx < size && ty >= 0 && ty < size) child[ty][tx] = cell;
+  });
+  return child;
+}
+
+const RECOMBINERS: Record<CrossoverMode, (a: CellType[][], b: CellType[][]) => CellType[][]> = {
+  UNIFORM: uniformCells,
+  SINGLE_POINT: singlePointCells,
+  BLOCK: blockCells,
+  GRAFT: graftCells
+};
+
+// Lineage of a mutant: by default a single-parent birth from the input genome
+export interface MutationLineage {
+  cause: BirthCause;
+  parentIds?: string[];
+}
+
+export function mutate(genome: Genome, lineage: MutationLineage, rates: MutationConfig = DEFAULT_CONFIG.mutation): Genome {
+  const newGenes = genome.genes.map(row => [...row]);
+  const edits = new Map<MutationOperator, CellEdit[]>();
+
+  // Indirect genomes mutate their network and re-express it instead of editing cells
+  const cppn = genome.cppn && mutateCppn(genome.cppn);
+
+  const apply = (op: MutationOperator, chance: number, operator: (genes: CellType[][]) => CellEdit[]) => {
+    if (cppn || rng.next() >= chance) return;
+    const made = operator(newGenes);
+    if (made.length > 0) edits.set(op, made);
+  };
+
+  apply('GROWTH', rates.growth, genes => growCells(genes, rates.growthFill));
+  if (!cppn) {
+    const noise = randomizeCells(newGenes, rates.noise);
+    if (noise.length > 0) edits.set('NOISE', noise);
+  }
+  apply('SWAP', rates.swap, swapCells);
+  apply('MIRROR', rates.mirror, mirrorBody);
+  apply('TRANSLOCATION', rates.translocation, translocateLimb);
+  apply('DELETION', rates.deletion, deleteCell);
+  apply('CONVERSION', rates.conversion, convertCell);
+
   let newMemory = genome.bioelectricMemory;
-  if (Math.random() < 0.2) {
-      newMemory += (Math.random() * 0.2 - 0.1);
+  const drifted = rng.next() < rates.memoryDrift;
+  if (drifted) {
+      newMemory += (rng.next() * 0.2 - 0.1);
       newMemory = Math.max(0.01, Math.min(1.0, newMemory));
-      mutated = true;
   }
+  const mutated = !!cppn || drifted || edits.size > 0;
 
   const mutatedGenome = {
     ...genome,
-    id: Math.random().toString(36).substr(2, 9),
+    id: rng.id(9),
     genes: newGenes,
     bioelectricMemory: newMemory,
+    controller: genome.controller && mutateController(genome.controller),
+    cppn,
     color: mutated ? adjustColor(genome.color) : genome.color,
+    parentIds: lineage.parentIds ?? [genome.id],
+    birthCause: lineage.cause,
+    crossoverMode: lineage.cause === 'CROSSOVER' ? genome.crossoverMode : undefined
+  };
+
+  const result = cppn ? expressCppn(mutatedGenome) : enforceContiguity(mutatedGenome);
+  const operators = [...edits.keys()];
+  const accepted = operators.filter(op => edits.get(op)!.some(e => result.genes[e.y]?.[e.x] === e.cell));
+  if (drifted) {
+    operators.push('MEMORY_DRIFT');
+    accepted.push('MEMORY_DRIFT');
+  }
+  result.mutations = {
+    cellsChanged: countCellChanges(genome.genes, result.genes),
+    memoryDelta: newMemory - genome.bioelectricMemory,
+    networkChanged: !!cppn,
+    operators,
+    accepted
   };
+  return result;
+}
+
+// --- Cell Mutation Operators ---
+// Each edits the grid in place and returns the cells it wrote (none = it had nothing to do).
+// mutate() repairs contiguity afterwards, so operators may leave fragments behind.
+
+interface CellEdit { x: number, y: number, cell: CellType }
+
+const LIVING_TYPES = [CellType.SKIN, CellType.HEART, CellType.NEURON];
+
+const livingCells = (genes: CellType[][]): CellEdit[] => {
+  const cells: CellEdit[] = [];
+  genes.forEach((row, y) => row.forEach((cell, x) => {
+    if (cell !== CellType.EMPTY) cells.push({ x, y, cell });
+  }));
+  return cells;
+};
+
+const writeCell = (genes: CellType[][], x: number, y: number, cell: CellType): CellEdit => {
+  genes[y][x] = cell;
+  return { x, y, cell };
+};
+
+// Empty interior cells beside the body fill with SKIN or NEURON
+function growCells(genes: CellType[][], fill: number): CellEdit[] {
+  const edits: CellEdit[] = [];
+  const size = genes.length;
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      if (genes[y][x] === CellType.EMPTY && rng.next() < fill) {
+          const neighbors = [genes[y+1][x], genes[y-1][x], genes[y][x+1], genes[y][x-1]];
+          if (neighbors.some(n => n !== CellType.EMPTY)) {
+              edits.push(writeCell(genes, x, y, rng.next() > 0.5 ? CellType.SKIN : CellType.NEURON));
+          }
+      }
+    }
+  }
+  return edits;
+}
 
-  return enforceContiguity(mutatedGenome);
+// Every cell independently re-rolled at `rate`; rolls that land on the same type are no edit
+function randomizeCells(genes: CellType[][], rate: number): CellEdit[] {
+  const edits: CellEdit[] = [];
+  const types = [CellType.EMPTY, ...LIVING_TYPES];
+  genes.forEach((row, y) => row.forEach((cell, x) => {
+    if (rng.next() >= rate) return;
+    const next = types[rng.int(types.length)];
+    if (next !== cell) edits.push(writeCell(genes, x, y, next));
+  }));
+  return edits;
+}
+
+function swapCells(genes: CellType[][]): CellEdit[] {
+  const cells = livingCells(genes);
+  if (cells.length < 2) return [];
+  const a = rng.pick(cells);
+  const others = cells.filter(c => c.cell !== a.cell);
+  if (others.length === 0) return [];
+  const b = rng.pick(others);
+  return [writeCell(genes, a.x, a.y, b.cell), writeCell(genes, b.x, b.y, a.cell)];
+}
+
+// Reflect one half of the bounding box onto the other, across a random axis
+function mirrorBody(genes: CellType[][]): CellEdit[] {
+  const cells = livingCells(genes);
+  if (cells.length === 0) return [];
+  const horizontal = rng.next() < 0.5;
+  const fromLow = rng.next() < 0.5;
+  const coord = (c: CellEdit) => (horizontal ? c.x : c.y);
+  const sum = Math.min(...cells.map(coord)) + Math.max(...cells.map(coord));
+
+  const edits: CellEdit[] = [];
+  cells.forEach(c => {
+    const onSource = fromLow ? coord(c) * 2 < sum : coord(c) * 2 > sum;
+    if (!onSource) return;
+    const x = horizontal ? sum - c.x : c.x;
+    const y = horizontal ? c.y : sum - c.y;
+    if (genes[y][x] !== c.cell) edits.push(writeCell(genes, x, y, c.cell));
+  });
+  return edits;
+}
+
+// Cut a limb of 1-3 connected cells and reattach it, same shape, at an empty spot beside the
+// rest of the body. Cells that would land off the grid or on the body are lost.
+function translocateLimb(genes: CellType[][]): CellEdit[] {
+  const cells = livingCells(genes);
+  if (cells.length < 4) return [];
+  const size = genes.length;
+  const key = (x: number, y: number) => `${x},${y}`;
+  const living = new Map(cells.map(c => [key(c.x, c.y), c]));
+
+  const seed = rng.pick(cells);
+  const limb = [seed];
+  const inLimb = new Set([key(seed.x, seed.y)]);
+  const limbSize = 1 + rng.int(3);
+  for (let i = 0; i < limb.length && limb.length < limbSize; i++) {
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const next = living.get(key(limb[i].x + dx, limb[i].y + dy));
+      if (next && !inLimb.has(key(next.x, next.y)) && limb.length < limbSize) {
+        limb.push(next);
+        inLimb.add(key(next.x, next.y));
+      }
+    }
+  }
+
+  const anchors: { x: number, y: number }[] = [];
+  cells.forEach(c => {
+    if (inLimb.has(key(c.x, c.y))) return;
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const x = c.x + dx, y = c.y + dy;
+      if (x >= 0 && x < size && y >= 0 && y < size && !living.has(key(x, y))) anchors.push({ x, y });
+    }
+  });
+  if (anchors.length === 0) return [];
+
+  const anchor = rng.pick(anchors);
+  const edits = limb.map(c => writeCell(genes, c.x, c.y, CellType.EMPTY));
+  limb.forEach(c => {
+    const x = c.x + anchor.x - seed.x, y = c.y + anchor.y - seed.y;
+    if (x >= 0 && x < size && y >= 0 && y < size && genes[y][x] === CellType.EMPTY) edits.push(writeCell(genes, x, y, c.cell));
+  });
+  return edits;
+}
+
+// Keeps at least three cells
+function deleteCell(genes: CellType[][]): CellEdit[] {
+  const cells = livingCells(genes);
+  if (cells.length <= 3) return [];
+  const c = rng.pick(cells);
+  return [writeCell(genes, c.x, c.y, CellType.EMPTY)];
+}
+
+function convertCell(genes: CellType[][]): CellEdit[] {
+  const cells = livingCells(genes);
+  if (cells.length === 0) return [];
+  const c = rng.pick(cells);
+  return [writeCell(genes, c.x, c.y, rng.pick(LIVING_TYPES.filter(t => t !== c.cell)))];
+}
+
+export const MUTATION_OPERATORS: MutationOperator[] = ['GROWTH', 'NOISE', 'MEMORY_DRIFT', 'SWAP', 'MIRROR', 'TRANSLOCATION', 'DELETION', 'CONVERSION'];
+
+export function emptyMutationStats(): MutationStats {
+  return Object.fromEntries(MUTATION_OPERATORS.map(op => [op, { applied: 0, accepted: 0 }])) as MutationStats;
+}
+
+// Cells that differ between two grids; cells outside the smaller grid count when filled
+function countCellChanges(before: CellType[][], after: CellType[][]): number {
+  let changes = 0;
+  const size = Math.max(before.length, after.length);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if ((before[y]?.[x] ?? CellType.EMPTY) !== (after[y]?.[x] ?? CellType.EMPTY)) changes++;
+    }
+  }
+  return changes;
+}
+
+// The config fields that shape an offspring
+type VariationSettings = Pick<SimulationConfig, 'mutation' | 'crossoverWeights'>;
+
+// Sexual offspring: crossover, then mutation, with both parents on record (once when selfed)
+function reproduce(parentA: Genome, parentB: Genome, generation: number, variation: VariationSettings): Genome {
+  const parentIds = parentA.id === parentB.id ? [parentA.id] : [parentA.id, parentB.id];
+  const child = crossover(parentA, parentB, generation, variation.crossoverWeights);
+  return mutate(child, { cause: 'CROSSOVER', parentIds }, variation.mutation);
+}
+
+// --- Neural Controller Genes ---
+
+const clampWeight = (w: number) => Math.max(-CONTROLLER_WEIGHT_LIMIT, Math.min(CONTROLLER_WEIGHT_LIMIT, w));
+const clampTau = (t: number) => Math.max(CONTROLLER_TAU_RANGE[0], Math.min(CONTROLLER_TAU_RANGE[1], t));
+
+const cloneController = (c: ControllerGenes): ControllerGenes => ({
+    size: c.size,
+    weights: [...c.weights],
+    inputWeights: [...c.inputWeights],
+    biases: [...c.biases],
+    timeConstants: [...c.timeConstants]
+});
+
+// Small random weights keep a fresh controller near the neutral rhythm (outputs ~0.5)
+export function createRandomController(size: number = CONTROLLER_SIZE): ControllerGenes {
+    const uniform = (count: number, spread: number) => Array.from({ length: count }, () => (rng.next() * 2 - 1) * spread);
+    const [minTau, maxTau] = CONTROLLER_TAU_RANGE;
+    return {
+        size,
+        weights: uniform(size * size, 1.0),
+        inputWeights: uniform(size * CONTROLLER_INPUTS, 1.0),
+        biases: uniform(size, 0.5),
+        timeConstants: Array.from({ length: size }, () => minTau + rng.next() * (maxTau - minTau))
+    };
+}
+
+// Each parameter has a small chance of a uniform nudge; time constants scale multiplicatively
+export function mutateController(controller: ControllerGenes, rate: number = 0.1): ControllerGenes {
+    const nudge = (values: number[]) => values.map(w => rng.next() < rate ? clampWeight(w + (rng.next() * 2 - 1) * 0.5) : w);
+    return {
+        size: controller.size,
+        weights: nudge(controller.weights),
+        inputWeights: nudge(controller.inputWeights),
+        biases: nudge(controller.biases),
+        timeConstants: controller.timeConstants.map(t => rng.next() < rate ? clampTau(t * (0.75 + rng.next() * 0.5)) : t)
+    };
+}
+
+// Uniform crossover per node, so each node keeps its incoming weights, bias and time
+// constant together. Mismatched or missing controllers are inherited whole.
+export function crossoverController(a?: ControllerGenes, b?: ControllerGenes): ControllerGenes | undefined {
+    if (!a || !b) {
+        const only = a ?? b;
+        return only && cloneController(only);
+    }
+    if (a.size !== b.size) return cloneController(rng.next() > 0.5 ? a : b);
+
+    const child: ControllerGenes = { size: a.size, weights: [], inputWeights: [], biases: [], timeConstants: [] };
+    for (let i = 0; i < a.size; i++) {
+        const src = rng.next() > 0.5 ? a : b;
+        child.weights.push(...src.weights.slice(i * a.size, (i + 1) * a.size));
+        child.inputWeights.push(...src.inputWeights.slice(i * CONTROLLER_INPUTS, (i + 1) * CONTROLLER_INPUTS));
+        child.biases.push(src.biases[i]);
+        child.timeConstants.push(src.timeConstants[i]);
+    }
+    return child;
 }
 
 function adjustColor(hsl: string): string {
     const match = hsl.match(/hsl\((\d+\.?\d*),\s*(\d+)%,\s*(\d+)%\)/);
     if (!match) return hsl;
     let h = parseFloat(match[1]);
-    h = (h + (Math.random() * 20 - 10)) % 360; 
+    h = (h + (rng.next() * 20 - 10)) % 360; 
     if (h < 0) h += 360;
     return `hsl(${h.toFixed(0)}, ${match[2]}%, ${match[3]}%)`;
 }
 
-const isGroupA = (g: Genome) => {
-    const match = g.color.match(/hsl\((\d+\.?\d*)/);
-    if(!match) return false;
-    const h = parseFloat(match[1]);
-    return (h > 150 && h < 230);
+// Distribution of fitness across a scored population (for reports and batch stats)
+export function summarizeFitness(population: Genome[]): FitnessSummary {
+  const values = population.map(g => g.fitness).filter(f => Number.isFinite(f)).sort((a, b) => a - b);
+  const n = values.length;
+  if (n === 0) return { min: 0, max: 0, mean: 0, median: 0, stdDev: 0 };
+
+  const mean = values.reduce((sum, f) => sum + f, 0) / n;
+  const variance = values.reduce((sum, f) => sum + (f - mean) * (f - mean), 0) / n;
+  const mid = Math.floor(n / 2);
+  const median = n % 2 === 0 ? (values[mid - 1] + values[mid]) / 2 : values[mid];
+
+  return { min: values[0], max: values[n - 1], mean, median, stdDev: Math.sqrt(variance) };
+}
+
+// Novelty scores of a population scored in NOVELTY mode, with the archive size after scoring
+export function summarizeNovelty(population: Genome[], archiveSize: number): NoveltySummary {
+  const values = population.map(g => g.novelty ?? 0).filter(v => Number.isFinite(v));
+  if (values.length === 0) return { archiveSize, mean: 0, best: 0 };
+  return { archiveSize, mean: values.reduce((sum, v) => sum + v, 0) / values.length, best: Math.max(...values) };
+}
+
+// Per-encoding head count and fitness distribution, for comparing DIRECT and CPPN genomes
+export function summarizeEncodings(population: Genome[]): Record<GenomeEncoding, EncodingSummary> {
+  const summarize = (encoding: GenomeEncoding): EncodingSummary => {
+    const members = population.filter(g => genomeEncoding(g) === encoding);
+    return { count: members.length, fitness: summarizeFitness(members) };
+  };
+  return { DIRECT: summarize('DIRECT'), CPPN: summarize('CPPN') };
+}
+
+// --- Speciation ---
+// NEAT-style niching inside each strain: genomes are grouped by compatibility distance,
+// share fitness with their species mates, and each species breeds only within itself.
+// A dominant morphology can then fill its own niche but not crowd out the others.
+
+interface Niche {
+  species: Species;
+  members: Genome[];
+}
+
+// What survival and parent choice rank genomes by. Plain fitness except in NOVELTY mode,
+// where it is the blended score; fitness itself is never overwritten.
+type SelectionScore = (genome: Genome) => number;
+const rawFitness: SelectionScore = g => g.fitness;
+
+// Fraction of occupied cells whose type differs once both bodies are centered on each
+// other, plus the weighted gap in bioelectricMemory
+export function compatibilityDistance(a: Genome, b: Genome): number {
+  const size = Math.max(a.gridSize, b.gridSize);
+  const genesA = alignGenes(a, size);
+  const genesB = alignGenes(b, size);
+  let occupied = 0, mismatched = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (genesA[y][x] === CellType.EMPTY && genesB[y][x] === CellType.EMPTY) continue;
+      occupied++;
+      if (genesA[y][x] !== genesB[y][x]) mismatched++;
+    }
+  }
+  const structural = occupied > 0 ? mismatched / occupied : 0;
+  return structural + COMPATIBILITY_MEMORY_WEIGHT * Math.abs(a.bioelectricMemory - b.bioelectricMemory);
+}
+
+// Each genome joins the first species whose representative is compatible, or founds a
+// new one. Species keep their ID across generations; a random member represents each
+// species next time, and species that found no members are dropped.
+function speciate(pool: Genome[], previous: Species[], nextId: () => number): Niche[] {
+  const niches: Niche[] = previous.map(species => ({ species: { ...species }, members: [] }));
+  pool.forEach(genome => {
+      let niche = niches.find(n => compatibilityDistance(genome, n.species.representative) < COMPATIBILITY_THRESHOLD);
+      if (!niche) {
+          const id = nextId();
+          niche = {
+              species: {
+                  id,
+                  strainId: genome.strainId,
+                  hue: (id * 137.5) % 360, // Golden-angle spacing keeps neighbouring IDs distinct
+                  representative: genome,
+                  size: 0,
+                  offspring: 0,
+                  bestFitness: genome.fitness,
+                  staleGenerations: -1 // The update below counts the founding generation
+              },
+              members: []
+          };
+          niches.push(niche);
+      }
+      niche.members.push(genome);
+  });
+
+  const occupied = niches.filter(n => n.members.length > 0);
+  occupied.forEach(({ species, members }) => {
+      const best = members.reduce((max, g) => Math.max(max, g.fitness), -Infinity);
+      if (best > species.bestFitness) {
+          species.bestFitness = best;
+          species.staleGenerations = 0;
+      } else {
+          species.staleGenerations++;
+      }
+      species.size = members.length;
+      species.representative = rng.pick(members);
+  });
+  return occupied;
+}
+
+// Split `slots` between species by shared score: every member's selection score (shifted to
+// be positive) divided by its species' size, summed per species. Species stagnant for
+// SPECIES_STAGNATION_LIMIT generations get nothing unless they hold this generation's best genome.
+function allocateOffspring(niches: Niche[], slots: number, score: SelectionScore) {
+  const floor = niches.reduce((min, n) => n.members.reduce((m, g) => Math.min(m, score(g)), min), Infinity);
+  const bestMember = (n: Niche) => n.members.reduce((max, g) => Math.max(max, g.fitness), -Infinity);
+  const champion = niches.reduce((best, n) => bestMember(n) > bestMember(best) ? n : best);
+
+  const shares = niches.map(n => {
+      if (n !== champion && n.species.staleGenerations >= SPECIES_STAGNATION_LIMIT) return 0;
+      return n.members.reduce((sum, g) => sum + (score(g) - floor + 1) / n.members.length, 0);
+  });
+  const total = shares.reduce((sum, x) => sum + x, 0);
+
+  // Largest-remainder rounding so the quotas add up to exactly `slots`
+  const exact = shares.map(x => total > 0 ? (x / total) * slots : 0);
+  const quotas = exact.map(Math.floor);
+  let remaining = slots - quotas.reduce((sum, q) => sum + q, 0);
+  exact
+      .map((x, i) => ({ i, fraction: x - Math.floor(x) }))
+      .sort((a, b) => b.fraction - a.fraction)
+      .forEach(({ i }) => {
+          if (remaining <= 0) return;
+          quotas[i]++;
+          remaining--;
+      });
+
+  niches.forEach((n, i) => { n.species.offspring = quotas[i]; });
+}
+
+// --- Multi-objective Selection (NSGA-II) ---
+// Ranks genomes by Pareto dominance over the objectives in the fitness weights instead of
+// their weighted sum, so trade-offs (fast but hungry, slow but frugal) survive side by side.
+
+// Objectives with a nonzero weight, negated where the weight is negative so every entry is
+// maximized. The weight's magnitude plays no part in Pareto ranking.
+const objectiveVector = (genome: Genome, weights: FitnessWeights): number[] =>
+  (Object.keys(weights) as FitnessObjective[])
+    .filter(id => weights[id])
+    .map(id => Math.sign(weights[id]!) * (genome.objectives?.[id] ?? 0));
+
+const dominates = (a: number[], b: number[]): boolean => {
+  let better = false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return false;
+    if (a[i] > b[i]) better = true;
+  }
+  return better;
 };
 
-export function evolvePopulation(population: Genome[], generation: number, maxPopulationSize: number): Genome[] {
-  const poolA = population.filter(isGroupA);
-  const poolB = population.filter(g => !isGroupA(g));
+// Fast non-dominated sort. Returns each point's front index (0 = the Pareto front).
+export function paretoRanks(points: number[][]): number[] {
+  const dominatedCount = points.map(() => 0);
+  const dominating: number[][] = points.map(() => []);
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      if (dominates(points[i], points[j])) {
+        dominating[i].push(j);
+        dominatedCount[j]++;
+      } else if (dominates(points[j], points[i])) {
+        dominating[j].push(i);
+        dominatedCount[i]++;
+      }
+    }
+  }
 
-  const maxPerGroup = Math.floor(maxPopulationSize / 2);
-  
-  const evolveSubPool = (pool: Genome[], currentMax: number): Genome[] => {
-      if (pool.length === 0) return [];
-      const sorted = [...pool].sort((a, b) => b.fitness - a.fitness);
-      
-      // Determine how many offspring to generate (10% growth per generation)
-      const growthTarget = Math.max(1, Math.floor(pool.length * 0.10));
-      
-      // Keep survivors (parents) but truncate if we exceed cap
-      // This ensures populations don't explode infinitely
-      let survivors = [...sorted];
-      if (survivors.length > currentMax) {
-          survivors = survivors.slice(0, currentMax);
+  const ranks = points.map(() => 0);
+  let front = points.map((_, i) => i).filter(i => dominatedCount[i] === 0);
+  for (let rank = 0; front.length > 0; rank++) {
+    const next: number[] = [];
+    front.forEach(i => {
+      ranks[i] = rank;
+      dominating[i].forEach(j => {
+        if (--dominatedCount[j] === 0) next.push(j);
+      });
+    });
+    front = next;
+  }
+  return ranks;
+}
+
+// Per front: boundary points get Infinity, the rest sum the normalized gap between their
+// neighbours on each objective (larger = less crowded)
+export function crowdingDistances(points: number[][], ranks: number[]): number[] {
+  const distances = points.map(() => 0);
+  const fronts = new Map<number, number[]>();
+  ranks.forEach((rank, i) => {
+    if (!fronts.has(rank)) fronts.set(rank, []);
+    fronts.get(rank)!.push(i);
+  });
+
+  const objectiveCount = points[0]?.length ?? 0;
+  fronts.forEach(members => {
+    for (let k = 0; k < objectiveCount; k++) {
+      const sorted = [...members].sort((a, b) => points[a][k] - points[b][k]);
+      const first = sorted[0], last = sorted[sorted.length - 1];
+      distances[first] = distances[last] = Infinity;
+      const span = points[last][k] - points[first][k];
+      if (span === 0) continue;
+      for (let s = 1; s < sorted.length - 1; s++) {
+        distances[sorted[s]] += (points[sorted[s + 1]][k] - points[sorted[s - 1]][k]) / span;
       }
-      
-      const nextGen = [...survivors];
-      const limit = Math.min(currentMax, survivors.length + growthTarget);
-      
+    }
+  });
+  return distances;
+}
+
+// Survivors are the best `slots` genomes by front, then by crowding distance. Crowded binary
+// tournaments among them pick the parents that fill the remaining slots.
+function evolveParetoPool(pool: Genome[], slots: number, generation: number, weights: FitnessWeights, variation: VariationSettings): Genome[] {
+  const points = pool.map(g => objectiveVector(g, weights));
+  const ranks = paretoRanks(points);
+  const crowding = crowdingDistances(points, ranks);
+  const compare = (a: number, b: number) =>
+    ranks[a] - ranks[b] || (crowding[a] === crowding[b] ? 0 : crowding[a] > crowding[b] ? -1 : 1);
+
+  const survivors = pool.map((_, i) => i).sort(compare).slice(0, slots);
+  // Species belong to the speciated mode, so drop stale labels
+  const nextGen = survivors.map(i => {
+    const { speciesId, ...genome } = pool[i];
+    return genome;
+  });
+
+  const pickParent = () => {
+    const a = rng.pick(survivors), b = rng.pick(survivors);
+    return pool[compare(a, b) <= 0 ? a : b];
+  };
+  let attempts = 0;
+  while (nextGen.length < slots && attempts < 100) {
+    const { speciesId, ...child } = reproduce(pickParent(), pickParent(), generation + 1, variation);
+    nextGen.push(child);
+    attempts++;
+  }
+  return nextGen;
+}
+
+// --- Novelty Selection ---
+
+// Selection score per genome: novelty and fitness are each min-max normalized within the
+// pool (their scales differ wildly), then mixed by `blend`
+function blendNovelty(pool: Genome[], blend: number): SelectionScore {
+  const normalizer = (values: number[]) => {
+    const min = Math.min(...values), max = Math.max(...values);
+    return (v: number) => (max > min ? (v - min) / (max - min) : 0);
+  };
+  const novelty = pool.map(g => g.novelty ?? 0);
+  const fitness = pool.map(g => (Number.isFinite(g.fitness) ? g.fitness : 0));
+  const normNovelty = normalizer(novelty), normFitness = normalizer(fitness);
+  const scores = new Map(pool.map((g, i) => [g, (1 - blend) * normNovelty(novelty[i]) + blend * normFitness(fitness[i])]));
+  return g => scores.get(g) ?? 0;
+}
+
+// --- Island Migration ---
+
+type MigrationSettings = Pick<SimulationConfig, 'migrationRate' | 'migrationTopology'>;
+
+// Moves a random share of each island's next generation to another island by rewriting
+// their origins, so they respawn inside it. Emigrants are drawn before anyone arrives, so
+// nobody migrates twice. Returns the arrivals per island.
+function migrate(islands: Genome[][], settings: MigrationSettings): number[] {
+  const count = islands.length;
+  const arrivals: Genome[][] = islands.map(() => []);
+  if (settings.migrationTopology === 'NONE' || count < 2) return arrivals.map(() => 0);
+
+  islands.forEach((members, from) => {
+      const emigrants = Math.round(members.length * settings.migrationRate);
+      for (let i = 0; i < emigrants; i++) {
+          const [migrant] = members.splice(rng.int(members.length), 1);
+          const to = settings.migrationTopology === 'RING' ? (from + 1) % count : (from + 1 + rng.int(count - 1)) % count;
+          // Species belong to the island they formed on
+          const { speciesId, ...genome } = migrant;
+          arrivals[to].push({ ...genome, originX: randomIslandX(to, count) });
+      }
+  });
+  arrivals.forEach((arrived, i) => islands[i].push(...arrived));
+  return arrivals.map(a => a.length);
+}
+
+function summarizeIsland(id: number, members: Genome[], immigrants: number): IslandSummary {
+  const strains: Record<number, number> = {};
+  members.forEach(g => strains[g.strainId] = (strains[g.strainId] ?? 0) + 1);
+  return { id, population: members.length, strains, immigrants };
+}
+
+// The config fields that steer evolvePopulation (selection, offspring variation and migration)
+type SelectionSettings = Pick<SimulationConfig, 'selectionMode' | 'fitnessWeights' | 'noveltyBlend' | 'cppnShare' | 'islandCount' | 'migrationInterval'>
+  & VariationSettings & MigrationSettings;
+
+// Each pool evolves separately with an equal share of the population cap. Pools are the
+// strains, or with the island model on, the islands (so strains sharing an island compete
+// and interbreed, and migrants can invade). In WEIGHTED and NOVELTY mode a pool is
+// speciated against the species it had last generation; in NSGA2 mode it is ranked by
+// Pareto dominance and no species are tracked. Returns the next population, every species
+// occupied this generation (offspring 0 = going extinct) and, with islands, the next
+// generation per island after migration.
+export function evolvePopulation(
+  population: Genome[],
+  generation: number,
+  maxPopulationSize: number,
+  previousSpecies: Species[] = [],
+  selection: SelectionSettings = DEFAULT_CONFIG
+): { population: Genome[], species: Species[], islands: IslandSummary[] } {
+  const islandCount = selection.islandCount;
+  const pools = new Map<number, Genome[]>(islandCount > 0
+      ? Array.from({ length: islandCount }, (_, i) => [i, []])
+      : STRAINS.map(s => [s.id, []]));
+  population.forEach(g => {
+      const key = islandCount > 0 ? islandOf(g.originX, islandCount) : g.strainId;
+      if (!pools.has(key)) pools.set(key, []);
+      pools.get(key)!.push(g);
+  });
+
+  const maxPerGroup = Math.floor(maxPopulationSize / pools.size);
+  let lastSpeciesId = previousSpecies.reduce((max, s) => Math.max(max, s.id), 0);
+  const nextSpeciesId = () => ++lastSpeciesId;
+
+  // Survivors are the species' top-scoring members up to its quota; crossover fills the rest
+  const breed = ({ species, members }: Niche, score: SelectionScore): Genome[] => {
+      if (species.offspring === 0) return [];
+      const sorted = [...members].sort((a, b) => score(b) - score(a));
+      const survivors = sorted.slice(0, species.offspring);
+      const nextGen = survivors.map(g => ({ ...g, speciesId: species.id }));
+
       let attempts = 0;
-      while (nextGen.length < limit && attempts < 100) {
-          const p1 = tournamentSelect(survivors);
-          const p2 = tournamentSelect(survivors);
-          let child = crossover(p1, p2, generation + 1);
-          child = mutate(child);
-          nextGen.push(child);
+      while (nextGen.length < species.offspring && attempts < 100) {
+          const p1 = tournamentSelect(survivors, score);
+          const p2 = tournamentSelect(survivors, score);
+          const child = reproduce(p1, p2, generation + 1, selection);
+          nextGen.push({ ...child, speciesId: species.id });
           attempts++;
       }
       return nextGen;
   };
 
-  const nextA = evolveSubPool(poolA, maxPerGroup);
-  const nextB = evolveSubPool(poolB, maxPerGroup);
+  const nextPools = new Map<number, Genome[]>();
+  const species: Species[] = [];
+  pools.forEach((pool, key) => {
+      const nextPool: Genome[] = [];
+      // Determine how many slots the strain fills (10% growth per generation)
+      // Truncating at the cap ensures populations don't explode infinitely
+      const growthTarget = Math.max(1, Math.floor(pool.length * 0.10));
+      const slots = Math.min(maxPerGroup, pool.length + growthTarget);
 
-  // CRITICAL FIX: Prevent Extinction via Genetic Drift
-  if (nextA.length === 0 && maxPerGroup > 0) {
-      // Re-seed Group A
-      nextA.push(createRandomGenome(generation, 190));
-  }
+      if (pool.length > 0 && selection.selectionMode === 'NSGA2') {
+          nextPool.push(...evolveParetoPool(pool, slots, generation, selection.fitnessWeights, selection));
+      } else if (pool.length > 0) {
+          const score = selection.selectionMode === 'NOVELTY' ? blendNovelty(pool, selection.noveltyBlend) : rawFitness;
+          const previous = previousSpecies.filter(s => s.offspring > 0 &&
+              (islandCount > 0 ? s.islandId === key : s.strainId === key && s.islandId === undefined));
+          const niches = speciate(pool, previous, nextSpeciesId);
+          if (islandCount > 0) niches.forEach(n => n.species.islandId = key);
+          allocateOffspring(niches, slots, score);
+          niches.forEach(niche => {
+              nextPool.push(...breed(niche, score));
+              species.push(niche.species);
+          });
+      }
 
-  // Same for Group B to maintain competition
-  if (nextB.length === 0 && maxPerGroup > 0) {
-      nextB.push(createRandomGenome(generation, 340));
-  }
+      // CRITICAL FIX: Prevent Extinction via Genetic Drift
+      // Registered strains are re-seeded so competition is maintained. Not on islands:
+      // a strain dying out there is the outcome of an invasion.
+      if (islandCount === 0 && nextPool.length === 0 && maxPerGroup > 0 && STRAINS.some(s => s.id === key)) {
+          nextPool.push(createRandomGenome(generation, key, selection.cppnShare));
+      }
+      nextPools.set(key, nextPool);
+  });
+
+  if (islandCount === 0) return { population: [...nextPools.values()].flat(), species, islands: [] };
 
-  return [...nextA, ...nextB];
+  const islands = [...nextPools.values()];
+  const arrivals = generation % selection.migrationInterval === 0
+      ? migrate(islands, selection)
+      : islands.map(() => 0);
+  return {
+      population: islands.flat(),
+      species,
+      islands: islands.map((members, i) => summarizeIsland(i, members, arrivals[i]))
+  };
 }
 
-function tournamentSelect(pool: Genome[]): Genome {
+function tournamentSelect(pool: Genome[], score: SelectionScore): Genome {
   const k = 4;
-  let best = pool[Math.floor(Math.random() * pool.length)];
+  let best = pool[rng.int(pool.length)];
   for (let i = 0; i < k; i++) {
-    const contender = pool[Math.floor(Math.random() * pool.length)];
-    if (contender.fitness > best.fitness) {
+    const contender = pool[rng.int(pool.length)];
+    if (score(contender) > score(best)) {
       best = contender;
     }
   }
@@ -0,0 +1,29 @@
+import { ISLAND_RANGE } from '../constants';
+import { rng } from './random';
+
+// --- Island Model ---
+// Islands split ISLAND_RANGE into equal-width regions, numbered left to right. A genome
+// lives on the island its origin (where its bot ended the last generation) falls in, so
+// bots that swim across a border change island on their own. Origins past either end of
+// the range count toward the outermost islands.
+
+export function islandBounds(island: number, count: number): [number, number] {
+  const [min, max] = ISLAND_RANGE;
+  const width = (max - min) / count;
+  return [min + island * width, min + (island + 1) * width];
+}
+
+export function islandOf(x: number | undefined, count: number): number {
+  const [min, max] = ISLAND_RANGE;
+  const position = typeof x === 'number' && Number.isFinite(x) ? x : 0;
+  const island = Math.floor((position - min) / ((max - min) / count));
+  return Math.max(0, Math.min(count - 1, island));
+}
+
+// Landing spot for a migrant: anywhere on the island but its outer fifths, so it doesn't
+// drift straight back over the border
+export function randomIslandX(island: number, count: number): number {
+  const [left, right] = islandBounds(island, count);
+  const width = right - left;
+  return left + width * (0.2 + rng.next() * 0.6);
+}
@@ -0,0 +1,61 @@
+import { Genome, LineageRecord } from '../types';
+import { LINEAGE_EXTINCT_MEMORY } from '../constants';
+
+// --- Lineage Store ---
+// One record per genome ever born, keyed by genome ID. Survivors keep their ID across
+// generations, so only births add records. Pruned every generation down to the ancestry
+// of the living plus recent extinct births, which keeps it bounded by population size and
+// coalescence depth rather than run length.
+
+export class LineageStore {
+  private records = new Map<string, LineageRecord>();
+
+  public get size(): number {
+    return this.records.size;
+  }
+
+  public get entries(): LineageRecord[] {
+    return [...this.records.values()];
+  }
+
+  public get(id: string): LineageRecord | undefined {
+    return this.records.get(id);
+  }
+
+  // Idempotent: a genome already on record keeps its first entry. Genomes from before
+  // lineage tracking are recorded as seeds. Returns true for a new record.
+  public record(genome: Genome): boolean {
+    if (this.records.has(genome.id)) return false;
+    this.records.set(genome.id, {
+      id: genome.id,
+      parentIds: genome.parentIds ? [...genome.parentIds] : [],
+      generation: genome.generation,
+      cause: genome.birthCause ?? 'SEED',
+      strainId: genome.strainId,
+      ...(genome.mutations && { mutations: { ...genome.mutations } })
+    });
+    return true;
+  }
+
+  // Keep every ancestor of a living genome, and anything born in the last LINEAGE_EXTINCT_MEMORY generations
+  public prune(livingIds: Iterable<string>, generation: number) {
+    const keep = new Set<string>();
+    const stack = [...livingIds];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (keep.has(id)) continue;
+      const record = this.records.get(id);
+      if (!record) continue;
+      keep.add(id);
+      stack.push(...record.parentIds);
+    }
+
+    this.records.forEach((record, id) => {
+      if (!keep.has(id) && record.generation < generation - LINEAGE_EXTINCT_MEMORY) this.records.delete(id);
+    });
+  }
+
+  public load(records: LineageRecord[]) {
+    this.records = new Map(records.map(r => [r.id, { ...r, parentIds: [...r.parentIds] }]));
+  }
+}
@@ -0,0 +1,68 @@
+import { Xenobot } from '../types';
+import { BEHAVIOR_SAMPLES, NOVELTY_ARCHIVE_ADDS, NOVELTY_ARCHIVE_LIMIT, NOVELTY_NEIGHBOURS } from '../constants';
+
+// --- Novelty Search ---
+// A bot's behavior is its trajectory: the center of mass relative to the start position,
+// sampled BEHAVIOR_SAMPLES times over its life. Novelty is the mean distance to the k
+// nearest behaviors among the current population and every behavior archived so far, so
+// going somewhere nobody has been before pays even after the population has moved on.
+
+// Flat [dx0, dy0, dx1, dy1, ...]. Bots born mid-generation have fewer samples, so the
+// missing tail repeats where they are now.
+export function characterize(bot: Xenobot): number[] {
+  const dx = bot.centerOfMass.x - bot.startPosition.x;
+  const dy = bot.centerOfMass.y - bot.startPosition.y;
+  const current = Number.isFinite(dx) && Number.isFinite(dy) ? [dx, dy] : [0, 0];
+  const samples = bot.behavior ?? [];
+  const behavior: number[] = [];
+  for (let i = 0; i < BEHAVIOR_SAMPLES * 2; i++) {
+    behavior.push(i < samples.length ? samples[i] : current[i % 2]);
+  }
+  return behavior;
+}
+
+const distance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+export class NoveltyArchive {
+  private behaviors: number[][] = [];
+
+  public get size(): number {
+    return this.behaviors.length;
+  }
+
+  public get entries(): number[][] {
+    return this.behaviors;
+  }
+
+  // Novelty of every behavior against the others and the archive
+  public score(population: number[][]): number[] {
+    return population.map((behavior, i) => {
+      const distances: number[] = [];
+      population.forEach((other, j) => {
+        if (j !== i) distances.push(distance(behavior, other));
+      });
+      this.behaviors.forEach(archived => distances.push(distance(behavior, archived)));
+      if (distances.length === 0) return 0;
+      distances.sort((a, b) => a - b);
+      const nearest = distances.slice(0, NOVELTY_NEIGHBOURS);
+      return nearest.reduce((sum, d) => sum + d, 0) / nearest.length;
+    });
+  }
+
+  // Archive the NOVELTY_ARCHIVE_ADDS most novel behaviors, dropping the oldest past the limit
+  public record(population: number[][], novelty: number[]) {
+    const ranked = population.map((_, i) => i).sort((a, b) => novelty[b] - novelty[a]);
+    ranked.slice(0, NOVELTY_ARCHIVE_ADDS).forEach(i => this.behaviors.push([...population[i]]));
+    if (this.behaviors.length > NOVELTY_ARCHIVE_LIMIT) {
+      this.behaviors.splice(0, this.behaviors.length - NOVELTY_ARCHIVE_LIMIT);
+    }
+  }
+
+  public load(behaviors: number[][]) {
+    this.behaviors = behaviors.map(b => [...b]);
+  }
+}
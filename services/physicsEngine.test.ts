@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from './physicsEngine';
+import { createRandomGenome } from './geneticAlgorithm';
+import { rng } from './random';
+import { DEFAULT_CONFIG } from '../constants';
+import { CellType, Genome, Xenobot } from '../types';
+
+// createBot springs diagonal neighbours too, so a body can hang together through a corner
+const NEIGHBOURS = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+const BODY_CELLS = [CellType.SKIN, CellType.HEART, CellType.NEURON];
+
+const componentCount = (genes: CellType[][]) => {
+  const size = genes.length;
+  const seen = genes.map(row => row.map(() => false));
+  let count = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (genes[y][x] === CellType.EMPTY || seen[y][x]) continue;
+      count++;
+      const stack = [[x, y]];
+      seen[y][x] = true;
+      while (stack.length > 0) {
+        const [cx, cy] = stack.pop()!;
+        NEIGHBOURS.forEach(([dx, dy]) => {
+          const nx = cx + dx, ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= size || ny >= size || seen[ny][nx] || genes[ny][nx] === CellType.EMPTY) return;
+          seen[ny][nx] = true;
+          stack.push([nx, ny]);
+        });
+      }
+    }
+  }
+  return count;
+};
+
+const genomeCells = (genome: Genome) =>
+  genome.genes.flatMap((row, y) => row.flatMap((cell, x) => cell === CellType.EMPTY ? [] : [`${x},${y}`])).sort();
+
+const particleCells = (bot: Xenobot) => bot.particles.map(p => `${p.gx},${p.gy}`).sort();
+
+const withGenes = (genes: CellType[][]): Genome => ({ ...createRandomGenome(1, 0, 0), gridSize: genes.length, genes });
+
+const createEngine = () => new PhysicsEngine({ ...DEFAULT_CONFIG, foodCount: 0 });
+
+const spawn = (engine: PhysicsEngine, genome: Genome) => {
+  const bot = engine.createBot(genome, 0, 0);
+  engine.bots.push(bot);
+  return bot;
+};
+
+// Every live bot is one piece, and its genome describes exactly the cells it still has
+const expectWholeBodies = (engine: PhysicsEngine) => {
+  engine.bots.filter(b => !b.isDead).forEach(bot => {
+    expect(componentCount(bot.genome.genes)).toBe(1);
+    expect(genomeCells(bot.genome)).toEqual(particleCells(bot));
+  });
+};
+
+describe('splitSeveredBot', () => {
+  it('splits a dumbbell into two whole fragments when the bridge cell is cut', () => {
+    const _ = CellType.EMPTY, S = CellType.SKIN;
+    const engine = createEngine();
+    const bot = spawn(engine, withGenes([
+      [_, _, _, _, _, _],
+      [S, S, _, S, S, _],
+      [S, S, S, S, S, _],
+      [_, _, _, _, _, _],
+      [_, _, _, _, _, _],
+      [_, _, _, _, _, _]
+    ]));
+
+    const bridge = bot.particles.find(p => p.gx === 2 && p.gy === 2)!;
+    engine.reapBot(bot.id, bridge.pos.x, bridge.pos.y);
+
+    const live = engine.bots.filter(b => !b.isDead);
+    expect(live).toHaveLength(2);
+    expect(live.map(b => b.particles.length)).toEqual([4, 4]);
+    expect(engine.events).toContainEqual({ type: 'FRACTURE' });
+    expectWholeBodies(engine);
+  });
+
+  it('leaves every fragment genome in one piece as random bodies are cut apart', () => {
+    rng.reseed(7);
+    const engine = createEngine();
+
+    for (let body = 0; body < 20; body++) {
+      const size = 6 + rng.int(6);
+      const genes: CellType[][] = Array.from({ length: size }, () => Array(size).fill(CellType.EMPTY));
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          if (rng.next() < 0.55) genes[y][x] = rng.pick(BODY_CELLS);
+        }
+      }
+      spawn(engine, withGenes(genes));
+    }
+    // The random grids start as several pieces; the first cut splits each of them up
+    engine.bots.forEach(bot => engine.reapBot(bot.id, bot.particles[0].pos.x, bot.particles[0].pos.y));
+    expectWholeBodies(engine);
+
+    for (let cut = 0; cut < 300; cut++) {
+      const live = engine.bots.filter(b => !b.isDead);
+      if (live.length === 0) break;
+      const bot = rng.pick(live);
+      const cell = rng.pick(bot.particles);
+      engine.reapBot(bot.id, cell.pos.x, cell.pos.y);
+      expectWholeBodies(engine);
+    }
+  });
+});
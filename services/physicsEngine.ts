@@ -7,9 +7,17 @@ import {
   Genome,
   SimulationConfig,
   Food,
+  FoodChanges,
   GeneticStats,
   CellType,
-  SimulationEventType
+  SimulationEvent,
+  WorldSnapshot,
+  BotSnapshot,
+  BodyState,
+  Species,
+  MutationStats,
+  CrossoverStats,
+  IslandSummary
 } from '../types';
 import {
   GRID_SIZE,
@@ -22,29 +30,69 @@ import {
   MAX_BOT_SIZE,
   FOOD_ENERGY,
   FOOD_RADIUS,
-  COLLISION_RADIUS
+  COLLISION_RADIUS,
+  BREAKING_THRESHOLD,
+  SPATIAL_HASH_CELL_SIZE,
+  REGENERATION_RATE,
+  REGENERATION_COST,
+  NEURON_SENSE_RADIUS,
+  NEURON_AVOID_RADIUS,
+  NEURON_AVOID_WEIGHT,
+  NEURON_TURN_RATE,
+  NEURON_FREQ_GAIN,
+  CONTROLLER_INPUTS,
+  BEHAVIOR_SAMPLES,
+  BEHAVIOR_SAMPLE_INTERVAL
 } from '../constants';
-import { evolvePopulation as algoEvolve, mutate, pruneGenome, addStructuralNode } from './geneticAlgorithm';
-
-const uid = () => Math.random().toString(36).substr(2, 9);
+import { evolvePopulation as algoEvolve, mutate, pruneGenome, addStructuralNode, restrictGenome, emptyMutationStats, emptyCrossoverStats } from './geneticAlgorithm';
+import { rng } from './random';
+import { getStrain } from './strains';
+import { SpatialHash } from './spatialHash';
+import { EliteArchive, describeBot } from './eliteArchive';
+import { evaluateObjectives, scoreBot } from './fitness';
+import { NoveltyArchive, characterize } from './noveltyArchive';
+import { LineageStore } from './lineage';
+
+const uid = () => rng.id(9);
 const MAX_VELOCITY = 8.0; 
+const FOOD_BROADPHASE_RADIUS = Math.sqrt(100000);
+const FOOD_EAT_DIST_SQ = 900;
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
 
 export class PhysicsEngine {
   public bots: Xenobot[] = [];
-  public food: Food[] = [];
+  private foodIndex = new SpatialHash<Food>(SPATIAL_HASH_CELL_SIZE);
+  private foodCandidates: Food[] = []; // Reused query buffer
+  public foodVersion = 0; // Bumped on every food add/remove
+  // Food changes since the last takeFoodChanges(). null until the first take, and after a
+  // reset or overflow, which tells the consumer to re-index all food.
+  private foodChanges: FoodChanges | null = null;
+  private botIndex = new SpatialHash<Xenobot>(SPATIAL_HASH_CELL_SIZE); // Live bots by center of mass, rebuilt each step
+  private botCandidates: Xenobot[] = []; // Reused query buffer
   public config: SimulationConfig;
-  public events: SimulationEventType[] = [];
+  public events: SimulationEvent[] = [];
   public groundY: number;
 
   // Matter.js Integration
   public engine: Matter.Engine;
   private bodyMap = new Map<number, Matter.Body>(); // Maps ID -> Body
   private constraintMap = new Map<number, Matter.Constraint>(); // Maps ID -> Constraint
+  private bodyOwner = new Map<number, Xenobot>(); // Maps Body ID -> owning bot (for contact events)
+  private stepTime = 0; // Simulated ms of the step being integrated (stamps collisions)
 
   // --- SCALING DIFFICULTY STATE ---
+  // Shared by every strain whose rules enable escalating costs
   public groupAGrowthCount = 0;
   public groupAReproductionCount = 0;
 
+  // Species found at the last evolution step; the next one speciates against them
+  public species: Species[] = [];
+  public archive = new EliteArchive(); // Fed at every evolution step and mitosis
+  public noveltyArchive = new NoveltyArchive(); // Fed at every evolution step in NOVELTY mode
+  public lineage = new LineageStore(); // Every genome that enters the world; pruned each generation
+  public islands: IslandSummary[] = []; // As bred at the last evolution step (empty without the island model)
+  private mutationStats = emptyMutationStats(); // Since the last takeMutationStats()
+
   constructor(config: SimulationConfig) {
     this.config = config;
     this.groundY = config.groundHeight;
@@ -57,21 +105,57 @@ export class PhysicsEngine {
         constraintIterations: 4
     });
 
+    // Cells of one bot share a negative collision group, so only inter-bot pairs reach here
+    Matter.Events.on(this.engine, 'collisionStart', (event) => this.handleCollisionStart(event.pairs));
+
     this.spawnFood();
   }
 
+  // Food lives only in the spatial index; this is its dense (unordered) view
+  public get food(): readonly Food[] {
+    return this.foodIndex.items;
+  }
+
+  private addFood(f: Food) {
+    this.foodIndex.insert(f, f.x, f.y);
+    this.foodVersion++;
+    this.foodChanges?.added.push(f);
+    this.trimFoodChanges();
+  }
+
+  private removeFood(f: Food) {
+    this.foodIndex.remove(f);
+    this.foodVersion++;
+    this.foodChanges?.removedIds.push(f.id);
+    this.trimFoodChanges();
+  }
+
+  // Nobody drains the log in headless runs, and past a full world's worth of changes
+  // re-indexing is cheaper than replaying them anyway
+  private trimFoodChanges() {
+    const changes = this.foodChanges;
+    if (changes && changes.added.length + changes.removedIds.length > this.config.foodCount) this.foodChanges = null;
+  }
+
+  // Hand out the food changes since the previous call and start a fresh log
+  public takeFoodChanges(): FoodChanges | null {
+    const changes = this.foodChanges;
+    this.foodChanges = { fromVersion: this.foodVersion, added: [], removedIds: [] };
+    return changes;
+  }
+
   public spawnFood() {
     const currentCount = this.food.length;
     const needed = this.config.foodCount - currentCount;
     const range = 8000; 
 
     for (let i = 0; i < needed; i++) {
-      this.food.push({
+      this.addFood({
         id: uid(),
-        x: (Math.random() - 0.5) * 2 * range,
-        y: (Math.random() - 0.5) * 2 * range,
+        x: (rng.next() - 0.5) * 2 * range,
+        y: (rng.next() - 0.5) * 2 * range,
         energy: FOOD_ENERGY,
-        phase: Math.random() * Math.PI * 2
+        phase: rng.next() * Math.PI * 2
       });
     }
   }
@@ -81,6 +165,11 @@ export class PhysicsEngine {
     if (isNaN(startX)) startX = 0;
     if (isNaN(startY)) startY = 0;
 
+    this.recordBirth(genome);
+
+    // The layout a bot is born with is the pattern it regenerates toward
+    genome = { ...genome, targetGenes: genome.genes.map(row => [...row]) };
+
     const scale = this.config.gridScale || 60;
     const size = genome.gridSize;
     const particles: Particle[] = [];
@@ -88,6 +177,7 @@ export class PhysicsEngine {
 
     // Matter.js Composite for this Bot
     const botComposite = Matter.Composite.create();
+    const collisionGroup = Matter.Body.nextGroup(true);
     
     // 1. Create Bodies (Nodes)
     const particleMap: number[][] = Array(size).fill(null).map(() => Array(size).fill(-1));
@@ -112,7 +202,8 @@ export class PhysicsEngine {
                restitution: 0.1,  // Damped collisions
                friction: 0.0,     // No surface friction
                density: 0.002 * mass,
-               label: 'cell'
+               label: 'cell',
+               collisionFilter: { group: collisionGroup }
            });
            
            this.bodyMap.set(body.id, body);
@@ -212,16 +303,7 @@ export class PhysicsEngine {
 
     Matter.World.add(this.engine.world, botComposite);
 
-    let groupId = 1;
-    const match = genome.color.match(/hsl\((\d+\.?\d*)/);
-    if (match) {
-        const h = parseFloat(match[1]);
-        if (h > 150 && h < 230) groupId = 0;
-    } else {
-        groupId = Math.floor(Math.random() * 2);
-    }
-
-    return {
+    const bot: Xenobot = {
         id: uid(),
         genome,
         particles,
@@ -230,14 +312,59 @@ export class PhysicsEngine {
         startPosition: { x: startX, y: startY },
         isDead: false,
         totalCharge: 0,
-        groupId,
+        groupId: genome.strainId,
         energy: INITIAL_YOLK_ENERGY,
         age: 0,
-        heading: Math.random() * Math.PI * 2,
+        heading: rng.next() * Math.PI * 2,
         irruption: 0,
         absorption: 0,
         matterCompositeId: botComposite.id
     };
+    this.claimBodies(bot);
+    return bot;
+  }
+
+  private claimBodies(bot: Xenobot) {
+    bot.particles.forEach(p => {
+        if (p.bodyId !== undefined) this.bodyOwner.set(p.bodyId, bot);
+    });
+  }
+
+  // One COLLISION per touching bot pair per step, however many of their cells met
+  private handleCollisionStart(pairs: Matter.Pair[]) {
+    const seen = new Set<string>();
+    for (const pair of pairs) {
+        const botA = this.bodyOwner.get(pair.bodyA.id);
+        const botB = this.bodyOwner.get(pair.bodyB.id);
+        if (!botA || !botB || botA === botB || botA.isDead || botB.isDead) continue;
+
+        const key = botA.id < botB.id ? `${botA.id}|${botB.id}` : `${botB.id}|${botA.id}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const contact = pair.collision.supports[0] ?? pair.bodyA.position;
+        const point = { x: contact.x, y: contact.y };
+        botA.lastCollisionTime = this.stepTime;
+        botA.lastCollisionPoint = point;
+        botB.lastCollisionTime = this.stepTime;
+        botB.lastCollisionPoint = { ...point };
+
+        this.events.push({ type: 'COLLISION', botIds: [botA.id, botB.id], point });
+    }
+  }
+
+  // Put a genome on the lineage record; first sightings of mutants also count toward the mutation stats
+  private recordBirth(genome: Genome) {
+      if (!this.lineage.record(genome) || !genome.mutations) return;
+      genome.mutations.operators.forEach(op => this.mutationStats[op].applied++);
+      genome.mutations.accepted.forEach(op => this.mutationStats[op].accepted++);
+  }
+
+  // Operator counts since the last call (one generation, when called after each evolution step)
+  public takeMutationStats(): MutationStats {
+      const stats = this.mutationStats;
+      this.mutationStats = emptyMutationStats();
+      return stats;
   }
 
   public applyMutagen(botId: string) {
@@ -249,13 +376,77 @@ export class PhysicsEngine {
          this.attemptVegetativeGrowth(bot);
       }
       
-      bot.genome = mutate(bot.genome);
+      bot.genome = mutate(bot.genome, { cause: 'MUTAGEN' }, this.config.mutation);
+      this.recordBirth(bot.genome);
       bot.energy += 1000;
       
-      this.events.push('MITOSIS'); 
+      this.events.push({ type: 'MITOSIS' });
       return true;
   }
 
+  // Bring an archived elite back into the world as a fresh bot. Returns null for an unknown key.
+  public spawnElite(key: string, x: number, y: number): Xenobot | null {
+      const elite = this.archive.get(key);
+      if (!elite) return null;
+
+      const bot = this.createBot({
+          ...elite.genome,
+          id: uid(),
+          fitness: 0,
+          originX: x,
+          originY: y,
+          parentIds: [elite.genome.id],
+          birthCause: 'ELITE',
+          mutations: undefined,
+          crossoverMode: undefined
+      }, x, y);
+      this.bots.push(bot);
+      return bot;
+  }
+
+  // Injector Tool: Drop a scattered nutrient cluster at a world position
+  public injectFood(x: number, y: number, count: number = 3) {
+      for (let i = 0; i < count; i++) {
+          this.addFood({
+              id: uid(),
+              x: x + (rng.next() - 0.5) * 120,
+              y: y + (rng.next() - 0.5) * 120,
+              energy: FOOD_ENERGY, // Uses constant to align with economy
+              phase: rng.next() * Math.PI * 2
+          });
+      }
+  }
+
+  // Reaper Tool: Excise the cell nearest (x, y) and return the reclaimable energy share.
+  // Bots too small to survive losing a cell are killed outright.
+  public reapBot(botId: string, x: number, y: number): number | null {
+      const bot = this.bots.find(b => b.id === botId);
+      if (!bot || bot.isDead) return null;
+
+      if (bot.particles.length <= 2) {
+          const reclaimValue = Math.floor(bot.energy * 0.15);
+          this.killBot(bot);
+          return reclaimValue;
+      }
+
+      let nearest = 0;
+      let bestSq = Infinity;
+      bot.particles.forEach((p, i) => {
+          const dSq = (p.pos.x - x) ** 2 + (p.pos.y - y) ** 2;
+          if (dSq < bestSq) {
+              bestSq = dSq;
+              nearest = i;
+          }
+      });
+
+      const cellEnergy = bot.energy / bot.particles.length;
+      bot.energy -= cellEnergy;
+      this.exciseCell(bot, nearest);
+      // Losing a bridging cell can sever the body
+      this.bots.push(...this.splitSeveredBot(bot));
+      return Math.floor(cellEnergy * 0.15);
+  }
+
   public getCosts() {
       return {
           growthCost: GROWTH_COST * Math.pow(1.25, this.groupAGrowthCount),
@@ -265,17 +456,28 @@ export class PhysicsEngine {
 
   public update(totalTime: number) {
     this.events = [];
+    this.stepTime = totalTime * 1000;
+
+    this.botIndex.clear();
+    this.bots.forEach(bot => {
+        if (!bot.isDead) this.botIndex.insert(bot, bot.centerOfMass.x, bot.centerOfMass.y);
+    });
     
     // 1. Biological Update (Muscles, Forces)
     this.bots.forEach(bot => {
         if (bot.isDead) return;
+
+        // Neurons sample the surroundings before muscles and steering react
+        const senses = this.senseEnvironment(bot);
+        bot.sensoryInput = senses.intensity;
+        this.stepController(bot, senses);
         
         // Update Bio-Electricity & Muscle Contraction
         const activeCharge = this.updateInternalBio(bot, totalTime);
         bot.totalCharge = activeCharge;
 
         // Apply External Forces (Gravity, Cilia)
-        this.applyForces(bot, totalTime);
+        this.applyForces(bot, totalTime, senses);
         
         // Global Charge Decay (Simulating Field Dissipation)
         // Slower decay for more persistent visual trails
@@ -295,25 +497,47 @@ export class PhysicsEngine {
     this.bots.forEach(bot => {
         if (bot.isDead) return;
 
+        // Damage: overstretched springs snap, and a severed body falls apart
+        if (this.fractureSprings(bot)) {
+            newBots.push(...this.splitSeveredBot(bot));
+            if (bot.isDead) return;
+        }
+
         // Sync Matter Positions to Particles
+        const lastX = bot.centerOfMass.x;
+        const lastY = bot.centerOfMass.y;
         this.syncPhysicsState(bot);
+        const travelled = Math.hypot(bot.centerOfMass.x - lastX, bot.centerOfMass.y - lastY);
+        if (Number.isFinite(travelled)) bot.pathLength = (bot.pathLength ?? 0) + travelled;
 
         // Metabolism
         bot.energy -= METABOLIC_DECAY;
         bot.age++;
 
+        // Novelty search: sample the trajectory a fixed number of times per generation
+        if (bot.age % BEHAVIOR_SAMPLE_INTERVAL === 0 && (bot.behavior?.length ?? 0) < BEHAVIOR_SAMPLES * 2) {
+            const dx = bot.centerOfMass.x - bot.startPosition.x;
+            const dy = bot.centerOfMass.y - bot.startPosition.y;
+            if (Number.isFinite(dx) && Number.isFinite(dy)) bot.behavior = [...(bot.behavior ?? []), dx, dy];
+        }
+
         if (bot.energy <= 0) {
             this.killBot(bot);
             return;
         }
 
         const energyGained = this.checkFoodConsumption(bot);
+        bot.foodEnergy = (bot.foodEnergy ?? 0) + energyGained;
         bot.irruption = Math.min(1.0, bot.totalCharge * 0.0002);
-        bot.absorption = Math.min(1.0, (energyGained > 0 ? 0.5 : 0));
+        bot.absorption = Math.min(1.0, (bot.sensoryInput ?? 0) + (energyGained > 0 ? 0.5 : 0));
+
+        // Regeneration toward the target morphology
+        this.regenerate(bot);
 
         // Growth
         let currentGrowthCost = GROWTH_COST;
-        if (bot.groupId === 0) {
+        const escalating = getStrain(bot.groupId).escalatingCosts;
+        if (escalating) {
             currentGrowthCost = GROWTH_COST * Math.pow(1.25, this.groupAGrowthCount);
         }
 
@@ -324,14 +548,14 @@ export class PhysicsEngine {
 
         // Reproduction
         let currentMitosisThreshold = MITOSIS_THRESHOLD;
-        if (bot.groupId === 0) {
+        if (escalating) {
             currentMitosisThreshold = MITOSIS_THRESHOLD * Math.pow(1.25, this.groupAReproductionCount);
         }
 
         if (bot.energy > currentMitosisThreshold && 
             bot.age > 800 && 
             (this.bots.length + newBots.length) < maxBots &&
-            Math.random() < 0.00015) {
+            rng.next() < 0.00015) {
              const child = this.performMitosis(bot);
              if (child) newBots.push(child);
         }
@@ -351,10 +575,10 @@ export class PhysicsEngine {
 
   private killBot(bot: Xenobot) {
       bot.isDead = true;
-      this.events.push('DEATH');
+      this.events.push({ type: 'DEATH' });
       // Remove from physics world
       if (bot.matterCompositeId) {
-          const composite = Matter.Composite.get(this.engine.world, bot.matterCompositeId, null);
+          const composite = Matter.Composite.get(this.engine.world, bot.matterCompositeId, 'composite') as Matter.Composite | null;
           if (composite) {
               Matter.World.remove(this.engine.world, composite);
               // Clean up constraint map
@@ -362,20 +586,31 @@ export class PhysicsEngine {
                   if (s.matterConstraintId) this.constraintMap.delete(s.matterConstraintId);
               });
               bot.particles.forEach(p => {
-                  if (p.bodyId) this.bodyMap.delete(p.bodyId);
+                  if (p.bodyId) {
+                      this.bodyMap.delete(p.bodyId);
+                      this.bodyOwner.delete(p.bodyId);
+                  }
               });
           }
       }
   }
 
-  private applyForces(bot: Xenobot, totalTime: number) {
+  private applyForces(bot: Xenobot, totalTime: number, senses: { x: number, y: number, intensity: number }) {
       const gravity = this.config.gravity * 0.001; 
       
       // Calculate propulsion based on shape change (swimming)
       const { impulseX, impulseY, torque } = this.calculateSwimmingImpulse(bot, totalTime);
       
-      // Slow random heading drift
-      bot.heading += (Math.random() - 0.5) * 0.05;
+      // Sensory steering: turn toward what the neurons sense, at a rate limited by how strongly they sense it
+      if (senses.intensity > 0) {
+          let diff = Math.atan2(senses.y, senses.x) - bot.heading;
+          diff = Math.atan2(Math.sin(diff), Math.cos(diff)); // Wrap to [-PI, PI]
+          const maxTurn = NEURON_TURN_RATE * senses.intensity;
+          bot.heading += Math.max(-maxTurn, Math.min(maxTurn, diff));
+      }
+
+      // Slow random heading drift (fades as sensory input takes over)
+      bot.heading += (rng.next() - 0.5) * 0.05 * (1 - senses.intensity);
 
       bot.particles.forEach(p => {
           if (p.bodyId) {
@@ -472,15 +707,289 @@ export class PhysicsEngine {
       }
   }
 
+  // Remove every spring stretched past BREAKING_THRESHOLD. Returns true if any broke.
+  private fractureSprings(bot: Xenobot): boolean {
+      const composite = bot.matterCompositeId !== undefined
+          ? Matter.Composite.get(this.engine.world, bot.matterCompositeId, 'composite') as Matter.Composite | null
+          : null;
+      let broken = false;
+
+      for (let i = bot.springs.length - 1; i >= 0; i--) {
+          const spring = bot.springs[i];
+          const constraint = spring.matterConstraintId !== undefined ? this.constraintMap.get(spring.matterConstraintId) : undefined;
+          if (!constraint) continue;
+
+          const currLen = Matter.Vector.magnitude(Matter.Vector.sub(constraint.bodyA!.position, constraint.bodyB!.position));
+          if (currLen - constraint.length <= BREAKING_THRESHOLD) continue;
+
+          if (composite) Matter.Composite.remove(composite, constraint);
+          this.constraintMap.delete(constraint.id);
+          bot.springs.splice(i, 1);
+          broken = true;
+      }
+      return broken;
+  }
+
+  // After fracture, split the spring graph into connected fragments. The largest stays
+  // as `bot`; each other fragment of 2+ cells becomes a new Xenobot that takes over its
+  // Matter bodies and constraints. Single loose cells are shed as debris.
+  private splitSeveredBot(bot: Xenobot): Xenobot[] {
+      const count = bot.particles.length;
+      const adjacency: number[][] = bot.particles.map(() => []);
+      bot.springs.forEach(s => {
+          adjacency[s.p1].push(s.p2);
+          adjacency[s.p2].push(s.p1);
+      });
+
+      const fragmentOf = new Int32Array(count).fill(-1);
+      const fragments: number[][] = [];
+      for (let start = 0; start < count; start++) {
+          if (fragmentOf[start] !== -1) continue;
+          const members = [start];
+          fragmentOf[start] = fragments.length;
+          for (let q = 0; q < members.length; q++) {
+              for (const next of adjacency[members[q]]) {
+                  if (fragmentOf[next] === -1) {
+                      fragmentOf[next] = fragments.length;
+                      members.push(next);
+                  }
+              }
+          }
+          fragments.push(members);
+      }
+      if (fragments.length === 1) return [];
+
+      const oldComposite = bot.matterCompositeId !== undefined
+          ? Matter.Composite.get(this.engine.world, bot.matterCompositeId, 'composite') as Matter.Composite | null
+          : null;
+      if (!oldComposite) return [];
+
+      // Largest fragment keeps the original identity (ties resolved by lowest particle index)
+      let keep = 0;
+      fragments.forEach((f, i) => { if (f.length > fragments[keep].length) keep = i; });
+
+      // Shattered into loose cells: nothing viable is left
+      if (fragments[keep].length < 2) {
+          this.killBot(bot);
+          return [];
+      }
+
+      const totalCells = count;
+      const parentEnergy = bot.energy;
+      const parentGenome = bot.genome;
+      const oldParticles = bot.particles;
+      const oldSprings = bot.springs;
+      const children: Xenobot[] = [];
+
+      // Rebuild particle/spring arrays for one fragment, remapping spring endpoints
+      const collect = (members: number[]) => {
+          const remap = new Map<number, number>();
+          members.sort((a, b) => a - b).forEach((idx, i) => remap.set(idx, i));
+          const particles = members.map(idx => oldParticles[idx]);
+          const springs = oldSprings
+              .filter(s => remap.has(s.p1))
+              .map(s => ({ ...s, p1: remap.get(s.p1)!, p2: remap.get(s.p2)! }));
+          const cells = particles
+              .filter(p => p.gx !== undefined && p.gy !== undefined)
+              .map(p => ({ x: p.gx!, y: p.gy! }));
+          return { particles, springs, cells };
+      };
+
+      fragments.forEach((members, i) => {
+          if (i === keep) return;
+
+          if (members.length < 2) {
+              // Debris: drop the loose cell from the world
+              const body = oldParticles[members[0]].bodyId !== undefined ? this.bodyMap.get(oldParticles[members[0]].bodyId!) : undefined;
+              if (body) {
+                  Matter.Composite.remove(oldComposite, body);
+                  this.bodyMap.delete(body.id);
+                  this.bodyOwner.delete(body.id);
+              }
+              return;
+          }
+
+          const { particles, springs, cells } = collect(members);
+          const composite = Matter.Composite.create();
+          const collisionGroup = Matter.Body.nextGroup(true);
+
+          let cx = 0, cy = 0;
+          particles.forEach(p => {
+              cx += p.pos.x;
+              cy += p.pos.y;
+              const body = p.bodyId !== undefined ? this.bodyMap.get(p.bodyId) : undefined;
+              if (!body) return;
+              Matter.Composite.remove(oldComposite, body);
+              body.collisionFilter.group = collisionGroup;
+              Matter.Composite.add(composite, body);
+          });
+          springs.forEach(s => {
+              const constraint = s.matterConstraintId !== undefined ? this.constraintMap.get(s.matterConstraintId) : undefined;
+              if (!constraint) return;
+              Matter.Composite.remove(oldComposite, constraint);
+              Matter.Composite.add(composite, constraint);
+          });
+          Matter.World.add(this.engine.world, composite);
+
+          const center = { x: cx / particles.length, y: cy / particles.length };
+          const child: Xenobot = {
+              id: uid(),
+              genome: {
+                  ...restrictGenome(parentGenome, cells),
+                  id: uid(),
+                  fitness: 0,
+                  parentIds: [parentGenome.id],
+                  birthCause: 'FRACTURE',
+                  mutations: undefined,
+                  crossoverMode: undefined
+              },
+              particles,
+              springs,
+              centerOfMass: center,
+              startPosition: { ...center },
+              isDead: false,
+              totalCharge: 0,
+              groupId: bot.groupId,
+              energy: parentEnergy * (members.length / totalCells),
+              age: bot.age,
+              heading: bot.heading,
+              irruption: 0,
+              absorption: 0,
+              matterCompositeId: composite.id
+          };
+          this.claimBodies(child);
+          this.recordBirth(child.genome);
+          children.push(child);
+      });
+
+      // The kept fragment carries on as the parent, with its share of the energy
+      const kept = collect(fragments[keep]);
+      bot.particles = kept.particles;
+      bot.springs = kept.springs;
+      bot.genome = restrictGenome(parentGenome, kept.cells);
+      bot.energy = parentEnergy * (fragments[keep].length / totalCells);
+
+      this.events.push({ type: 'FRACTURE' });
+      return children;
+  }
+
+  // Remove one cell with its body and springs, remapping the remaining spring endpoints
+  private exciseCell(bot: Xenobot, index: number) {
+      const composite = bot.matterCompositeId !== undefined
+          ? Matter.Composite.get(this.engine.world, bot.matterCompositeId, 'composite') as Matter.Composite | null
+          : null;
+
+      const particle = bot.particles[index];
+      const body = particle.bodyId !== undefined ? this.bodyMap.get(particle.bodyId) : undefined;
+      if (body) {
+          if (composite) Matter.Composite.remove(composite, body);
+          this.bodyMap.delete(body.id);
+          this.bodyOwner.delete(body.id);
+      }
+
+      bot.springs = bot.springs.filter(s => {
+          if (s.p1 !== index && s.p2 !== index) return true;
+          const constraint = s.matterConstraintId !== undefined ? this.constraintMap.get(s.matterConstraintId) : undefined;
+          if (constraint) {
+              if (composite) Matter.Composite.remove(composite, constraint);
+              this.constraintMap.delete(constraint.id);
+          }
+          return false;
+      });
+      bot.springs.forEach(s => {
+          if (s.p1 > index) s.p1--;
+          if (s.p2 > index) s.p2--;
+      });
+      bot.particles.splice(index, 1);
+
+      const cells = bot.particles
+          .filter(p => p.gx !== undefined && p.gy !== undefined)
+          .map(p => ({ x: p.gx!, y: p.gy! }));
+      bot.genome = restrictGenome(bot.genome, cells);
+  }
+
+  // Regrow cells missing from the target morphology, one at a time. Progress builds at a
+  // rate set by the genome's bioelectric memory and the world plasticity; each finished
+  // cell costs REGENERATION_COST. Only cells touching the current body can regrow.
+  private regenerate(bot: Xenobot) {
+      const target = bot.genome.targetGenes;
+      if (!target || bot.particles.length >= this.config.maxBotSize) return;
+
+      const size = bot.genome.gridSize;
+      const occupied = new Set<number>();
+      bot.particles.forEach(p => {
+          if (p.gx !== undefined && p.gy !== undefined) occupied.add(p.gy * size + p.gx);
+      });
+
+      let site: { x: number, y: number } | null = null;
+      for (let y = 0; y < size && !site; y++) {
+          for (let x = 0; x < size; x++) {
+              if (target[y][x] === CellType.EMPTY || occupied.has(y * size + x)) continue;
+              const touchesBody =
+                  (x > 0 && occupied.has(y * size + x - 1)) ||
+                  (x < size - 1 && occupied.has(y * size + x + 1)) ||
+                  (y > 0 && occupied.has((y - 1) * size + x)) ||
+                  (y < size - 1 && occupied.has((y + 1) * size + x));
+              if (touchesBody) {
+                  site = { x, y };
+                  break;
+              }
+          }
+      }
+
+      if (!site) {
+          bot.regenerationProgress = 0;
+          return;
+      }
+
+      const rate = bot.genome.bioelectricMemory * this.config.plasticity * REGENERATION_RATE;
+      bot.regenerationProgress = Math.min(1, (bot.regenerationProgress ?? 0) + rate);
+      if (bot.regenerationProgress < 1 || bot.energy <= REGENERATION_COST) return;
+
+      const genes = bot.genome.genes.map(row => [...row]);
+      genes[site.y][site.x] = target[site.y][site.x];
+      const newGenome = { ...bot.genome, genes };
+      if (!this.addCellBody(bot, newGenome, site.x, site.y)) return;
+
+      bot.genome = newGenome;
+      bot.energy -= REGENERATION_COST;
+      bot.regenerationProgress = 0;
+  }
+
   private attemptVegetativeGrowth(bot: Xenobot, cost: number = GROWTH_COST) {
       if (bot.isDead || !bot.matterCompositeId) return;
 
-      const growthResult = addStructuralNode(bot.genome);
+      const growthResult = addStructuralNode(bot.genome, this.config.mutation);
       if (!growthResult) return;
 
-      const { newGenome, addedX, addedY } = growthResult;
-      const composite = Matter.Composite.get(this.engine.world, bot.matterCompositeId, null) as Matter.Composite;
-      if (!composite) return;
+      const { newGenome, addedX, addedY, offset } = growthResult;
+      // The grid expanded on its edges: move existing cells into the new coordinates
+      if (offset) this.shiftGridCoords(bot, offset);
+      if (!this.addCellBody(bot, newGenome, addedX, addedY)) {
+          if (offset) this.shiftGridCoords(bot, -offset);
+          return;
+      }
+
+      bot.genome = newGenome;
+      bot.energy -= cost;
+      if (getStrain(bot.groupId).escalatingCosts) this.groupAGrowthCount++;
+      this.events.push({ type: 'EAT' });
+  }
+
+  private shiftGridCoords(bot: Xenobot, offset: number) {
+      bot.particles.forEach(p => {
+          if (p.gx !== undefined) p.gx += offset;
+          if (p.gy !== undefined) p.gy += offset;
+      });
+  }
+
+  // Attach a body for grid cell (gx, gy) next to an existing neighbour and spring it to
+  // every adjacent cell. `genome` must already contain the new cell. Returns false when
+  // the cell has no body to attach to.
+  private addCellBody(bot: Xenobot, genome: Genome, gx: number, gy: number): boolean {
+      if (bot.isDead || !bot.matterCompositeId) return false;
+      const composite = Matter.Composite.get(this.engine.world, bot.matterCompositeId, 'composite') as Matter.Composite | null;
+      if (!composite) return false;
 
       // Find neighbor to attach to
       let referenceBody: Matter.Body | null = null;
@@ -491,8 +1000,8 @@ export class PhysicsEngine {
 
       // Find a reference particle from existing array based on grid coords
       for (const n of neighbors) {
-           const nx = addedX + n.dx;
-           const ny = addedY + n.dy;
+           const nx = gx + n.dx;
+           const ny = gy + n.dy;
            const neighborP = bot.particles.find(p => p.gx === nx && p.gy === ny);
            if (neighborP && neighborP.bodyId) {
                referenceBody = this.bodyMap.get(neighborP.bodyId) || null;
@@ -504,10 +1013,10 @@ export class PhysicsEngine {
            }
       }
 
-      if (!referenceBody) return;
+      if (!referenceBody) return false;
 
       // Create New Matter Body
-      const type = newGenome.genes[addedY][addedX];
+      const type = genome.genes[gy][gx];
       let mass = 1.0; 
       if (type === CellType.HEART) mass = 1.2; 
 
@@ -515,10 +1024,12 @@ export class PhysicsEngine {
            frictionAir: 0.08, // Match new fluid settings
            restitution: 0.1,
            density: 0.002 * mass,
-           label: 'cell'
+           label: 'cell',
+           collisionFilter: { group: referenceBody.collisionFilter.group }
       });
       
       this.bodyMap.set(body.id, body);
+      this.bodyOwner.set(body.id, bot);
       Matter.Composite.add(composite, body);
 
       // Create New Particle
@@ -532,9 +1043,9 @@ export class PhysicsEngine {
           force: { x: 0, y: 0 },
           charge: 0,
           isFixed: false,
-          phase: addedX * 0.6 + addedY * 0.1,
-          gx: addedX,
-          gy: addedY,
+          phase: gx * 0.6 + gy * 0.1,
+          gx,
+          gy,
           bodyId: body.id
       };
       bot.particles.push(newParticle);
@@ -552,15 +1063,15 @@ export class PhysicsEngine {
       ];
 
       for (const n of springNeighbors) {
-          const nx = addedX + n.dx;
-          const ny = addedY + n.dy;
+          const nx = gx + n.dx;
+          const ny = gy + n.dy;
           const neighborPIdx = bot.particles.findIndex(p => p.gx === nx && p.gy === ny);
           
           if (neighborPIdx !== -1) {
                const neighborP = bot.particles[neighborPIdx];
                const bodyB = this.bodyMap.get(neighborP.bodyId!);
                if (bodyB) {
-                    const type2 = newGenome.genes[ny][nx];
+                    const type2 = genome.genes[ny][nx];
                     const isMuscle = (type === CellType.HEART || type2 === CellType.HEART);
                     // Match createBot tuning
                     let stiffness = 0.1;
@@ -584,81 +1095,153 @@ export class PhysicsEngine {
                         currentRestLength: n.dist * scale,
                         stiffness,
                         isMuscle,
-                        phaseOffset: (addedX + addedY) * 0.8,
+                        phaseOffset: (gx + gy) * 0.8,
                         matterConstraintId: constraint.id
                     });
                }
           }
       }
 
-      bot.genome = newGenome;
-      bot.energy -= cost;
-      if (bot.groupId === 0) this.groupAGrowthCount++;
-      this.events.push('EAT');
+      return true;
   }
 
   private checkFoodConsumption(bot: Xenobot): number {
       let energyGained = 0;
-      const eatDistSq = 900; 
+      const nearby = this.foodIndex.queryRadius(bot.centerOfMass.x, bot.centerOfMass.y, FOOD_BROADPHASE_RADIUS, this.foodCandidates);
 
-      for (let i = this.food.length - 1; i >= 0; i--) {
-          const f = this.food[i];
+      for (const f of nearby) {
           const dx = bot.centerOfMass.x - f.x;
           const dy = bot.centerOfMass.y - f.y;
-          const dSq = dx*dx + dy*dy;
-          
-          if (dSq > 100000) continue; // Broadphase check
-          
+
           let consumed = false;
           // Check vs center of mass first
-          if (dSq < eatDistSq) {
+          if (dx*dx + dy*dy < FOOD_EAT_DIST_SQ) {
               consumed = true;
           } else {
               // Check vs individual particles
               for (const p of bot.particles) {
                   const pdx = p.pos.x - f.x;
                   const pdy = p.pos.y - f.y;
-                  if (pdx*pdx + pdy*pdy < eatDistSq) {
+                  if (pdx*pdx + pdy*pdy < FOOD_EAT_DIST_SQ) {
                       consumed = true;
                       break;
                   }
               }
           }
-          
-          if (consumed) { 
+
+          if (consumed) {
               bot.energy += f.energy;
               energyGained += f.energy;
-              this.food.splice(i, 1);
-              this.events.push('EAT');
+              this.removeFood(f);
+              this.events.push({ type: 'EAT' });
           }
       }
       return energyGained;
   }
 
   private performMitosis(bot: Xenobot): Xenobot | null {
+      // Archive the parent at its peak, before the split halves its energy
+      this.archive.consider({ ...bot.genome, fitness: this.fitnessOf(bot) }, describeBot(bot));
       bot.energy /= 2;
-      if (bot.groupId === 0) this.groupAReproductionCount++;
+      if (getStrain(bot.groupId).escalatingCosts) this.groupAReproductionCount++;
 
-      this.events.push('MITOSIS');
+      this.events.push({ type: 'MITOSIS' });
       
-      let childGenome = mutate(bot.genome);
-      childGenome = pruneGenome(childGenome, 6); 
+      const fullGenome = mutate(bot.genome, { cause: 'MITOSIS' }, this.config.mutation);
+      const childGenome = pruneGenome(fullGenome, 6); 
       
-      const angle = Math.random() * Math.PI * 2;
+      const angle = rng.next() * Math.PI * 2;
       const distance = 120;
       const spawnX = bot.centerOfMass.x + Math.cos(angle) * distance;
       const spawnY = bot.centerOfMass.y + Math.sin(angle) * distance;
       
       const child = this.createBot(childGenome, spawnX, spawnY);
+      // The pruned bud keeps the full parental pattern and regrows toward it
+      child.genome.targetGenes = fullGenome.genes.map(row => [...row]);
       child.groupId = bot.groupId;
       child.energy = bot.energy;
       
       return child;
   }
 
+  // NEURON cells sample food within NEURON_SENSE_RADIUS (attraction, nearer = stronger) and
+  // other bots within NEURON_AVOID_RADIUS (repulsion). Returns the summed steering vector and
+  // its clamped magnitude, so bots with more neurons react more decisively.
+  private senseEnvironment(bot: Xenobot): { x: number, y: number, intensity: number } {
+      let x = 0, y = 0;
+      const genes = bot.genome.genes;
+
+      for (const p of bot.particles) {
+          if (p.gx === undefined || p.gy === undefined || genes[p.gy]?.[p.gx] !== CellType.NEURON) continue;
+
+          // Chemotaxis
+          for (const f of this.foodIndex.queryRadius(p.pos.x, p.pos.y, NEURON_SENSE_RADIUS, this.foodCandidates)) {
+              const dx = f.x - p.pos.x;
+              const dy = f.y - p.pos.y;
+              const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+              const weight = 1 - dist / NEURON_SENSE_RADIUS;
+              x += (dx / dist) * weight;
+              y += (dy / dist) * weight;
+          }
+
+          // Collision avoidance
+          for (const other of this.botIndex.queryRadius(p.pos.x, p.pos.y, NEURON_AVOID_RADIUS, this.botCandidates)) {
+              if (other === bot) continue;
+              const dx = other.centerOfMass.x - p.pos.x;
+              const dy = other.centerOfMass.y - p.pos.y;
+              const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+              const weight = (1 - dist / NEURON_AVOID_RADIUS) * NEURON_AVOID_WEIGHT;
+              x -= (dx / dist) * weight;
+              y -= (dy / dist) * weight;
+          }
+      }
+
+      return { x, y, intensity: Math.min(1, Math.sqrt(x * x + y * y)) };
+  }
+
+  // Advance the genome's CTRNN by one physics step (forward Euler, dt = 1 step). Inputs are
+  // the sensed direction in the bot's own frame (ahead, to the side) and its intensity.
+  private stepController(bot: Xenobot, senses: { x: number, y: number, intensity: number }) {
+      const controller = bot.genome.controller;
+      if (!controller) return;
+      if (!bot.controllerState || bot.controllerState.length !== controller.size) {
+          bot.controllerState = new Array(controller.size).fill(0);
+      }
+
+      const n = controller.size;
+      const state = bot.controllerState;
+      const hx = Math.cos(bot.heading);
+      const hy = Math.sin(bot.heading);
+      const norm = Math.sqrt(senses.x * senses.x + senses.y * senses.y) || 1;
+      const inputs = [
+          ((senses.x * hx + senses.y * hy) / norm) * senses.intensity,
+          ((senses.y * hx - senses.x * hy) / norm) * senses.intensity,
+          senses.intensity
+      ];
+      const outputs = this.controllerOutputs(bot)!;
+
+      for (let i = 0; i < n; i++) {
+          let net = 0;
+          for (let j = 0; j < n; j++) net += controller.weights[i * n + j] * outputs[j];
+          for (let k = 0; k < CONTROLLER_INPUTS; k++) net += controller.inputWeights[i * CONTROLLER_INPUTS + k] * inputs[k];
+          state[i] += (net - state[i]) / controller.timeConstants[i];
+      }
+  }
+
+  // Node firing rates in (0, 1), or null when the bot has no controller
+  private controllerOutputs(bot: Xenobot): number[] | null {
+      const controller = bot.genome.controller;
+      if (!controller || !bot.controllerState) return null;
+      return bot.controllerState.map((y, i) => sigmoid(y + controller.biases[i]));
+  }
+
   private updateInternalBio(bot: Xenobot, time: number): number {
       let activeCharge = 0;
       const mSpeed = this.config.muscleSpeed;
+      // Sensing something (food or a neighbour) quickens the muscle rhythm
+      const arousal = 1.0 + (bot.sensoryInput ?? 0) * NEURON_FREQ_GAIN;
+      const outputs = this.controllerOutputs(bot);
+      let muscleIndex = 0;
       
       for(const spring of bot.springs) {
           if (!spring.matterConstraintId) continue;
@@ -671,14 +1254,24 @@ export class PhysicsEngine {
                const p2 = bot.particles[spring.p2];
                
                const avgCharge = (p1.charge + p2.charge) * 0.5;
-               const freqMod = 1.0 + avgCharge * 0.2; 
+               const freqMod = (1.0 + avgCharge * 0.2) * arousal; 
                
+               // Neural control: one node scales this muscle's amplitude (0.5x-1.5x),
+               // the next shifts its phase by up to half a cycle either way
+               let phase = spring.phaseOffset || 0;
+               let amplitudeGain = 1.0;
+               if (outputs) {
+                   amplitudeGain = 0.5 + outputs[(2 * muscleIndex) % outputs.length];
+                   phase += (outputs[(2 * muscleIndex + 1) % outputs.length] - 0.5) * Math.PI * 2;
+                   muscleIndex++;
+               }
+
                // Phase-shifted contraction creates Peristalsis
-               const contraction = Math.sin(time * mSpeed * freqMod + (spring.phaseOffset || 0));
+               const contraction = Math.sin(time * mSpeed * freqMod + phase);
                
                // Amplitude Logic: Stretches and compresses significantly
-               // 1.0 = Rest Length. range: 0.6 to 1.4
-               const amplitude = 0.4 * this.config.muscleStrength;
+               // 1.0 = Rest Length. range: 0.6 to 1.4 (wider or narrower under neural control)
+               const amplitude = 0.4 * this.config.muscleStrength * amplitudeGain;
                const targetLen = spring.restLength * (1.0 + contraction * amplitude);
                
                // Actuate Matter.js Constraint
@@ -727,9 +1320,9 @@ export class PhysicsEngine {
 
       const thrust = CILIA_FORCE * strokeIntensity;
 
-      // Steering (Wander)
+      // Steering (Wander): random search that gives way to sensory steering
       const wander = Math.sin(time * 0.3 + parseInt(bot.id.substr(0,3), 36));
-      const turn = wander * 0.8; // Increased turning authority
+      const turn = wander * 0.8 * (1 - (bot.sensoryInput ?? 0)); // Increased turning authority
       
       const impulseX = thrust * (hx - turn * hy);
       const impulseY = thrust * (hy + turn * hx);
@@ -791,6 +1384,145 @@ export class PhysicsEngine {
       });
   }
   
+  // --- WORLD SNAPSHOT ---
+
+  // Serialize everything needed to continue this exact trajectory: bot state,
+  // Matter.js body kinematics, live constraint lengths, food and scaling counters.
+  public captureWorld(): WorldSnapshot {
+      const bots: BotSnapshot[] = this.bots.map(bot => {
+          const bodies = bot.particles.map(p => {
+              const body = p.bodyId !== undefined ? this.bodyMap.get(p.bodyId) : undefined;
+              if (!body) return null;
+              const state: BodyState = {
+                  x: body.position.x,
+                  y: body.position.y,
+                  vx: body.velocity.x,
+                  vy: body.velocity.y,
+                  angle: body.angle,
+                  angularVelocity: body.angularVelocity,
+                  prevX: body.positionPrev.x,
+                  prevY: body.positionPrev.y,
+                  prevAngle: body.anglePrev,
+                  positionImpulse: { ...body.positionImpulse },
+                  constraintImpulse: { ...body.constraintImpulse },
+                  density: body.density,
+                  friction: body.friction,
+                  frictionAir: body.frictionAir,
+                  restitution: body.restitution
+              };
+              return state;
+          });
+
+          const constraints = bot.springs.map(s => {
+              const constraint = s.matterConstraintId !== undefined ? this.constraintMap.get(s.matterConstraintId) : undefined;
+              if (!constraint) return null;
+              return {
+                  length: constraint.length,
+                  stiffness: constraint.stiffness,
+                  damping: constraint.damping
+              };
+          });
+
+          return { bot: structuredClone(bot), bodies, constraints };
+      });
+
+      return {
+          bots,
+          food: this.food.map(f => ({ ...f })),
+          groupAGrowthCount: this.groupAGrowthCount,
+          groupAReproductionCount: this.groupAReproductionCount,
+          species: structuredClone(this.species),
+          archive: structuredClone(this.archive.elites),
+          noveltyArchive: structuredClone(this.noveltyArchive.entries),
+          lineage: structuredClone(this.lineage.entries)
+      };
+  }
+
+  // Replace the current world with a captured one, rebuilding Matter.js bodies
+  // and constraints in their original order and relinking their IDs.
+  public restoreWorld(snapshot: WorldSnapshot) {
+      Matter.Composite.clear(this.engine.world, false);
+      this.bodyMap.clear();
+      this.constraintMap.clear();
+      this.bodyOwner.clear();
+
+      this.bots = snapshot.bots.map(({ bot: saved, bodies, constraints }) => {
+          const bot: Xenobot = structuredClone(saved);
+          bot.matterCompositeId = undefined;
+          if (bot.isDead) return bot;
+
+          const composite = Matter.Composite.create();
+          const collisionGroup = Matter.Body.nextGroup(true);
+
+          bot.particles.forEach((p, i) => {
+              p.bodyId = undefined;
+              const state = bodies[i];
+              if (!state) return;
+
+              const body = Matter.Bodies.circle(state.x, state.y, COLLISION_RADIUS, {
+                  frictionAir: state.frictionAir,
+                  restitution: state.restitution,
+                  friction: state.friction,
+                  density: state.density,
+                  label: 'cell',
+                  collisionFilter: { group: collisionGroup }
+              });
+              Matter.Body.setAngle(body, state.angle);
+              Matter.Body.setVelocity(body, { x: state.vx, y: state.vy });
+              Matter.Body.setAngularVelocity(body, state.angularVelocity);
+              // Verlet history and solver warm-start impulses, so the next step integrates identically
+              body.positionPrev.x = state.prevX;
+              body.positionPrev.y = state.prevY;
+              body.anglePrev = state.prevAngle;
+              Object.assign(body.positionImpulse, state.positionImpulse);
+              Object.assign(body.constraintImpulse, state.constraintImpulse);
+
+              this.bodyMap.set(body.id, body);
+              Matter.Composite.add(composite, body);
+              p.bodyId = body.id;
+          });
+
+          bot.springs.forEach((s, i) => {
+              s.matterConstraintId = undefined;
+              const state = constraints[i];
+              const p1 = bot.particles[s.p1];
+              const p2 = bot.particles[s.p2];
+              const bodyA = p1?.bodyId !== undefined ? this.bodyMap.get(p1.bodyId) : undefined;
+              const bodyB = p2?.bodyId !== undefined ? this.bodyMap.get(p2.bodyId) : undefined;
+              if (!state || !bodyA || !bodyB) return;
+
+              const constraint = Matter.Constraint.create({
+                  bodyA,
+                  bodyB,
+                  length: state.length,
+                  stiffness: state.stiffness,
+                  damping: state.damping
+              });
+              this.constraintMap.set(constraint.id, constraint);
+              Matter.Composite.add(composite, constraint);
+              s.matterConstraintId = constraint.id;
+          });
+
+          Matter.World.add(this.engine.world, composite);
+          bot.matterCompositeId = composite.id;
+          this.claimBodies(bot);
+          return bot;
+      });
+
+      this.foodIndex.clear();
+      this.foodVersion++;
+      this.foodChanges = null;
+      snapshot.food.forEach(f => this.addFood({ ...f }));
+      this.groupAGrowthCount = snapshot.groupAGrowthCount;
+      this.groupAReproductionCount = snapshot.groupAReproductionCount;
+      this.species = structuredClone(snapshot.species ?? []);
+      this.archive.load(structuredClone(snapshot.archive ?? []));
+      this.noveltyArchive.load(snapshot.noveltyArchive ?? []);
+      this.lineage.load(snapshot.lineage ?? []);
+      this.bots.forEach(b => this.lineage.record(b.genome)); // Snapshots from before lineage tracking
+      this.events = [];
+  }
+  
   public getPopulationStats(generation: number): GeneticStats {
       let skin = 0, heart = 0, neuron = 0;
       this.bots.forEach(b => {
@@ -811,24 +1543,61 @@ export class PhysicsEngine {
       };
   }
   
-  public evolvePopulation(generation: number): boolean {
-    const currentGenomes = this.bots.map(b => {
-        const dist = !isNaN(b.centerOfMass.x) ? b.centerOfMass.x - b.startPosition.x : 0;
-        b.genome.fitness = b.energy + dist * 2;
+  // Crossover offspring bred for `generation` (at the previous evolution step) by mode,
+  // and how many of them are still alive
+  public getCrossoverStats(generation: number): CrossoverStats {
+      const stats = emptyCrossoverStats();
+      this.bots.forEach(b => {
+          const { birthCause, crossoverMode } = b.genome;
+          if (birthCause !== 'CROSSOVER' || !crossoverMode || b.genome.generation !== generation) return;
+          stats[crossoverMode].born++;
+          if (!b.isDead) stats[crossoverMode].survived++;
+      });
+      return stats;
+  }
+
+  // Assign fitness (energy + distance travelled) and record each bot's origin for respawning
+  // Weighted objectives from config.fitnessWeights (see services/fitness.ts)
+  public fitnessOf(bot: Xenobot): number {
+    return scoreBot(bot, this.bots, this.config.fitnessWeights);
+  }
+
+  // Also keeps each objective's raw value for Pareto selection and, in NOVELTY mode, scores
+  // every trajectory against the behavior archive before archiving the most novel
+  public scorePopulation(): Genome[] {
+    const genomes = this.bots.map(b => {
+        b.genome.fitness = this.fitnessOf(b);
+        b.genome.objectives = evaluateObjectives(b, this.bots, this.config.fitnessWeights);
         if (!isNaN(b.centerOfMass.x)) {
             b.genome.originX = b.centerOfMass.x;
             b.genome.originY = b.centerOfMass.y;
         }
         return b.genome;
     });
-    
-    const newGenomes = algoEvolve(currentGenomes, generation, this.config.populationSize);
+
+    if (this.config.selectionMode === 'NOVELTY') {
+        const behaviors = this.bots.map(characterize);
+        const novelty = this.noveltyArchive.score(behaviors);
+        genomes.forEach((g, i) => g.novelty = novelty[i]);
+        this.noveltyArchive.record(behaviors, novelty);
+    }
+    return genomes;
+  }
+
+  public evolvePopulation(generation: number, currentGenomes: Genome[] = this.scorePopulation()): boolean {
+    this.bots.forEach(b => this.archive.consider({ ...b.genome, fitness: this.fitnessOf(b) }, describeBot(b)));
+    const { population: newGenomes, species, islands } = algoEvolve(
+        currentGenomes, generation, this.config.populationSize, this.species, this.config
+    );
+    this.species = species;
+    this.islands = islands;
     if (newGenomes.length === 0) return false;
 
     // Remove old physics bodies
     Matter.Composite.clear(this.engine.world, false);
     this.bodyMap.clear();
     this.constraintMap.clear();
+    this.bodyOwner.clear();
     
     // Rebuild world
     const nextBots: Xenobot[] = [];
@@ -836,11 +1605,11 @@ export class PhysicsEngine {
         let startX = 0;
         let startY = 0;
         if (typeof g.originX === 'number' && !isNaN(g.originX)) {
-            startX = g.originX + (Math.random()-0.5)*50;
+            startX = g.originX + (rng.next()-0.5)*50;
         } else {
-            startX = (Math.random()-0.5)*1000;
+            startX = (rng.next()-0.5)*1000;
         }
-        startY = 200 + Math.random() * 100;
+        startY = 200 + rng.next() * 100;
 
         const bot = this.createBot(g, startX, startY);
         nextBots.push(bot);
@@ -848,6 +1617,7 @@ export class PhysicsEngine {
 
     if (nextBots.length > 0) {
         this.bots = nextBots;
+        this.lineage.prune(nextBots.map(b => b.genome.id), generation + 1);
         return true;
     }
     return false;
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from './random';
+
+const draw = (random: SeededRandom, count: number) => Array.from({ length: count }, () => random.next());
+
+describe('SeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    expect(draw(new SeededRandom(42), 20)).toEqual(draw(new SeededRandom(42), 20));
+    expect(draw(new SeededRandom(42), 20)).not.toEqual(draw(new SeededRandom(43), 20));
+  });
+
+  it('replays the sequence after restoring a saved state', () => {
+    const random = new SeededRandom(1234);
+    draw(random, 7);
+    const state = random.getState();
+    const expected = draw(random, 10);
+
+    const restored = new SeededRandom(99);
+    restored.setState(state);
+    expect(restored.getState()).toBe(state);
+    expect(draw(restored, 10)).toEqual(expected);
+  });
+
+  it('restarts the sequence on reseed', () => {
+    const random = new SeededRandom(5);
+    const first = draw(random, 5);
+    random.reseed(5);
+    expect(draw(random, 5)).toEqual(first);
+    expect(random.getSeed()).toBe(5);
+  });
+});
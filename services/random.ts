@@ -0,0 +1,63 @@
+// --- Seeded PRNG ---
+// Every simulation-side random draw (physics, genetics, spawning, world events)
+// goes through the shared `rng` instance so a seed + config reproduces a run.
+// Cosmetic randomness (audio, UI flavour text) intentionally stays on Math.random.
+
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  public reseed(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  // Raw generator state, for snapshotting a run mid-flight
+  public getState(): number {
+    return this.state;
+  }
+
+  public setState(state: number) {
+    this.state = state >>> 0;
+  }
+
+  // Mulberry32: fast, 32-bit state, good enough distribution for gameplay
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [0, max)
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  public pick<T>(items: T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // Base-36 identifier, drop-in for Math.random().toString(36).substr(2, n)
+  public id(length: number = 9): string {
+    let out = '';
+    for (let i = 0; i < length; i++) {
+      out += this.int(36).toString(36);
+    }
+    return out;
+  }
+}
+
+export const rng = new SeededRandom(createSeed());
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { importSaveData, createSaveData } from './saveData';
+import { createRandomGenome } from './geneticAlgorithm';
+import { DEFAULT_CONFIG, SAVE_SCHEMA_VERSION } from '../constants';
+
+// A genome as a version 1/2 build wrote it: no strainId, faction implied by the hue
+const legacyGenome = (hue: number) => {
+  const { strainId, ...genome } = createRandomGenome(1, 0);
+  return { ...genome, color: `hsl(${hue}, 80%, 60%)` };
+};
+
+const currentSave = (overrides: Record<string, unknown> = {}) => ({
+  ...JSON.parse(JSON.stringify(createSaveData({
+    config: { ...DEFAULT_CONFIG },
+    population: [createRandomGenome(1, 0)],
+    generation: 3,
+    timestamp: 1700000000000,
+    researchState: { bioData: 0, unlockedUpgrades: [], clickMultiplier: 1, passiveMultiplier: 1 },
+    seed: DEFAULT_CONFIG.seed
+  }))),
+  ...overrides
+});
+
+describe('importSaveData', () => {
+  it('assigns a seed to a version 1 save that has none', () => {
+    const { seed, ...config } = DEFAULT_CONFIG;
+    const { data, report } = importSaveData({ config, population: [legacyGenome(190)], generation: 2, timestamp: 0 });
+
+    expect(report.fromVersion).toBe(1);
+    expect(report.fatal).toBeNull();
+    expect(Number.isInteger(data!.seed)).toBe(true);
+    expect(data!.config.seed).toBe(data!.seed);
+    expect(report.issues.some(issue => issue.path === 'seed' && issue.action === 'MIGRATED')).toBe(true);
+  });
+
+  it('puts legacy hues 150-230 in strain 0 and the rest in strain 1', () => {
+    const { data } = importSaveData({
+      schemaVersion: 2,
+      seed: 7,
+      config: { ...DEFAULT_CONFIG, seed: 7 },
+      population: [legacyGenome(151), legacyGenome(190), legacyGenome(229), legacyGenome(100), legacyGenome(300)],
+      generation: 2,
+      timestamp: 0
+    });
+
+    expect(data!.population.map(g => g.strainId)).toEqual([0, 0, 0, 1, 1]);
+  });
+
+  it('clamps out-of-range config values and reports the repair', () => {
+    const { data, report } = importSaveData(currentSave({ config: { ...DEFAULT_CONFIG, foodCount: 999999, migrationRate: -2 } }));
+
+    expect(data!.config.foodCount).toBe(20000);
+    expect(data!.config.migrationRate).toBe(0);
+    expect(report.issues).toContainEqual(expect.objectContaining({ path: 'config.foodCount', action: 'REPAIRED' }));
+    expect(report.issues).toContainEqual(expect.objectContaining({ path: 'config.migrationRate', action: 'REPAIRED' }));
+  });
+
+  it('drops a malformed snapshot but keeps the population', () => {
+    const save = currentSave({ snapshot: { version: -1, world: {} } });
+    const { data, report } = importSaveData(save);
+
+    expect(data!.snapshot).toBeUndefined();
+    expect(data!.population).toHaveLength(1);
+    expect(data!.population[0].id).toBe(save.population[0].id);
+    expect(report.issues).toContainEqual(expect.objectContaining({ path: 'snapshot', action: 'REJECTED' }));
+  });
+
+  it('rejects a save from a newer schema', () => {
+    const { data, report } = importSaveData(currentSave({ schemaVersion: SAVE_SCHEMA_VERSION + 1 }));
+
+    expect(data).toBeNull();
+    expect(report.fatal).toMatch(/newer version/);
+  });
+});
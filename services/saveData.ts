@@ -0,0 +1,594 @@
+import {
+  SaveData,
+  SaveImportIssue,
+  SaveImportReport,
+  SimulationConfig,
+  SimulationSnapshot,
+  Genome,
+  ControllerGenes,
+  CppnGenes,
+  CellType,
+  ResearchState,
+  UpgradeID,
+  FitnessObjective,
+  FitnessWeights,
+  SelectionMode,
+  MigrationTopology,
+  BirthCause,
+  MutationSummary,
+  MutationConfig,
+  MutationOperator,
+  CrossoverMode
+} from '../types';
+import {
+  DEFAULT_CONFIG,
+  UPGRADES,
+  SAVE_SCHEMA_VERSION,
+  SIMULATION_SNAPSHOT_VERSION,
+  CONTROLLER_INPUTS,
+  CONTROLLER_TAU_RANGE,
+  MAX_GRID_SIZE,
+  PLAYER_STRAIN_ID,
+  BEHAVIOR_SAMPLES,
+  MAX_ISLANDS
+} from '../constants';
+import { createSeed } from './random';
+import { CPPN_INPUT_COUNT, CPPN_OUTPUT_COUNT, CPPN_ACTIVATIONS } from './cppn';
+import { DESCRIPTOR_KEYS } from './eliteArchive';
+import { FITNESS_OBJECTIVES } from './fitness';
+import { MUTATION_OPERATORS, CROSSOVER_MODES } from './geneticAlgorithm';
+
+// --- Save Schema ---
+// Version history:
+//   1: original format (config, population, generation, timestamp, researchState),
+//      optionally with the later seed/snapshot fields but no schemaVersion
+//   2: schemaVersion + required seed
+//   3: genomes carry an explicit strainId instead of implying their faction by hue
+
+type RawObject = Record<string, any>;
+
+const MAX_CONTROLLER_SIZE = 16;
+const CELL_TYPES = new Set<number>(Object.values(CellType).filter((v): v is number => typeof v === 'number'));
+const UPGRADE_IDS = new Set<string>(UPGRADES.map(u => u.id));
+const FITNESS_OBJECTIVE_IDS = new Set<string>(FITNESS_OBJECTIVES.map(o => o.id));
+const SELECTION_MODES: SelectionMode[] = ['WEIGHTED', 'NSGA2', 'NOVELTY'];
+const MIGRATION_TOPOLOGIES: MigrationTopology[] = ['NONE', 'RING', 'FULL'];
+const MUTATION_OPERATOR_IDS = new Set<string>(MUTATION_OPERATORS);
+const CROSSOVER_MODE_IDS = new Set<string>(CROSSOVER_MODES);
+const BIRTH_CAUSES = new Set<BirthCause>(['SEED', 'CROSSOVER', 'MITOSIS', 'MUTAGEN', 'FRACTURE', 'ELITE']);
+
+// Inclusive bounds for config fields that would break the world if out of range
+const CONFIG_RANGES: Partial<Record<keyof SimulationConfig, [number, number]>> = {
+  populationSize: [1, 10000],
+  maxPopulationSize: [1, 10000],
+  maxBotSize: [1, MAX_GRID_SIZE * MAX_GRID_SIZE],
+  foodCount: [0, 20000],
+  gridScale: [1, 500],
+  seed: [0, 0xFFFFFFFF],
+  cppnShare: [0, 1],
+  noveltyBlend: [0, 1],
+  islandCount: [0, MAX_ISLANDS],
+  migrationInterval: [1, 1000],
+  migrationRate: [0, 1]
+};
+
+// Config fields validated by the generic numeric check; the others have their own validators
+type NumericConfigKey = { [K in keyof SimulationConfig]: SimulationConfig[K] extends number ? K : never }[keyof SimulationConfig];
+const NUMERIC_CONFIG_KEYS = (Object.keys(DEFAULT_CONFIG) as (keyof SimulationConfig)[])
+  .filter((key): key is NumericConfigKey => typeof DEFAULT_CONFIG[key] === 'number');
+
+const isObject = (v: unknown): v is RawObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isParentList = (v: unknown): v is string[] => Array.isArray(v) && v.every(id => typeof id === 'string');
+const isOperatorList = (v: unknown): v is MutationOperator[] => Array.isArray(v) && v.every(op => MUTATION_OPERATOR_IDS.has(op));
+const isMutationSummary = (v: unknown): v is MutationSummary =>
+  isObject(v) && isFiniteNumber(v.cellsChanged) && isFiniteNumber(v.memoryDelta) && typeof v.networkChanged === 'boolean' &&
+  isOperatorList(v.operators) && isOperatorList(v.accepted);
+
+class IssueLog {
+  public issues: SaveImportIssue[] = [];
+
+  public rejected(path: string, message: string) {
+    this.issues.push({ path, action: 'REJECTED', message });
+  }
+
+  public repaired(path: string, message: string) {
+    this.issues.push({ path, action: 'REPAIRED', message });
+  }
+
+  public migrated(path: string, message: string) {
+    this.issues.push({ path, action: 'MIGRATED', message });
+  }
+}
+
+// --- Migrations ---
+// MIGRATIONS[n] upgrades a version n file to version n + 1.
+
+const MIGRATIONS: Record<number, (data: RawObject, log: IssueLog) => RawObject> = {
+  1: (data, log) => {
+    const config = isObject(data.config) ? data.config : {};
+    let seed = config.seed ?? data.seed;
+    if (!isFiniteNumber(seed)) {
+      seed = createSeed();
+      log.migrated('seed', `Save predates seeding; assigned new seed ${seed}`);
+    }
+    return { ...data, seed, config: { ...config, seed } };
+  },
+  2: (data, log) => {
+    // Version 2 builds put hues 150-230 in the native strain and everything else in the invasive one
+    const legacyStrain = (genome: RawObject) => {
+      const match = typeof genome.color === 'string' ? genome.color.match(/hsl\((\d+\.?\d*)/) : null;
+      const hue = match ? parseFloat(match[1]) : NaN;
+      return hue > 150 && hue < 230 ? 0 : 1;
+    };
+    const assign = (genome: unknown, strainId?: unknown) => {
+      if (!isObject(genome) || genome.strainId !== undefined) return genome;
+      return { ...genome, strainId: Number.isInteger(strainId) ? strainId : legacyStrain(genome) };
+    };
+
+    const population = Array.isArray(data.population) ? data.population.map(g => assign(g)) : data.population;
+    let snapshot = data.snapshot;
+    if (isObject(snapshot) && isObject(snapshot.world) && Array.isArray(snapshot.world.bots)) {
+      // Live bots already carry their faction as groupId
+      const bots = snapshot.world.bots.map((entry: unknown) => isObject(entry) && isObject(entry.bot)
+        ? { ...entry, bot: { ...entry.bot, genome: assign(entry.bot.genome, entry.bot.groupId) } }
+        : entry);
+      snapshot = { ...snapshot, world: { ...snapshot.world, bots } };
+    }
+    log.migrated('population', 'Assigned strain IDs from genome colors');
+    return { ...data, population, snapshot };
+  }
+};
+
+// --- Validators ---
+
+// Unknown objectives and non-finite weights are dropped; nothing usable means the default mix
+const validateFitnessWeights = (raw: unknown, log: IssueLog): FitnessWeights => {
+  if (!isObject(raw)) {
+    log.repaired('config.fitnessWeights', raw === undefined ? 'Missing, using the default objectives' : 'Not an object, using the default objectives');
+    return { ...DEFAULT_CONFIG.fitnessWeights };
+  }
+
+  const weights: FitnessWeights = {};
+  Object.entries(raw).forEach(([id, weight]) => {
+    if (FITNESS_OBJECTIVE_IDS.has(id) && isFiniteNumber(weight)) weights[id as FitnessObjective] = weight;
+    else log.repaired(`config.fitnessWeights.${id}`, `Dropped invalid weight ${JSON.stringify(weight)}`);
+  });
+  if (Object.values(weights).every(w => w === 0)) {
+    log.repaired('config.fitnessWeights', 'No objective has a weight, using the default objectives');
+    return { ...DEFAULT_CONFIG.fitnessWeights };
+  }
+  return weights;
+};
+
+// Every rate is a probability (node weights are relative, but share the 0-1 range)
+const validateMutationConfig = (raw: unknown, log: IssueLog): MutationConfig => {
+  const defaults = DEFAULT_CONFIG.mutation;
+  if (!isObject(raw)) {
+    log.repaired('config.mutation', raw === undefined ? 'Missing, using the default rates' : 'Not an object, using the default rates');
+    return { ...defaults };
+  }
+
+  const rates = { ...defaults };
+  (Object.keys(defaults) as (keyof MutationConfig)[]).forEach(key => {
+    const value = raw[key];
+    if (isFiniteNumber(value) && value >= 0 && value <= 1) rates[key] = value;
+    else log.repaired(`config.mutation.${key}`, `Invalid value ${JSON.stringify(value)}, using default ${defaults[key]}`);
+  });
+  if (rates.nodeSkin + rates.nodeHeart + rates.nodeNeuron === 0) {
+    log.repaired('config.mutation', 'All growth cell weights are zero, using the default split');
+    rates.nodeSkin = defaults.nodeSkin;
+    rates.nodeHeart = defaults.nodeHeart;
+    rates.nodeNeuron = defaults.nodeNeuron;
+  }
+  return rates;
+};
+
+// Relative odds, so any non-negative value works as long as one mode stays on
+const validateCrossoverWeights = (raw: unknown, log: IssueLog): Record<CrossoverMode, number> => {
+  const defaults = DEFAULT_CONFIG.crossoverWeights;
+  if (!isObject(raw)) {
+    log.repaired('config.crossoverWeights', raw === undefined ? 'Missing, using the default weights' : 'Not an object, using the default weights');
+    return { ...defaults };
+  }
+
+  const weights = { ...defaults };
+  CROSSOVER_MODES.forEach(mode => {
+    const value = raw[mode];
+    if (isFiniteNumber(value) && value >= 0) weights[mode] = value;
+    else log.repaired(`config.crossoverWeights.${mode}`, `Invalid value ${JSON.stringify(value)}, using default ${defaults[mode]}`);
+  });
+  if (CROSSOVER_MODES.every(mode => weights[mode] === 0)) {
+    log.repaired('config.crossoverWeights', 'Every mode is off, using the default weights');
+    return { ...defaults };
+  }
+  return weights;
+};
+
+const validateConfig = (raw: unknown, log: IssueLog): SimulationConfig => {
+  const source = isObject(raw) ? raw : {};
+  const config = { ...DEFAULT_CONFIG };
+
+  NUMERIC_CONFIG_KEYS.forEach(key => {
+    const value = source[key];
+    if (!isFiniteNumber(value)) {
+      if (value !== undefined) log.repaired(`config.${key}`, `Invalid value ${JSON.stringify(value)}, using default ${DEFAULT_CONFIG[key]}`);
+      else log.repaired(`config.${key}`, `Missing, using default ${DEFAULT_CONFIG[key]}`);
+      return;
+    }
+
+    const range = CONFIG_RANGES[key];
+    if (range && (value < range[0] || value > range[1])) {
+      const clamped = Math.min(range[1], Math.max(range[0], value));
+      log.repaired(`config.${key}`, `${value} is outside [${range[0]}, ${range[1]}], clamped to ${clamped}`);
+      config[key] = clamped;
+      return;
+    }
+    config[key] = value;
+  });
+
+  config.seed = config.seed >>> 0;
+  config.islandCount = Math.floor(config.islandCount);
+  config.migrationInterval = Math.floor(config.migrationInterval);
+  config.fitnessWeights = validateFitnessWeights(source.fitnessWeights, log);
+  config.mutation = validateMutationConfig(source.mutation, log);
+  config.crossoverWeights = validateCrossoverWeights(source.crossoverWeights, log);
+  if (SELECTION_MODES.includes(source.selectionMode)) {
+    config.selectionMode = source.selectionMode;
+  } else {
+    log.repaired('config.selectionMode', source.selectionMode === undefined
+      ? `Missing, using default ${DEFAULT_CONFIG.selectionMode}`
+      : `Invalid value ${JSON.stringify(source.selectionMode)}, using default ${DEFAULT_CONFIG.selectionMode}`);
+  }
+  if (MIGRATION_TOPOLOGIES.includes(source.migrationTopology)) {
+    config.migrationTopology = source.migrationTopology;
+  } else {
+    log.repaired('config.migrationTopology', source.migrationTopology === undefined
+      ? `Missing, using default ${DEFAULT_CONFIG.migrationTopology}`
+      : `Invalid value ${JSON.stringify(source.migrationTopology)}, using default ${DEFAULT_CONFIG.migrationTopology}`);
+  }
+  if (config.maxPopulationSize < config.populationSize) {
+    log.repaired('config.maxPopulationSize', `Raised to populationSize (${config.populationSize})`);
+    config.maxPopulationSize = config.populationSize;
+  }
+  return config;
+};
+
+// Controller genes must have consistent array lengths and finite values; null if not
+const validateController = (raw: unknown): ControllerGenes | null => {
+  if (!isObject(raw)) return null;
+  const n = raw.size;
+  if (!Number.isInteger(n) || n < 1 || n > MAX_CONTROLLER_SIZE) return null;
+
+  const finiteArray = (v: unknown, length: number): v is number[] =>
+    Array.isArray(v) && v.length === length && v.every(isFiniteNumber);
+  if (!finiteArray(raw.weights, n * n) || !finiteArray(raw.inputWeights, n * CONTROLLER_INPUTS) ||
+      !finiteArray(raw.biases, n) || !finiteArray(raw.timeConstants, n)) {
+    return null;
+  }
+  // Time constants below the evolvable minimum make the Euler step unstable
+  if (raw.timeConstants.some(t => t < CONTROLLER_TAU_RANGE[0])) return null;
+
+  return {
+    size: n,
+    weights: [...raw.weights],
+    inputWeights: [...raw.inputWeights],
+    biases: [...raw.biases],
+    timeConstants: [...raw.timeConstants]
+  };
+};
+
+// CPPN genes need every input/output node, unique node IDs and connections between
+// existing nodes; null if not. Cycles are tolerated (the decoder skips cyclic nodes).
+const validateCppn = (raw: unknown): CppnGenes | null => {
+  if (!isObject(raw) || !Array.isArray(raw.nodes) || !Array.isArray(raw.connections) || !Number.isInteger(raw.nextNodeId)) return null;
+
+  const ids = new Set<number>();
+  for (const n of raw.nodes) {
+    if (!isObject(n) || !Number.isInteger(n.id) || ids.has(n.id) || n.id >= raw.nextNodeId) return null;
+    if (!CPPN_ACTIVATIONS.includes(n.activation) || !isFiniteNumber(n.bias)) return null;
+    ids.add(n.id);
+  }
+  for (let id = 0; id < CPPN_INPUT_COUNT + CPPN_OUTPUT_COUNT; id++) {
+    if (!ids.has(id)) return null;
+  }
+  if (!raw.connections.every((c: unknown) => isObject(c) && ids.has(c.from) && ids.has(c.to) &&
+      isFiniteNumber(c.weight) && typeof c.enabled === 'boolean')) {
+    return null;
+  }
+
+  return {
+    nodes: raw.nodes.map((n: RawObject) => ({ id: n.id, activation: n.activation, bias: n.bias })),
+    connections: raw.connections.map((c: RawObject) => ({ from: c.from, to: c.to, weight: c.weight, enabled: c.enabled })),
+    nextNodeId: raw.nextNodeId
+  };
+};
+
+// Returns null when the genome cannot be used. With `strict`, repairs count as rejection
+// (used for genomes inside a world snapshot, which must match their bodies exactly).
+const validateGenome = (raw: unknown, path: string, log: IssueLog, strict: boolean = false): Genome | null => {
+  if (!isObject(raw)) {
+    log.rejected(path, 'Not an object');
+    return null;
+  }
+
+  const size = raw.gridSize;
+  if (!Number.isInteger(size) || size < 1 || size > MAX_GRID_SIZE) {
+    log.rejected(`${path}.gridSize`, `Expected an integer in [1, ${MAX_GRID_SIZE}], got ${JSON.stringify(size)}`);
+    return null;
+  }
+
+  const genes = raw.genes;
+  if (!Array.isArray(genes) || genes.length !== size || genes.some(row => !Array.isArray(row) || row.length !== size)) {
+    log.rejected(`${path}.genes`, `Expected a ${size}x${size} grid to match gridSize`);
+    return null;
+  }
+
+  let badCells = 0;
+  let liveCells = 0;
+  const cleanGenes: CellType[][] = genes.map((row: unknown[]) => row.map(cell => {
+    if (typeof cell !== 'number' || !CELL_TYPES.has(cell)) {
+      badCells++;
+      return CellType.EMPTY;
+    }
+    if (cell !== CellType.EMPTY) liveCells++;
+    return cell as CellType;
+  }));
+
+  if (badCells > 0) {
+    if (strict) {
+      log.rejected(`${path}.genes`, `${badCells} cell(s) outside the CellType range`);
+      return null;
+    }
+    log.repaired(`${path}.genes`, `${badCells} cell(s) outside the CellType range set to EMPTY`);
+  }
+  if (liveCells === 0) {
+    log.rejected(`${path}.genes`, 'Genome has no living cells');
+    return null;
+  }
+
+  const genome: Genome = {
+    id: typeof raw.id === 'string' && raw.id.length > 0 ? raw.id : `IMPORTED-${createSeed().toString(36)}`,
+    gridSize: size,
+    genes: cleanGenes,
+    fitness: isFiniteNumber(raw.fitness) ? raw.fitness : 0,
+    generation: Number.isInteger(raw.generation) && raw.generation >= 0 ? raw.generation : 0,
+    color: typeof raw.color === 'string' ? raw.color : 'hsl(190, 90%, 60%)',
+    strainId: Number.isInteger(raw.strainId) && raw.strainId >= 0 ? raw.strainId : PLAYER_STRAIN_ID,
+    bioelectricMemory: isFiniteNumber(raw.bioelectricMemory) ? raw.bioelectricMemory : 0.5
+  };
+  if (isFiniteNumber(raw.originX)) genome.originX = raw.originX;
+  if (isFiniteNumber(raw.originY)) genome.originY = raw.originY;
+
+  const target = raw.targetGenes;
+  if (Array.isArray(target) && target.length === size && target.every(row =>
+      Array.isArray(row) && row.length === size && row.every(cell => typeof cell === 'number' && CELL_TYPES.has(cell)))) {
+    genome.targetGenes = target.map((row: CellType[]) => [...row]);
+  }
+  const controller = validateController(raw.controller);
+  if (controller) genome.controller = controller;
+  const cppn = validateCppn(raw.cppn);
+  if (cppn) genome.cppn = cppn;
+  if (Number.isInteger(raw.speciesId) && raw.speciesId > 0) genome.speciesId = raw.speciesId;
+  if (isParentList(raw.parentIds)) genome.parentIds = [...raw.parentIds];
+  if (BIRTH_CAUSES.has(raw.birthCause)) genome.birthCause = raw.birthCause;
+  if (CROSSOVER_MODE_IDS.has(raw.crossoverMode)) genome.crossoverMode = raw.crossoverMode;
+  if (isMutationSummary(raw.mutations)) {
+    genome.mutations = { ...raw.mutations, operators: [...raw.mutations.operators], accepted: [...raw.mutations.accepted] };
+  }
+
+  const repairs: string[] = [];
+  if (genome.id !== raw.id) repairs.push('id');
+  if (genome.fitness !== raw.fitness) repairs.push('fitness');
+  if (genome.generation !== raw.generation) repairs.push('generation');
+  if (genome.color !== raw.color) repairs.push('color');
+  if (genome.strainId !== raw.strainId) repairs.push('strainId');
+  if (genome.bioelectricMemory !== raw.bioelectricMemory) repairs.push('bioelectricMemory');
+  if (raw.originX !== undefined && genome.originX === undefined) repairs.push('originX');
+  if (raw.originY !== undefined && genome.originY === undefined) repairs.push('originY');
+  if (raw.targetGenes !== undefined && genome.targetGenes === undefined) repairs.push('targetGenes');
+  if (raw.controller !== undefined && genome.controller === undefined) repairs.push('controller');
+  if (raw.cppn !== undefined && genome.cppn === undefined) repairs.push('cppn');
+  if (raw.speciesId !== undefined && genome.speciesId === undefined) repairs.push('speciesId');
+  if (raw.parentIds !== undefined && genome.parentIds === undefined) repairs.push('parentIds');
+  if (raw.birthCause !== undefined && genome.birthCause === undefined) repairs.push('birthCause');
+  if (raw.mutations !== undefined && genome.mutations === undefined) repairs.push('mutations');
+  if (raw.crossoverMode !== undefined && genome.crossoverMode === undefined) repairs.push('crossoverMode');
+
+  if (repairs.length > 0) {
+    if (strict) {
+      log.rejected(path, `Invalid ${repairs.join(', ')}`);
+      return null;
+    }
+    log.repaired(path, `Reset invalid ${repairs.join(', ')}`);
+  }
+  return genome;
+};
+
+const validateResearchState = (raw: unknown, log: IssueLog): ResearchState => {
+  const fallback: ResearchState = { bioData: 0, unlockedUpgrades: [], clickMultiplier: 1, passiveMultiplier: 1 };
+  if (!isObject(raw)) {
+    log.repaired('researchState', 'Missing, starting with no research');
+    return fallback;
+  }
+
+  const state = { ...fallback };
+  if (isFiniteNumber(raw.bioData) && raw.bioData >= 0) state.bioData = raw.bioData;
+  else log.repaired('researchState.bioData', `Invalid value ${JSON.stringify(raw.bioData)}, reset to 0`);
+
+  (['clickMultiplier', 'passiveMultiplier'] as const).forEach(key => {
+    if (isFiniteNumber(raw[key]) && raw[key] > 0) state[key] = raw[key];
+    else log.repaired(`researchState.${key}`, `Invalid value ${JSON.stringify(raw[key])}, reset to 1`);
+  });
+
+  if (Array.isArray(raw.unlockedUpgrades)) {
+    raw.unlockedUpgrades.forEach((id: unknown, i: number) => {
+      if (typeof id === 'string' && UPGRADE_IDS.has(id)) {
+        if (!state.unlockedUpgrades.includes(id as UpgradeID)) state.unlockedUpgrades.push(id as UpgradeID);
+      } else {
+        log.rejected(`researchState.unlockedUpgrades[${i}]`, `Unknown upgrade ${JSON.stringify(id)}`);
+      }
+    });
+  } else {
+    log.repaired('researchState.unlockedUpgrades', 'Not a list, starting with no upgrades');
+  }
+  return state;
+};
+
+const allFinite = (obj: RawObject, keys: string[]) => keys.every(k => isFiniteNumber(obj[k]));
+
+// Structural check of a world snapshot. Any defect drops the whole snapshot (the
+// population is respawned instead), since a partial world cannot be rebuilt faithfully.
+const validateSnapshot = (raw: unknown, log: IssueLog): SimulationSnapshot | undefined => {
+  const reject = (message: string) => {
+    log.rejected('snapshot', `${message}; the population will be respawned instead`);
+    return undefined;
+  };
+
+  if (!isObject(raw)) return reject('Not an object');
+  if (raw.version !== SIMULATION_SNAPSHOT_VERSION) return reject(`Unsupported world snapshot version ${JSON.stringify(raw.version)}`);
+  if (!allFinite(raw, ['generation', 'simulationTime', 'evolutionTimer', 'rngState'])) return reject('Invalid clock or RNG state');
+
+  const world = raw.world;
+  if (!isObject(world) || !Array.isArray(world.bots) || !Array.isArray(world.food)) return reject('Missing world bots or food');
+  if (!allFinite(world, ['groupAGrowthCount', 'groupAReproductionCount'])) return reject('Invalid scaling counters');
+  if (!world.food.every((f: unknown) => isObject(f) && allFinite(f, ['x', 'y', 'energy', 'phase']))) return reject('Invalid food entry');
+  if (world.species !== undefined) {
+    if (!Array.isArray(world.species)) return reject('Species list is not a list');
+    for (let i = 0; i < world.species.length; i++) {
+      const species = world.species[i];
+      const path = `snapshot.world.species[${i}]`;
+      if (!isObject(species) || !allFinite(species, ['id', 'strainId', 'hue', 'size', 'offspring', 'bestFitness', 'staleGenerations'])) {
+        return reject(`${path} has invalid counters`);
+      }
+      if (species.islandId !== undefined && !(Number.isInteger(species.islandId) && species.islandId >= 0)) return reject(`${path} has an invalid island`);
+      if (!validateGenome(species.representative, `${path}.representative`, log, true)) return reject(`${path} has an invalid representative`);
+    }
+  }
+  if (world.archive !== undefined) {
+    if (!Array.isArray(world.archive)) return reject('Elite archive is not a list');
+    for (let i = 0; i < world.archive.length; i++) {
+      const elite = world.archive[i];
+      const path = `snapshot.world.archive[${i}]`;
+      if (!isObject(elite) || typeof elite.key !== 'string' || !Array.isArray(elite.bins) || !elite.bins.every(Number.isInteger)) {
+        return reject(`${path} has an invalid cell`);
+      }
+      if (!isObject(elite.descriptors) || !allFinite(elite.descriptors, DESCRIPTOR_KEYS)) return reject(`${path} has invalid descriptors`);
+      if (!validateGenome(elite.genome, `${path}.genome`, log, true)) return reject(`${path} has an invalid genome`);
+    }
+  }
+
+  if (world.lineage !== undefined) {
+    if (!Array.isArray(world.lineage)) return reject('Lineage is not a list');
+    const invalid = world.lineage.findIndex((r: unknown) =>
+      !isObject(r) || typeof r.id !== 'string' || !isParentList(r.parentIds) || !Number.isInteger(r.generation) ||
+      !BIRTH_CAUSES.has(r.cause) || !Number.isInteger(r.strainId) || (r.mutations !== undefined && !isMutationSummary(r.mutations)));
+    if (invalid !== -1) return reject(`snapshot.world.lineage[${invalid}] is not a lineage record`);
+  }
+  if (world.noveltyArchive !== undefined) {
+    if (!Array.isArray(world.noveltyArchive)) return reject('Novelty archive is not a list');
+    const invalid = world.noveltyArchive.findIndex((b: unknown) =>
+      !Array.isArray(b) || b.length !== BEHAVIOR_SAMPLES * 2 || !b.every(isFiniteNumber));
+    if (invalid !== -1) return reject(`snapshot.world.noveltyArchive[${invalid}] is not a behavior`);
+  }
+
+  for (let i = 0; i < world.bots.length; i++) {
+    const entry = world.bots[i];
+    const path = `snapshot.world.bots[${i}]`;
+    if (!isObject(entry) || !isObject(entry.bot)) return reject(`${path} is not a bot`);
+
+    const bot = entry.bot;
+    if (!validateGenome(bot.genome, `${path}.bot.genome`, log, true)) return reject(`${path} has an invalid genome`);
+    if (!Array.isArray(bot.particles) || !Array.isArray(bot.springs)) return reject(`${path} is missing particles or springs`);
+    if (!Array.isArray(entry.bodies) || entry.bodies.length !== bot.particles.length) return reject(`${path} bodies do not match its particles`);
+    if (!Array.isArray(entry.constraints) || entry.constraints.length !== bot.springs.length) return reject(`${path} constraints do not match its springs`);
+    if (!allFinite(bot, ['energy', 'age', 'groupId', 'heading'])) return reject(`${path} has invalid vitals`);
+
+    const particleCount = bot.particles.length;
+    if (!bot.springs.every((s: unknown) => isObject(s) && Number.isInteger(s.p1) && Number.isInteger(s.p2) &&
+        s.p1 >= 0 && s.p1 < particleCount && s.p2 >= 0 && s.p2 < particleCount)) {
+      return reject(`${path} has springs pointing at missing particles`);
+    }
+    if (!entry.bodies.every((b: unknown) => b === null || (isObject(b) && allFinite(b, ['x', 'y', 'vx', 'vy', 'angle', 'prevX', 'prevY'])))) {
+      return reject(`${path} has non-finite body state`);
+    }
+  }
+
+  return raw as SimulationSnapshot;
+};
+
+// --- Public API ---
+
+export function createSaveData(fields: Omit<SaveData, 'schemaVersion'>): SaveData {
+  return { schemaVersion: SAVE_SCHEMA_VERSION, ...fields };
+}
+
+// Migrate and validate an untrusted save. `data` is null only when the file is unusable;
+// otherwise every rejected item and repaired value is listed in the report.
+export function importSaveData(raw: unknown): { data: SaveData | null; report: SaveImportReport } {
+  const log = new IssueLog();
+  const report: SaveImportReport = { fromVersion: null, toVersion: SAVE_SCHEMA_VERSION, issues: log.issues, fatal: null };
+  const fail = (message: string) => {
+    report.fatal = message;
+    return { data: null, report };
+  };
+
+  if (!isObject(raw)) return fail('Save file is not a JSON object.');
+
+  const fromVersion = raw.schemaVersion === undefined ? 1 : raw.schemaVersion;
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) return fail(`Unknown schema version ${JSON.stringify(raw.schemaVersion)}.`);
+  if (fromVersion > SAVE_SCHEMA_VERSION) return fail(`Save is from a newer version (schema ${fromVersion}, this build reads up to ${SAVE_SCHEMA_VERSION}).`);
+  report.fromVersion = fromVersion;
+
+  let data: RawObject = raw;
+  for (let v = fromVersion; v < SAVE_SCHEMA_VERSION; v++) {
+    data = MIGRATIONS[v](data, log);
+    log.migrated('schemaVersion', `Upgraded from version ${v} to ${v + 1}`);
+  }
+
+  if (!isObject(data.config)) return fail('Missing simulation config.');
+  if (!Array.isArray(data.population)) return fail('Missing population list.');
+
+  const config = validateConfig(data.config, log);
+
+  const population: Genome[] = [];
+  data.population.forEach((g: unknown, i: number) => {
+    const genome = validateGenome(g, `population[${i}]`, log);
+    if (genome) population.push(genome);
+  });
+
+  let generation = data.generation;
+  if (!Number.isInteger(generation) || generation < 1) {
+    log.repaired('generation', `Invalid value ${JSON.stringify(generation)}, reset to 1`);
+    generation = 1;
+  }
+
+  const timestamp = isFiniteNumber(data.timestamp) ? data.timestamp : Date.now();
+  const researchState = validateResearchState(data.researchState, log);
+  const snapshot = data.snapshot === undefined ? undefined : validateSnapshot(data.snapshot, log);
+
+  if (population.length === 0 && !snapshot) return fail('No valid genomes in the population.');
+
+  return {
+    data: createSaveData({ config, population, generation, timestamp, researchState, seed: config.seed, ...(snapshot ? { snapshot } : {}) }),
+    report
+  };
+}
+
+// Validate a config that doesn't come from a save (e.g. a CLI config file), with the same
+// repairs and clamping an import applies
+export function validateSimulationConfig(raw: unknown): { config: SimulationConfig; issues: SaveImportIssue[] } {
+  const log = new IssueLog();
+  return { config: validateConfig(raw, log), issues: log.issues };
+}
+
+export function parseSaveFile(text: string): { data: SaveData | null; report: SaveImportReport } {
+  try {
+    return importSaveData(JSON.parse(text));
+  } catch {
+    return {
+      data: null,
+      report: { fromVersion: null, toVersion: SAVE_SCHEMA_VERSION, issues: [], fatal: 'Failed to parse save file (not valid JSON).' }
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { SaveData, SaveSlotMeta, SaveImportReport } from '../types';
+import { SAVE_SCHEMA_VERSION } from '../constants';
+import { importSaveData } from './saveData';
+
+// --- Save Slot Storage (IndexedDB) ---
+// Slot metadata (with thumbnails) and the full SaveData live in separate stores so the
+// slot browser can list everything without deserializing whole worlds.
+
+const DB_NAME = 'xenogenesis';
+const DB_VERSION = 1;
+const SLOT_STORE = 'slots';
+const DATA_STORE = 'saves';
+
+export const AUTOSAVE_SLOT_ID = 'autosave';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SLOT_STORE)) db.createObjectStore(SLOT_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a retry (e.g. after the user re-enables storage)
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export async function listSaveSlots(): Promise<SaveSlotMeta[]> {
+  const db = await openDatabase();
+  const slots = await promisify(db.transaction(SLOT_STORE).objectStore(SLOT_STORE).getAll() as IDBRequest<SaveSlotMeta[]>);
+  return slots.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// Create or overwrite a slot. Omit `id` to create a new manual slot.
+export async function writeSaveSlot(
+  data: SaveData,
+  options: { id?: string; name: string; thumbnail: string | null }
+): Promise<SaveSlotMeta> {
+  const db = await openDatabase();
+  const id = options.id ?? `slot-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+  const tx = db.transaction([SLOT_STORE, DATA_STORE], 'readwrite');
+  const slots = tx.objectStore(SLOT_STORE);
+
+  const existing = await promisify(slots.get(id) as IDBRequest<SaveSlotMeta | undefined>);
+  const now = Date.now();
+  const meta: SaveSlotMeta = {
+    id,
+    name: options.name,
+    isAutosave: id === AUTOSAVE_SLOT_ID,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    generation: data.generation,
+    bioData: data.researchState.bioData,
+    populationSize: data.snapshot ? data.snapshot.world.bots.filter(b => !b.bot.isDead).length : data.population.length,
+    thumbnail: options.thumbnail
+  };
+
+  slots.put(meta);
+  tx.objectStore(DATA_STORE).put(data, id);
+  await transactionDone(tx);
+  return meta;
+}
+
+// Read a slot back through the same migration/validation path as imported files
+export async function loadSaveSlot(id: string): Promise<{ data: SaveData | null; report: SaveImportReport }> {
+  const db = await openDatabase();
+  const raw = await promisify(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(id));
+  if (raw === undefined) {
+    return {
+      data: null,
+      report: { fromVersion: null, toVersion: SAVE_SCHEMA_VERSION, issues: [], fatal: 'Save slot data is missing.' }
+    };
+  }
+  return importSaveData(raw);
+}
+
+export async function renameSaveSlot(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SLOT_STORE, 'readwrite');
+  const slots = tx.objectStore(SLOT_STORE);
+  const meta = await promisify(slots.get(id) as IDBRequest<SaveSlotMeta | undefined>);
+  if (meta) slots.put({ ...meta, name });
+  await transactionDone(tx);
+}
+
+export async function deleteSaveSlot(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SLOT_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(SLOT_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  await transactionDone(tx);
+}
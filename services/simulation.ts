@@ -0,0 +1,193 @@
+import { PhysicsEngine } from './physicsEngine';
+import { createRandomGenome, summarizeFitness, summarizeEncodings, summarizeNovelty, emptyMutationStats } from './geneticAlgorithm';
+import { rng } from './random';
+import {
+  SimulationConfig,
+  Genome,
+  GlobalEvent,
+  EvolvedPayload,
+  SimulationSnapshot
+} from '../types';
+import {
+  EVOLUTION_INTERVAL,
+  FIXED_TIMESTEP,
+  GLOBAL_EVENTS,
+  GLOBAL_EVENT_CHANCE,
+  SIMULATION_SNAPSHOT_VERSION,
+  STRAINS
+} from '../constants';
+import { getStrain } from './strains';
+
+// Headless simulation core: world setup, the fixed-step clock, global events and
+// continuous evolution. Shared by the web worker and the Node CLI, so it must stay
+// free of DOM, React and messaging concerns.
+export class Simulation {
+  public engine: PhysicsEngine;
+  public generation = 1;
+  public simulationTime = 0; // Total simulated time in ms (drives muscle phases)
+  public evolutionTimer = 0;
+  public globalEvent: GlobalEvent | null = null;
+
+  constructor(config: SimulationConfig) {
+    // Reseed before anything draws from the RNG so the same seed + config replays the same run
+    rng.reseed(config.seed);
+    this.engine = new PhysicsEngine(config);
+  }
+
+  // Spawn a fresh (or loaded) population at its colony positions
+  public populate(startPop?: Genome[], startGen?: number) {
+    const config = this.engine.config;
+    let pop = startPop ? [...startPop] : [];
+    this.generation = startGen || 1;
+
+    // Strict Population Cap Enforcement
+    if (pop.length > config.populationSize) {
+        pop = pop.slice(0, config.populationSize);
+    }
+
+    // Population Initialization Strategy
+    if (pop.length < config.populationSize) {
+        const totalSize = Math.max(STRAINS.length, config.populationSize);
+        // Split evenly across the registered strains, remainder going to the first ones
+        const fresh = STRAINS.flatMap((strain, i) => {
+            const size = Math.floor(totalSize / STRAINS.length) + (i < totalSize % STRAINS.length ? 1 : 0);
+            return Array(size).fill(null).map(() => createRandomGenome(this.generation, strain.id, config.cppnShare));
+        });
+
+        pop = [...pop, ...fresh].slice(0, config.populationSize);
+    }
+
+    // Create Bots with Position Logic
+    this.engine.bots = pop.map(g => {
+        let startX = 0;
+        let startY = 200 + rng.next() * 100;
+
+        // Force rigorous separation for Generation 1 to ensure colonies don't touch
+        if (this.generation === 1) {
+            // Each strain starts around its registered home
+            startX = getStrain(g.strainId).homeX;
+
+            // Large vertical variance to prevent horizontal line clumping
+            startY = 200 + (rng.next() - 0.5) * 1200;
+
+            // Random scatter within the colony area
+            startX += (rng.next() - 0.5) * 600;
+
+            // Update genome origin to persist this separation
+            g.originX = startX;
+            g.originY = startY;
+        } else {
+            // For subsequent generations or loaded saves, check for valid existing position
+            const hasValidOrigin = typeof g.originX === 'number' && !isNaN(g.originX) && Math.abs(g.originX) > 1;
+
+            if (hasValidOrigin) {
+                startX = g.originX! + (rng.next() - 0.5) * 50;
+                if (typeof g.originY === 'number') startY = g.originY + (rng.next() - 0.5) * 50;
+            } else {
+                // Fallback separation just in case
+                startX = getStrain(g.strainId).homeX + (rng.next() - 0.5) * 500;
+            }
+        }
+
+        return this.engine.createBot(g, startX, startY);
+    });
+
+    this.evolutionTimer = 0;
+    this.simulationTime = 0;
+    this.globalEvent = null;
+  }
+
+  public capture(): SimulationSnapshot {
+    return {
+        version: SIMULATION_SNAPSHOT_VERSION,
+        world: this.engine.captureWorld(),
+        generation: this.generation,
+        simulationTime: this.simulationTime,
+        evolutionTimer: this.evolutionTimer,
+        globalEvent: this.globalEvent ? { ...this.globalEvent } : null,
+        rngState: rng.getState()
+    };
+  }
+
+  // Rebuild a captured run so it continues the same trajectory instead of reseeding it
+  public restore(snapshot: SimulationSnapshot) {
+    if (snapshot.version !== SIMULATION_SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${snapshot.version} (expected ${SIMULATION_SNAPSHOT_VERSION})`);
+    }
+
+    this.engine.restoreWorld(snapshot.world);
+    // The engine constructor drew from the RNG, so restore its state last
+    rng.setState(snapshot.rngState);
+
+    this.generation = snapshot.generation;
+    this.simulationTime = snapshot.simulationTime;
+    this.evolutionTimer = snapshot.evolutionTimer;
+    this.globalEvent = snapshot.globalEvent;
+  }
+
+  // Advance one fixed physics step. Returns the finished generation's report
+  // when this step triggered continuous evolution, otherwise null.
+  public step(): EvolvedPayload | null {
+    this.engine.update(this.simulationTime / 1000); // Pass time in seconds for muscle phases
+    this.simulationTime += FIXED_TIMESTEP;
+
+    this.stepGlobalEvent();
+    this.rollGlobalEvent();
+
+    // Evolution Check
+    this.evolutionTimer += 1;
+    if (this.evolutionTimer >= EVOLUTION_INTERVAL) {
+        this.evolutionTimer = 0;
+        return this.evolve();
+    }
+    return null;
+  }
+
+  public applyGlobalEvent(evt: GlobalEvent) {
+    if (this.globalEvent) return; // One at a time
+    this.globalEvent = evt;
+
+    if (evt.type === 'ALGAL_BLOOM') {
+        this.engine.spawnFood();
+        this.engine.spawnFood();
+    }
+  }
+
+  private evolve(): EvolvedPayload {
+    // Capture Stats before mutation for the finishing generation
+    const stats = this.engine.getPopulationStats(this.generation);
+    const scored = this.engine.scorePopulation();
+    const report: EvolvedPayload = {
+        generation: this.generation,
+        stats,
+        fitness: summarizeFitness(scored),
+        encodings: summarizeEncodings(scored),
+        species: [],
+        novelty: this.engine.config.selectionMode === 'NOVELTY' ? summarizeNovelty(scored, this.engine.noveltyArchive.size) : null,
+        mutations: emptyMutationStats(),
+        crossover: this.engine.getCrossoverStats(this.generation),
+        islands: []
+    };
+
+    this.engine.evolvePopulation(this.generation, scored);
+    report.species = this.engine.species.map(({ representative, ...summary }) => summary);
+    report.mutations = this.engine.takeMutationStats(); // Includes the offspring just bred
+    report.islands = this.engine.islands;
+
+    // Always increment the cycle counter to reflect the passage of evolutionary epochs
+    this.generation++;
+    return report;
+  }
+
+  private stepGlobalEvent() {
+    if (!this.globalEvent) return;
+    const nextDuration = this.globalEvent.duration - 1;
+    this.globalEvent = nextDuration <= 0 ? null : { ...this.globalEvent, duration: nextDuration };
+  }
+
+  // Randomly trigger a new event (approx once every 2 mins of simulated time)
+  private rollGlobalEvent() {
+    if (this.globalEvent || rng.next() >= GLOBAL_EVENT_CHANCE) return;
+    this.applyGlobalEvent({ ...rng.pick(GLOBAL_EVENTS) });
+  }
+}
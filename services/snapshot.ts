@@ -0,0 +1,189 @@
+import { Xenobot, Food, PackedSnapshot } from '../types';
+
+// --- Packed Snapshot Layout ---
+// Each record is a fixed-stride slice of a typed array. Particle and spring
+// records for a bot are contiguous and addressed by the bot's START/COUNT ints.
+
+export const BOT_FLOATS = {
+  ENERGY: 0,
+  COM_X: 1,
+  COM_Y: 2,
+  IRRUPTION: 3,
+  ABSORPTION: 4,
+  TOTAL_CHARGE: 5,
+  HUE: 6, // -1 if the genome color is not HSL
+  SATURATION: 7,
+  LIGHTNESS: 8,
+  COLLISION_AGE: 9, // Simulated ms since lastCollisionTime at pack time, -1 if none
+  COLLISION_X: 10,
+  COLLISION_Y: 11,
+  REGENERATION: 12, // Progress (0-1) toward regrowing the next missing target cell
+  STRIDE: 13
+} as const;
+
+export const BOT_INTS = {
+  GROUP: 0,
+  AGE: 1,
+  PARTICLE_START: 2,
+  PARTICLE_COUNT: 3,
+  SPRING_START: 4,
+  SPRING_COUNT: 5,
+  STRIDE: 6
+} as const;
+
+export const PARTICLE_FLOATS = { X: 0, Y: 1, CHARGE: 2, STRIDE: 3 } as const;
+
+export const SPRING_FLOATS = { X1: 0, Y1: 1, X2: 2, Y2: 3, STRAIN: 4, STRIDE: 5 } as const;
+
+export const SPRING_FLAG_MUSCLE = 1;
+export const SPRING_FLAG_RIGID = 2; // Stiffness > 0.7 (Drawn as dark skeleton)
+
+export const FOOD_FLOATS = { X: 0, Y: 1, PHASE: 2, STRIDE: 3 } as const;
+
+// Genome colors are a small set of strings, so parse each one once
+const hslCache = new Map<string, [number, number, number]>();
+
+const parseHsl = (color: string): [number, number, number] => {
+  let hsl = hslCache.get(color);
+  if (!hsl) {
+    const match = color.match(/hsl\((\d+\.?\d*),\s*(\d+)%,\s*(\d+)%\)/);
+    hsl = match ? [parseFloat(match[1]), parseInt(match[2]), parseInt(match[3])] : [-1, 0, 0];
+    hslCache.set(color, hsl);
+  }
+  return hsl;
+};
+
+// `simulationTime` (ms) is the clock collisions are stamped with. `foodSync` says which engine
+// and food version the food arrays belong to, and what changed since the previous TICK.
+export function packSnapshot(
+  bots: Xenobot[],
+  food: readonly Food[],
+  simulationTime: number,
+  foodSync: Pick<PackedSnapshot, 'worldEpoch' | 'foodVersion' | 'foodChanges'>
+): PackedSnapshot {
+  let botCount = 0, particleCount = 0, springCount = 0;
+  for (const b of bots) {
+    if (b.isDead) continue;
+    botCount++;
+    particleCount += b.particles.length;
+    springCount += b.springs.length;
+  }
+
+  const botIds: string[] = [];
+  const botFloats = new Float32Array(botCount * BOT_FLOATS.STRIDE);
+  const botInts = new Int32Array(botCount * BOT_INTS.STRIDE);
+  const particleFloats = new Float32Array(particleCount * PARTICLE_FLOATS.STRIDE);
+  const springFloats = new Float32Array(springCount * SPRING_FLOATS.STRIDE);
+  const springFlags = new Int32Array(springCount);
+
+  let bi = 0, pi = 0, si = 0;
+  for (const bot of bots) {
+    if (bot.isDead) continue;
+
+    const [h, s, l] = parseHsl(bot.genome.color || '');
+    const bf = bi * BOT_FLOATS.STRIDE;
+    botFloats[bf + BOT_FLOATS.ENERGY] = bot.energy;
+    botFloats[bf + BOT_FLOATS.COM_X] = bot.centerOfMass.x;
+    botFloats[bf + BOT_FLOATS.COM_Y] = bot.centerOfMass.y;
+    botFloats[bf + BOT_FLOATS.IRRUPTION] = bot.irruption;
+    botFloats[bf + BOT_FLOATS.ABSORPTION] = bot.absorption;
+    botFloats[bf + BOT_FLOATS.TOTAL_CHARGE] = bot.totalCharge;
+    botFloats[bf + BOT_FLOATS.HUE] = h;
+    botFloats[bf + BOT_FLOATS.SATURATION] = s;
+    botFloats[bf + BOT_FLOATS.LIGHTNESS] = l;
+    botFloats[bf + BOT_FLOATS.REGENERATION] = bot.regenerationProgress ?? 0;
+    botFloats[bf + BOT_FLOATS.COLLISION_AGE] = -1;
+    if (bot.lastCollisionTime !== undefined && bot.lastCollisionPoint) {
+      botFloats[bf + BOT_FLOATS.COLLISION_AGE] = simulationTime - bot.lastCollisionTime;
+      botFloats[bf + BOT_FLOATS.COLLISION_X] = bot.lastCollisionPoint.x;
+      botFloats[bf + BOT_FLOATS.COLLISION_Y] = bot.lastCollisionPoint.y;
+    }
+
+    const ib = bi * BOT_INTS.STRIDE;
+    botInts[ib + BOT_INTS.GROUP] = bot.groupId;
+    botInts[ib + BOT_INTS.AGE] = bot.age;
+    botInts[ib + BOT_INTS.PARTICLE_START] = pi;
+    botInts[ib + BOT_INTS.PARTICLE_COUNT] = bot.particles.length;
+    botInts[ib + BOT_INTS.SPRING_START] = si;
+    botInts[ib + BOT_INTS.SPRING_COUNT] = bot.springs.length;
+
+    for (const p of bot.particles) {
+      const o = pi * PARTICLE_FLOATS.STRIDE;
+      particleFloats[o + PARTICLE_FLOATS.X] = p.renderPos.x;
+      particleFloats[o + PARTICLE_FLOATS.Y] = p.renderPos.y;
+      particleFloats[o + PARTICLE_FLOATS.CHARGE] = p.charge;
+      pi++;
+    }
+
+    for (const spring of bot.springs) {
+      const p1 = bot.particles[spring.p1];
+      const p2 = bot.particles[spring.p2];
+      const o = si * SPRING_FLOATS.STRIDE;
+
+      if (p1 && p2) {
+        const dx = p1.renderPos.x - p2.renderPos.x;
+        const dy = p1.renderPos.y - p2.renderPos.y;
+        const dist = Math.sqrt(dx*dx + dy*dy);
+        springFloats[o + SPRING_FLOATS.X1] = p1.renderPos.x;
+        springFloats[o + SPRING_FLOATS.Y1] = p1.renderPos.y;
+        springFloats[o + SPRING_FLOATS.X2] = p2.renderPos.x;
+        springFloats[o + SPRING_FLOATS.Y2] = p2.renderPos.y;
+        springFloats[o + SPRING_FLOATS.STRAIN] = Math.abs(dist - spring.currentRestLength) / (spring.currentRestLength || 1);
+      } else {
+        // Invalid endpoints are skipped by the renderer's finite checks
+        springFloats[o + SPRING_FLOATS.X1] = NaN;
+      }
+
+      let flags = 0;
+      if (spring.isMuscle) flags |= SPRING_FLAG_MUSCLE;
+      if (spring.stiffness > 0.7) flags |= SPRING_FLAG_RIGID;
+      springFlags[si] = flags;
+      si++;
+    }
+
+    botIds.push(bot.id);
+    bi++;
+  }
+
+  const foodIds: string[] = [];
+  const foodFloats = new Float32Array(food.length * FOOD_FLOATS.STRIDE);
+  for (let i = 0; i < food.length; i++) {
+    foodIds.push(food[i].id);
+    const o = i * FOOD_FLOATS.STRIDE;
+    foodFloats[o + FOOD_FLOATS.X] = food[i].x;
+    foodFloats[o + FOOD_FLOATS.Y] = food[i].y;
+    foodFloats[o + FOOD_FLOATS.PHASE] = food[i].phase;
+  }
+
+  return {
+    botCount,
+    particleCount,
+    springCount,
+    foodCount: food.length,
+    ...foodSync,
+    botIds,
+    botFloats,
+    botInts,
+    particleFloats,
+    springFloats,
+    springFlags,
+    foodIds,
+    foodFloats
+  };
+}
+
+export function getSnapshotTransferables(snapshot: PackedSnapshot): ArrayBuffer[] {
+  return [
+    snapshot.botFloats.buffer,
+    snapshot.botInts.buffer,
+    snapshot.particleFloats.buffer,
+    snapshot.springFloats.buffer,
+    snapshot.springFlags.buffer,
+    snapshot.foodFloats.buffer
+  ] as ArrayBuffer[];
+}
+
+// Index of a bot ID within the snapshot, or -1
+export function findSnapshotBot(snapshot: PackedSnapshot, botId: string): number {
+  return snapshot.botIds.indexOf(botId);
+}
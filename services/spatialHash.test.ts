@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialHash } from './spatialHash';
+
+const sorted = (items: string[]) => [...items].sort();
+
+describe('SpatialHash', () => {
+  it('finds items on both sides of a cell boundary', () => {
+    const hash = new SpatialHash<string>(10);
+    hash.insert('left', 9, 5);
+    hash.insert('right', 11, 5);
+    hash.insert('below', 10, -1); // Negative coords land in their own cells
+    hash.insert('far', 50, 50);
+
+    expect(sorted(hash.queryRadius(10, 5, 2))).toEqual(['left', 'right']);
+    expect(sorted(hash.queryRadius(10, 2, 4))).toEqual(['below', 'left', 'right']);
+    expect(hash.nearest(10.5, 5, 5)).toBe('right');
+  });
+
+  it('visits exactly the items inside a rect spanning several cells', () => {
+    const hash = new SpatialHash<string>(10);
+    hash.insert('a', -15, -15);
+    hash.insert('b', 0, 0);
+    hash.insert('c', 25, 5);
+    hash.insert('d', 31, 5);
+
+    const seen: string[] = [];
+    hash.forEachInRect(-15, -15, 30, 10, item => seen.push(item));
+    expect(sorted(seen)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('drops removed items from queries and the dense list', () => {
+    const hash = new SpatialHash<string>(10);
+    ['a', 'b', 'c'].forEach((id, i) => hash.insert(id, i * 10, 0));
+
+    expect(hash.remove('a')).toBe(true);
+    expect(hash.remove('a')).toBe(false);
+    expect(hash.has('a')).toBe(false);
+    expect(hash.size).toBe(2);
+    expect(sorted([...hash.items])).toEqual(['b', 'c']);
+    expect(sorted(hash.queryRadius(0, 0, 25))).toEqual(['b', 'c']);
+  });
+
+  it('moves an item to its new cell when it is inserted again', () => {
+    const hash = new SpatialHash<string>(10);
+    hash.insert('bot', 5, 5);
+    hash.insert('bot', 35, 5);
+
+    expect(hash.size).toBe(1);
+    expect(hash.queryRadius(5, 5, 3)).toEqual([]);
+    expect(hash.queryRadius(35, 5, 3)).toEqual(['bot']);
+  });
+});
@@ -0,0 +1,166 @@
+// --- Uniform-Grid Spatial Hash ---
+// Buckets point items by cell so radius/rect queries only visit nearby cells.
+// Used by the engine for food consumption and by the canvas for picking and culling.
+// Insert, move and remove are O(1): every item remembers its slot in its cell and in
+// the dense `items` list, and removal swaps the last element into the hole.
+
+interface HashEntry<T> {
+  item: T;
+  x: number;
+  y: number;
+  key: number;
+  cellSlot: number;
+  itemSlot: number;
+}
+
+// Cell coords are packed into 32 bits. Far-apart cells can alias to the same key,
+// which only costs extra candidates because every query re-checks exact positions.
+const cellKey = (cx: number, cy: number) => ((cx & 0xFFFF) << 16) | (cy & 0xFFFF);
+
+export class SpatialHash<T> {
+  private cells = new Map<number, HashEntry<T>[]>();
+  private entries = new Map<T, HashEntry<T>>();
+  private dense: T[] = [];
+
+  constructor(public readonly cellSize: number) {}
+
+  public get size(): number {
+    return this.dense.length;
+  }
+
+  // Dense view of every indexed item (order changes on removal)
+  public get items(): readonly T[] {
+    return this.dense;
+  }
+
+  public has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  public insert(item: T, x: number, y: number) {
+    if (this.entries.has(item)) {
+      this.move(item, x, y);
+      return;
+    }
+    const entry: HashEntry<T> = { item, x, y, key: this.keyFor(x, y), cellSlot: 0, itemSlot: this.dense.length };
+    this.dense.push(item);
+    this.entries.set(item, entry);
+    this.addToCell(entry);
+  }
+
+  public move(item: T, x: number, y: number) {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+    entry.x = x;
+    entry.y = y;
+    const key = this.keyFor(x, y);
+    if (key === entry.key) return;
+
+    this.removeFromCell(entry);
+    entry.key = key;
+    this.addToCell(entry);
+  }
+
+  public remove(item: T): boolean {
+    const entry = this.entries.get(item);
+    if (!entry) return false;
+
+    this.removeFromCell(entry);
+    this.entries.delete(item);
+
+    const last = this.dense.pop()!;
+    if (last !== item) {
+      this.dense[entry.itemSlot] = last;
+      this.entries.get(last)!.itemSlot = entry.itemSlot;
+    }
+    return true;
+  }
+
+  public clear() {
+    this.cells.clear();
+    this.entries.clear();
+    this.dense.length = 0;
+  }
+
+  // Visit every item inside the axis-aligned rect (inclusive)
+  public forEachInRect(minX: number, minY: number, maxX: number, maxY: number, visit: (item: T, x: number, y: number) => void) {
+    if (this.dense.length === 0 || !(minX <= maxX && minY <= maxY)) return;
+
+    const cx0 = Math.floor(minX / this.cellSize);
+    const cx1 = Math.floor(maxX / this.cellSize);
+    const cy0 = Math.floor(minY / this.cellSize);
+    const cy1 = Math.floor(maxY / this.cellSize);
+
+    // A rect wider than the key space would revisit aliased cells, so fall back to a scan
+    if (cx1 - cx0 >= 0xFFFF || cy1 - cy0 >= 0xFFFF || (cx1 - cx0 + 1) * (cy1 - cy0 + 1) > this.dense.length) {
+      this.entries.forEach(e => {
+        if (e.x >= minX && e.x <= maxX && e.y >= minY && e.y <= maxY) visit(e.item, e.x, e.y);
+      });
+      return;
+    }
+
+    for (let cx = cx0; cx <= cx1; cx++) {
+      for (let cy = cy0; cy <= cy1; cy++) {
+        const cell = this.cells.get(cellKey(cx, cy));
+        if (!cell) continue;
+        for (let i = 0; i < cell.length; i++) {
+          const e = cell[i];
+          if (e.x >= minX && e.x <= maxX && e.y >= minY && e.y <= maxY) visit(e.item, e.x, e.y);
+        }
+      }
+    }
+  }
+
+  // Collect items within `radius` of (x, y) into `out` (cleared first)
+  public queryRadius(x: number, y: number, radius: number, out: T[] = []): T[] {
+    out.length = 0;
+    const rSq = radius * radius;
+    this.forEachInRect(x - radius, y - radius, x + radius, y + radius, (item, ix, iy) => {
+      const dx = ix - x;
+      const dy = iy - y;
+      if (dx * dx + dy * dy <= rSq) out.push(item);
+    });
+    return out;
+  }
+
+  // Closest item strictly within `radius`, or null
+  public nearest(x: number, y: number, radius: number): T | null {
+    let best: T | null = null;
+    let bestSq = radius * radius;
+    this.forEachInRect(x - radius, y - radius, x + radius, y + radius, (item, ix, iy) => {
+      const dx = ix - x;
+      const dy = iy - y;
+      const dSq = dx * dx + dy * dy;
+      if (dSq < bestSq) {
+        bestSq = dSq;
+        best = item;
+      }
+    });
+    return best;
+  }
+
+  private keyFor(x: number, y: number): number {
+    return cellKey(Math.floor(x / this.cellSize), Math.floor(y / this.cellSize));
+  }
+
+  private addToCell(entry: HashEntry<T>) {
+    let cell = this.cells.get(entry.key);
+    if (!cell) {
+      cell = [];
+      this.cells.set(entry.key, cell);
+    }
+    entry.cellSlot = cell.length;
+    cell.push(entry);
+  }
+
+  private removeFromCell(entry: HashEntry<T>) {
+    const cell = this.cells.get(entry.key)!;
+    const last = cell.pop()!;
+    if (last !== entry) {
+      cell[entry.cellSlot] = last;
+      last.cellSlot = entry.cellSlot;
+    } else if (cell.length === 0) {
+      this.cells.delete(entry.key);
+    }
+  }
+}
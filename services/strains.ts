@@ -0,0 +1,20 @@
+import { StrainDefinition } from '../types';
+import { STRAINS } from '../constants';
+
+// --- Strain Lookup ---
+// IDs missing from the registry (e.g. a save made by a build with more strains) get a
+// generic definition, so their bots still render, evolve and report as their own faction.
+
+const byId = new Map(STRAINS.map(s => [s.id, s]));
+
+export function getStrain(id: number): StrainDefinition {
+  return byId.get(id) ?? {
+    id,
+    name: `STRAIN ${id}`,
+    hue: (id * 137.5) % 360, // Golden-angle spacing keeps unknown strains visually distinct
+    homeX: 0,
+    escalatingCosts: false
+  };
+}
+
+export const strainColor = (id: number): string => `hsl(${getStrain(id).hue.toFixed(0)}, 70%, 60%)`;
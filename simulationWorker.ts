@@ -1,108 +1,272 @@
-import { PhysicsEngine } from './services/physicsEngine';
-import { createRandomGenome } from './services/geneticAlgorithm';
-import { SimulationConfig, Xenobot, Genome, WorkerMessage } from './types';
-import { DEFAULT_CONFIG, INITIAL_POPULATION_SIZE, EVOLUTION_INTERVAL } from './constants';
+import { Simulation } from './services/simulation';
+import { packSnapshot, getSnapshotTransferables } from './services/snapshot';
+import { rng } from './services/random';
+import { evaluateObjectives } from './services/fitness';
+import { paretoRanks } from './services/geneticAlgorithm';
+import {
+  SimulationConfig,
+  Xenobot,
+  Genome,
+  WorkerMessage,
+  WorkerResponse,
+  SimulationEvent,
+  FollowTarget,
+  ToolActionPayload,
+  ToolResultPayload,
+  FitnessObjective,
+  ParetoPayload,
+  LineagePayload
+} from './types';
+import { EVOLUTION_INTERVAL, FIXED_TIMESTEP, PLAYER_STRAIN_ID } from './constants';
 
 // Internal State
-let engine: PhysicsEngine | null = null;
+let sim: Simulation | null = null;
 let isRunning = false;
 let timerId: any = null;
 let lastTime = performance.now();
 let accumulator = 0;
-let simulationTime = 0; // Track total simulation time in ms
-const FIXED_TIMESTEP = 16; // Target 60fps (approx 16.66ms)
-
-let evolutionTimer = 0;
-let generation = 1;
-let population: Genome[] = [];
-let bestGenome: Genome | null = null;
-
-// Helper to find best genome
-const updateBestGenome = () => {
-  if (!engine) return;
-  let maxFit = -Infinity;
+
+let bestBotId: string | null = null;
+let followingBotId: string | null = null;
+
+// Per-TICK accumulators (Reset after every post)
+let pendingEvents: SimulationEvent[] = [];
+let pendingTicks = 0;
+
+// Bumped whenever the engine is re-created, so the canvas drops its food index
+let worldEpoch = 0;
+
+// Last genome object posted per bot ID. Genomes are replaced (never edited) on
+// mutation/growth, so a reference change means the main thread needs a copy.
+let sentGenomes = new Map<string, Genome>();
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// Living bot with the highest fitness under the configured objectives
+const updateBestBot = () => {
+  if (!sim) return;
+  const engine = sim.engine;
+  let bestFitness = -Infinity;
   let leader: Xenobot | null = null;
-  
+
   engine.bots.forEach(b => {
-    if (b.centerOfMass.x > maxFit) {
-      maxFit = b.centerOfMass.x;
+    if (b.isDead) return;
+    const fitness = engine.fitnessOf(b);
+    if (fitness > bestFitness) {
+      bestFitness = fitness;
       leader = b;
     }
   });
-  
-  if (leader) {
-    bestGenome = leader.genome;
-  }
+
+  if (leader) bestBotId = (leader as Xenobot).id;
+};
+
+// Live bots on the weighted objectives, ranked into non-dominated fronts. Weight signs set
+// each objective's direction for ranking; the plotted values stay raw.
+const buildPareto = (): ParetoPayload => {
+  if (!sim) return { objectives: [], points: [] };
+  const engine = sim.engine;
+  const weights = engine.config.fitnessWeights;
+  const objectives = (Object.keys(weights) as FitnessObjective[]).filter(id => weights[id]);
+  const live = engine.bots.filter(b => !b.isDead);
+
+  const values = live.map(b => {
+    const scores = evaluateObjectives(b, engine.bots, weights);
+    return objectives.map(id => scores[id] ?? 0);
+  });
+  const ranks = paretoRanks(values.map(v => v.map((value, k) => Math.sign(weights[objectives[k]]!) * value)));
+  return {
+    objectives,
+    points: live.map((b, i) => ({ botId: b.id, values: values[i], rank: ranks[i] }))
+  };
+};
+
+// The lineage store plus which genomes are alive right now, and in which bot
+const buildLineage = (): LineagePayload => {
+  if (!sim) return { records: [], living: {} };
+  const living: Record<string, string> = {};
+  sim.engine.bots.forEach(b => {
+    if (!b.isDead) living[b.genome.id] = b.id;
+  });
+  return { records: sim.engine.lineage.entries, living };
+};
+
+// Highest energy living bot of the player's strain (Natives)
+const findGroupALeader = (): Xenobot | undefined => {
+  if (!sim) return undefined;
+  const groupA = sim.engine.bots.filter(b => !b.isDead && b.groupId === PLAYER_STRAIN_ID);
+  if (groupA.length === 0) return undefined;
+  return groupA.reduce((prev, curr) => (curr.energy > prev.energy ? curr : prev));
 };
 
 const initSimulation = (config: SimulationConfig, startPop?: Genome[], startGen?: number) => {
-  engine = new PhysicsEngine(config);
-  
-  if (startPop && startPop.length > 0) {
-      population = startPop;
-      generation = startGen || 1;
-      
-      // Ensure pop size matches config
-      if (population.length < config.populationSize) {
-         const needed = config.populationSize - population.length;
-         const extras = Array(needed).fill(null).map(() => createRandomGenome(generation));
-         population = [...population, ...extras];
-      } else if (population.length > config.populationSize) {
-         population = population.slice(0, config.populationSize);
-      }
-  } else {
-      generation = 1;
-      
-      // Initialize with split groups. Respect the config.populationSize!
-      const totalSize = Math.max(2, config.populationSize);
-      const sizeA = Math.floor(totalSize / 2);
-      const sizeB = totalSize - sizeA;
-      
-      const groupA = Array(sizeA).fill(null).map(() => createRandomGenome(generation, 190)); 
-      const groupB = Array(sizeB).fill(null).map(() => createRandomGenome(generation, 340)); 
-      
-      population = [...groupA, ...groupB];
-  }
+  sim = new Simulation(config);
+  sim.populate(startPop, startGen);
+  resetTransientState();
+};
 
-  // Init Bots
-  engine.bots = [];
-  population.forEach(g => {
-    let startX = 0;
-    
-    if (typeof g.originX === 'number' && !isNaN(g.originX)) {
-         startX = g.originX + (Math.random() - 0.5) * 50; 
-    } else {
-       const match = g.color.match(/hsl\((\d+\.?\d*)/);
-       const hue = match ? parseFloat(match[1]) : 0;
-       const isGroupA = (hue > 150 && hue < 230);
-       
-       startX = isGroupA ? -5000 : 5000; 
-       startX += (Math.random() - 0.5) * 150; 
-       g.originX = startX;
+// Per-session bookkeeping that is never part of a save
+const resetTransientState = () => {
+  bestBotId = null;
+  followingBotId = null;
+  pendingEvents = [];
+  pendingTicks = 0;
+  sentGenomes = new Map();
+  worldEpoch++;
+};
+
+const applyTool = (action: ToolActionPayload): ToolResultPayload => {
+    const result: ToolResultPayload = {
+        tool: action.tool,
+        target: action.target,
+        success: false,
+        reward: 0,
+        screenX: action.screenX,
+        screenY: action.screenY
+    };
+    if (!sim) return result;
+    const engine = sim.engine;
+
+    switch (action.tool) {
+        case 'SCANNER':
+            if (action.target === 'BOT') {
+                const bot = engine.bots.find(b => b.id === action.targetId);
+                if (bot) {
+                    bot.energy += 20;
+                    result.success = true;
+                }
+            } else if (action.target === 'FOOD') {
+                result.success = true;
+            }
+            break;
+
+        case 'INJECTOR':
+            engine.injectFood(action.worldX, action.worldY);
+            result.success = true;
+            break;
+
+        case 'MUTAGEN':
+            if (action.target === 'BOT') {
+                result.success = engine.applyMutagen(action.targetId);
+            }
+            break;
+
+        case 'REAPER':
+            if (action.target === 'BOT') {
+                const reclaimValue = engine.reapBot(action.targetId, action.worldX, action.worldY);
+                if (reclaimValue !== null) {
+                    result.success = true;
+                    result.reward = reclaimValue;
+                }
+            }
+            break;
     }
 
-    const bot = engine!.createBot(g, startX, 200 + Math.random() * 100);
-    engine!.bots.push(bot);
-  });
-  
-  evolutionTimer = 0;
-  bestGenome = null;
-  simulationTime = 0;
+    return result;
 };
 
-const evolveContinuous = () => {
-    if (!engine) return;
-    
-    const evolutionOccurred = engine.evolvePopulation(generation);
+// Resolves the bot the camera should track and its smoothed visual center
+const resolveFollowTarget = (): FollowTarget | null => {
+    if (!sim) return null;
+    const engine = sim.engine;
+    let targetBot: Xenobot | undefined;
+
+    // 1. If following a specific selected bot
+    if (followingBotId) {
+        targetBot = engine.bots.find(b => b.id === followingBotId && !b.isDead);
+    }
 
-    if (evolutionOccurred) {
-        generation++;
-        population = engine.bots.map(b => b.genome);
+    // 2. Default Behavior: Follow Leader of Group A (Natives), else any living bot
+    if (!targetBot) {
+        targetBot = findGroupALeader() || engine.bots.find(b => !b.isDead);
     }
+
+    if (!targetBot) return null;
+
+    let visualX = 0, visualY = 0;
+    const pCount = targetBot.particles.length;
+    if (pCount > 0) {
+        for (let i = 0; i < pCount; i++) {
+            visualX += targetBot.particles[i].renderPos.x;
+            visualY += targetBot.particles[i].renderPos.y;
+        }
+        visualX /= pCount;
+        visualY /= pCount;
+    } else {
+        visualX = targetBot.centerOfMass.x;
+        visualY = targetBot.centerOfMass.y;
+    }
+
+    return { botId: targetBot.id, x: visualX, y: visualY };
+};
+
+// Growth/Reproduction progress of the Group A leader against the scaled costs
+const computeColonyProgress = () => {
+    const leader = findGroupALeader();
+    if (!sim || !leader) return { growthProgress: 0, reproductionProgress: 0 };
+    const engine = sim.engine;
+
+    const { growthCost, mitosisCost } = engine.getCosts();
+    const isMaxSize = leader.particles.length >= engine.config.maxBotSize;
+    const growthProgress = isMaxSize ? 1.0 : Math.min(1.0, leader.energy / growthCost);
+
+    const energyRatio = Math.min(1.0, leader.energy / mitosisCost);
+    const ageRatio = Math.min(1.0, leader.age / 800);
+
+    return { growthProgress, reproductionProgress: Math.min(energyRatio, ageRatio) };
+};
+
+const collectGenomeUpdates = (): Record<string, Genome> => {
+  const updates: Record<string, Genome> = {};
+  const nextSent = new Map<string, Genome>();
+  if (!sim) return updates;
+
+  for (const bot of sim.engine.bots) {
+      if (bot.isDead) continue;
+      if (sentGenomes.get(bot.id) !== bot.genome) updates[bot.id] = bot.genome;
+      nextSent.set(bot.id, bot.genome);
+  }
+
+  // Rebuilt each post so removed bots drop out of the tracking map
+  sentGenomes = nextSent;
+  return updates;
+};
+
+const postTick = () => {
+  if (!sim) return;
+  const { growthProgress, reproductionProgress } = computeColonyProgress();
+  const snapshot = packSnapshot(sim.engine.bots, sim.engine.food, sim.simulationTime, {
+      worldEpoch,
+      foodVersion: sim.engine.foodVersion,
+      foodChanges: sim.engine.takeFoodChanges()
+  });
+
+  post({
+      type: 'TICK',
+      payload: {
+          snapshot,
+          genomes: collectGenomeUpdates(),
+          events: pendingEvents,
+          ticks: pendingTicks,
+          timeLeft: 0,
+          generation: sim.generation,
+          evolutionProgress: Math.min(1, sim.evolutionTimer / EVOLUTION_INTERVAL),
+          growthProgress,
+          reproductionProgress,
+          bestBotId,
+          globalEvent: sim.globalEvent,
+          followTarget: resolveFollowTarget()
+      }
+  }, getSnapshotTransferables(snapshot));
+
+  pendingEvents = [];
+  pendingTicks = 0;
 };
 
 const loop = () => {
-  if (!isRunning || !engine) return;
+  if (!isRunning || !sim) return;
 
   const now = performance.now();
   let frameTime = now - lastTime;
@@ -115,45 +279,81 @@ const loop = () => {
 
   // Fixed Timestep Update Loop
   while (accumulator >= FIXED_TIMESTEP) {
-      engine.update(simulationTime / 1000); // Pass time in seconds for muscle phases
-      simulationTime += FIXED_TIMESTEP;
-      
-      updateBestGenome(); // Update stats each tick or just once per frame? Doing it here ensures accuracy.
-
-      // Evolution Check
-      evolutionTimer += 1;
-      if (evolutionTimer >= EVOLUTION_INTERVAL) {
-          evolveContinuous();
-          evolutionTimer = 0;
-      }
-      
+      const evolved = sim.step();
+
+      // engine.events is reset every update, so collect it per step
+      if (sim.engine.events.length > 0) pendingEvents.push(...sim.engine.events);
+      pendingTicks++;
+
+      if (evolved) post({ type: 'EVOLVED', payload: evolved });
+
       accumulator -= FIXED_TIMESTEP;
   }
-  
+
+  // Scoring can be costly (NOVELTY compares bots), so the leader is picked once per frame
+  updateBestBot();
+
   // Apply smoothing once per frame for consistent visual output
-  engine.smoothRenderPositions();
+  sim.engine.smoothRenderPositions();
 
   // Send Data to Main Thread
-  const payload = {
-      bots: engine.bots,
-      timeLeft: 0, 
-      generation,
-      bestGenome
-  };
+  postTick();
 
-  self.postMessage({ type: 'TICK', payload });
-  
   if (isRunning) {
       timerId = setTimeout(loop, 16); // Schedule next loop
   }
 };
 
 self.onmessage = (e: MessageEvent<WorkerMessage>) => {
-  const { type, payload } = e.data;
+  const message = e.data;
 
-  switch (type) {
+  switch (message.type) {
     case 'INIT':
-      initSimulation(payload.config, payload.population, payload.generation);
+      initSimulation(message.payload.config, message.payload.population, message.payload.generation);
+      // Push an initial frame so a paused simulation still renders
+      postTick();
+      break;
+
+    case 'LOAD_STATE': {
+      // Rebuild the saved world so it continues the same trajectory instead of reseeding it
+      const { config, snapshot, population, generation } = message.payload;
+      try {
+          sim = new Simulation(config);
+          sim.restore(snapshot);
+          resetTransientState();
+      } catch (err) {
+          // A snapshot restore() rejects would leave a half-built world, so respawn the population
+          initSimulation(config, population, generation);
+          post({ type: 'LOAD_FAILED', payload: { reason: err instanceof Error ? err.message : String(err), generation: sim!.generation } });
+      }
+      postTick();
+      break;
+    }
+
+    case 'REQUEST_SNAPSHOT':
+      post({ type: 'SNAPSHOT', payload: { requestId: message.payload, snapshot: sim ? sim.capture() : null } });
+      break;
+
+    case 'REQUEST_ARCHIVE':
+      post({ type: 'ARCHIVE', payload: sim ? sim.engine.archive.elites : [] });
+      break;
+
+    case 'REQUEST_PARETO':
+      post({ type: 'PARETO', payload: buildPareto() });
+      break;
+
+    case 'REQUEST_LINEAGE':
+      post({ type: 'LINEAGE', payload: buildLineage() });
+      break;
+
+    case 'SPAWN_ELITE':
+      if (sim) {
+          // Drop the elite beside whatever the camera is tracking
+          const target = resolveFollowTarget();
+          const x = (target?.x ?? 0) + (rng.next() - 0.5) * 300;
+          const y = (target?.y ?? 200) + (rng.next() - 0.5) * 300;
+          if (sim.engine.spawnElite(message.payload, x, y)) postTick();
+      }
       break;
 
     case 'START':
@@ -174,11 +374,12 @@ self.onmessage = (e: MessageEvent<WorkerMessage>) => {
       break;
 
     case 'UPDATE_SETTINGS':
-      if (engine) {
+      if (sim) {
+          const engine = sim.engine;
           const oldConfig = engine.config;
-          const newConfig = payload as SimulationConfig;
-          
-          if (oldConfig.populationSize !== newConfig.populationSize || 
+          const newConfig = message.payload;
+
+          if (oldConfig.populationSize !== newConfig.populationSize ||
               oldConfig.gridScale !== newConfig.gridScale) {
               initSimulation(newConfig);
           } else {
@@ -187,9 +388,23 @@ self.onmessage = (e: MessageEvent<WorkerMessage>) => {
           }
       }
       break;
-      
-    case 'LOAD_STATE':
-       initSimulation(payload.config, payload.population, payload.generation);
-       break;
+
+    case 'APPLY_UPGRADE':
+      // Upgrades are live config changes, never a world rebuild
+      if (sim) {
+          sim.engine.config = message.payload.config;
+          if (message.payload.upgradeId === 'NUTRIENT_AGAR') {
+              sim.engine.spawnFood();
+          }
+      }
+      break;
+
+    case 'TOOL_ACTION':
+      post({ type: 'TOOL_RESULT', payload: applyTool(message.payload) });
+      break;
+
+    case 'FOLLOW_BOT':
+      followingBotId = message.payload;
+      break;
   }
-};
\ No newline at end of file
+};
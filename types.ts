@@ -43,6 +43,39 @@ export interface Spring {
   matterConstraintId?: number; // Link to Matter.js Constraint ID
 }
 
+// Evolvable CTRNN controller: maps NEURON sensor inputs to per-muscle phase and amplitude
+export interface ControllerGenes {
+  size: number; // Number of network nodes
+  weights: number[]; // size*size, weights[i * size + j] is the connection j -> i
+  inputWeights: number[]; // size*CONTROLLER_INPUTS, sensor k -> node i at [i * CONTROLLER_INPUTS + k]
+  biases: number[];
+  timeConstants: number[]; // In physics steps; larger = slower node
+}
+
+// --- CPPN (indirect encoding) ---
+export type CppnActivation = 'SINE' | 'GAUSSIAN' | 'SIGMOID' | 'TANH' | 'ABS' | 'LINEAR';
+
+export interface CppnNode {
+  id: number; // 0-3 inputs, 4-7 outputs, 8+ hidden
+  activation: CppnActivation;
+  bias: number;
+}
+
+export interface CppnConnection {
+  from: number;
+  to: number;
+  weight: number;
+  enabled: boolean;
+}
+
+export interface CppnGenes {
+  nodes: CppnNode[];
+  connections: CppnConnection[]; // Always acyclic
+  nextNodeId: number;
+}
+
+export type GenomeEncoding = 'DIRECT' | 'CPPN';
+
 export interface Genome {
   id: string;
   gridSize: number;
@@ -50,11 +83,87 @@ export interface Genome {
   fitness: number;
   generation: number;
   color: string; 
+  strainId: number; // Faction (see STRAINS); inherited unchanged, so color drift never moves a lineage
   bioelectricMemory: number;
+  targetGenes?: CellType[][]; // Bioelectric target morphology: the layout the bot was born with
+  controller?: ControllerGenes; // Absent = fixed peristaltic rhythm
+  cppn?: CppnGenes; // Indirect encoding: when present, `genes` is decoded from this network
+  speciesId?: number; // Species assigned at the last evolution step (see Species)
+  objectives?: FitnessScores; // Weighted objectives' raw values at the last scoring
+  novelty?: number; // Behavioral novelty at the last scoring (NOVELTY mode only)
+  parentIds?: string[]; // Genome IDs this one was born from (empty for seeds; absent in old saves)
+  birthCause?: BirthCause;
+  mutations?: MutationSummary; // What mutation changed at birth, when the birth involved mutation
+  crossoverMode?: CrossoverMode; // How the cells were recombined, for CROSSOVER births of direct genomes
   originX?: number; 
   originY?: number;
 }
 
+// --- Lineage ---
+
+// SEED: random or platonic founder. CROSSOVER: two parents, then mutation. MITOSIS: a
+// mutated bud. MUTAGEN: the tool rewrote a living bot's genome. FRACTURE: a severed fragment
+// living on as its own bot. ELITE: respawned from the MAP-Elites archive.
+export type BirthCause = 'SEED' | 'CROSSOVER' | 'MITOSIS' | 'MUTAGEN' | 'FRACTURE' | 'ELITE';
+
+export interface MutationSummary {
+  cellsChanged: number; // Grid cells that differ from the (first) parent
+  memoryDelta: number; // Change in bioelectricMemory
+  networkChanged: boolean; // A CPPN was mutated and re-expressed
+  operators: MutationOperator[]; // Applied operators
+  accepted: MutationOperator[]; // Applied operators whose edit survived repair
+}
+
+// One birth in the lineage store (see services/lineage.ts)
+export interface LineageRecord {
+  id: string; // Genome ID
+  parentIds: string[];
+  generation: number;
+  cause: BirthCause;
+  strainId: number;
+  mutations?: MutationSummary;
+}
+
+export interface LineagePayload {
+  records: LineageRecord[];
+  living: Record<string, string>; // Genome ID -> ID of a living bot carrying it
+}
+
+// A niche of mutually compatible genomes within one strain (NEAT-style speciation)
+export interface Species {
+  id: number;
+  strainId: number;
+  islandId?: number; // Island the species lives on, when the island model is on
+  hue: number; // Display color
+  representative: Genome; // Genomes within COMPATIBILITY_THRESHOLD of this one join the species
+  size: number; // Members at the last speciation
+  offspring: number; // Slots allotted in the next generation (0 = going extinct)
+  bestFitness: number; // Best raw fitness any member has reached
+  staleGenerations: number; // Generations since bestFitness last improved
+}
+
+export type SpeciesSummary = Omit<Species, 'representative'>;
+
+export type DescriptorKey = 'muscleFraction' | 'neuronFraction' | 'nodeCount' | 'elongation' | 'speed';
+export type MorphologyDescriptors = Record<DescriptorKey, number>;
+
+// Fittest genome seen in one MAP-Elites cell (see EliteArchive)
+export interface Elite {
+  key: string; // Bin indices in DESCRIPTOR_KEYS order, joined with ','
+  bins: number[];
+  descriptors: MorphologyDescriptors; // Raw values when archived
+  genome: Genome; // fitness is the score it was archived with
+}
+
+// A faction in the registry (STRAINS). Each strain evolves as its own pool.
+export interface StrainDefinition {
+  id: number;
+  name: string;
+  hue: number; // Base color; fresh genomes are tinted within a few degrees of it
+  homeX: number; // Colony center (world x) for the initial spawn
+  escalatingCosts: boolean; // Growth and mitosis get pricier with every use (the player's strain)
+}
+
 export interface Xenobot {
   id: string;
   genome: Genome;
@@ -64,7 +173,7 @@ export interface Xenobot {
   startPosition: Point;
   isDead: boolean;
   totalCharge: number; 
-  groupId: number; // 0 for Group A, 1 for Group B
+  groupId: number; // Strain ID, copied from genome.strainId
   energy: number; // Metabolic reserve (Yolk platelets)
   age: number;
   heading: number; // Current movement direction angle
@@ -72,6 +181,12 @@ export interface Xenobot {
   absorption: number; // Conscious Experience: Magnitude of material events integrated into mind
   lastCollisionTime?: number;
   lastCollisionPoint?: Point;
+  regenerationProgress?: number; // 0-1 toward regrowing the next missing target cell
+  sensoryInput?: number; // 0-1 strength of what the NEURON cells currently sense
+  controllerState?: number[]; // CTRNN node states (one per controller node)
+  pathLength?: number; // World units the center of mass has travelled, summed per step
+  foodEnergy?: number; // Total energy taken from food
+  behavior?: number[]; // Sampled trajectory, flat [dx, dy, ...] from the start (see services/noveltyArchive.ts)
   matterCompositeId?: number; // Link to Matter.js Composite
 }
 
@@ -98,6 +213,88 @@ export interface SimulationConfig {
   plasticity: number; 
   syncRate: number; 
   generationDuration: number; 
+  seed: number; // PRNG seed for physics, genetics and spawning (same seed + config = same run)
+  cppnShare: number; // Fraction of fresh random genomes that use the CPPN encoding
+  fitnessWeights: FitnessWeights; // Objectives summed into fitness (see FITNESS_OBJECTIVES)
+  selectionMode: SelectionMode;
+  noveltyBlend: number; // NOVELTY mode: share of the selection score taken from fitness (0 = pure novelty)
+  mutation: MutationConfig;
+  crossoverWeights: Record<CrossoverMode, number>; // Relative odds of each mode for directly encoded parents (0 = off)
+  islandCount: number; // Island model: world regions evolving as separate pools (0 = off, each strain is a pool)
+  migrationInterval: number; // Generations between migrations
+  migrationRate: number; // Share of each island's next generation that emigrates
+  migrationTopology: MigrationTopology;
+}
+
+// Where migrants go: RING to the next island to the right (the last wraps to the first),
+// FULL to any other island, NONE nowhere (isolated islands)
+export type MigrationTopology = 'NONE' | 'RING' | 'FULL';
+
+// An island's population after an evolution step
+export interface IslandSummary {
+  id: number; // Left to right from 0
+  population: number;
+  strains: Record<number, number>; // Genomes per strainId
+  immigrants: number; // Arrived in this step's migration
+}
+
+// How two directly encoded parents combine (CPPN parents always recombine their networks).
+// UNIFORM: each cell from either parent. SINGLE_POINT: rows or columns before a cut from A,
+// the rest from B. BLOCK: B with one quadrant taken from A. GRAFT: a connected region of A
+// attached to B.
+export type CrossoverMode = 'UNIFORM' | 'SINGLE_POINT' | 'BLOCK' | 'GRAFT';
+
+// Per mode, for the offspring bred at the start of one generation: how many were born and
+// how many were still alive when it ended
+export type CrossoverStats = Record<CrossoverMode, { born: number; survived: number }>;
+
+// Probabilities steering mutate() and addStructuralNode(). Chances are per mutation unless
+// marked per cell. Cell operators only touch directly encoded genomes (CPPN genomes mutate
+// their network instead).
+export interface MutationConfig {
+  growth: number; // Chance of a growth pass
+  growthFill: number; // Per cell: an empty cell beside the body fills during a growth pass
+  noise: number; // Per cell: the cell is re-rolled to a random type (EMPTY included)
+  memoryDrift: number; // bioelectricMemory shifts by up to +/- 0.1
+  swap: number; // Two cells of different types trade places
+  mirror: number; // One half of the body is copied over the other, mirrored
+  translocation: number; // A small limb is cut off and reattached elsewhere on the body
+  deletion: number; // One cell is removed
+  conversion: number; // One cell changes to another living type
+  nodeSkin: number; // Relative weights of the cell types addStructuralNode grows
+  nodeHeart: number;
+  nodeNeuron: number;
+}
+
+export type MutationOperator = 'GROWTH' | 'NOISE' | 'MEMORY_DRIFT' | 'SWAP' | 'MIRROR' | 'TRANSLOCATION' | 'DELETION' | 'CONVERSION';
+
+// Per operator, for the mutations of one generation. Applied: the operator edited the
+// genome. Accepted: its edit was still there after contiguity repair.
+export type MutationStats = Record<MutationOperator, { applied: number; accepted: number }>;
+
+// WEIGHTED: the weighted fitness sum drives speciated selection.
+// NSGA2: Pareto ranking over the weighted objectives (weight sign = direction).
+// NOVELTY: speciated selection on trajectory novelty, optionally blended with fitness.
+export type SelectionMode = 'WEIGHTED' | 'NSGA2' | 'NOVELTY';
+
+export type FitnessObjective =
+  | 'ENERGY'
+  | 'DISPLACEMENT_X'
+  | 'DISPLACEMENT'
+  | 'PATH_EFFICIENCY'
+  | 'FOOD_EFFICIENCY'
+  | 'SURVIVAL'
+  | 'TARGET_SEEKING'
+  | 'NOVELTY';
+
+export type FitnessWeights = Partial<Record<FitnessObjective, number>>;
+export type FitnessScores = Partial<Record<FitnessObjective, number>>; // Raw objective values
+
+export interface FitnessDefinition {
+  id: FitnessObjective;
+  name: string;
+  description: string;
+  evaluate: (bot: Xenobot, population: readonly Xenobot[]) => number;
 }
 
 export interface AnalysisResult {
@@ -107,11 +304,97 @@ export interface AnalysisResult {
 }
 
 export interface SaveData {
+  schemaVersion: number; // See services/saveData.ts for the migration chain
   config: SimulationConfig;
   population: Genome[];
   generation: number;
   timestamp: number;
   researchState: ResearchState;
+  seed: number; // Seed the run was started with (mirrors config.seed)
+  snapshot?: SimulationSnapshot; // Full world state; without it the population is respawned at its origins
+}
+
+// --- Save Import Report ---
+
+export interface SaveImportIssue {
+  path: string; // e.g. "population[3].genes"
+  action: 'REJECTED' | 'REPAIRED' | 'MIGRATED';
+  message: string;
+}
+
+export interface SaveImportReport {
+  fromVersion: number | null; // null when the file could not be read at all
+  toVersion: number;
+  issues: SaveImportIssue[];
+  fatal: string | null; // Set when nothing could be loaded
+}
+
+// --- Save Slots (IndexedDB) ---
+
+export interface SaveSlotMeta {
+  id: string;
+  name: string;
+  isAutosave: boolean;
+  createdAt: number;
+  updatedAt: number;
+  generation: number;
+  bioData: number;
+  populationSize: number;
+  thumbnail: string | null; // JPEG data URL captured from the canvas
+}
+
+// --- World Snapshot (Full-fidelity Save/Restore) ---
+// Matter.js IDs inside `bot` are stale after a restore; the engine relinks them.
+
+export interface BodyState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  angle: number;
+  angularVelocity: number;
+  prevX: number; // Verlet position history
+  prevY: number;
+  prevAngle: number;
+  positionImpulse: Point; // Solver warm-start accumulators
+  constraintImpulse: Point & { angle: number };
+  density: number;
+  friction: number;
+  frictionAir: number;
+  restitution: number;
+}
+
+export interface ConstraintState {
+  length: number;
+  stiffness: number;
+  damping: number;
+}
+
+export interface BotSnapshot {
+  bot: Xenobot;
+  bodies: (BodyState | null)[]; // Per particle index (null once the bot is dead)
+  constraints: (ConstraintState | null)[]; // Per spring index
+}
+
+export interface WorldSnapshot {
+  bots: BotSnapshot[]; // Includes dead bots, they still feed the next evolution step
+  food: Food[];
+  groupAGrowthCount: number;
+  groupAReproductionCount: number;
+  species?: Species[]; // Absent in snapshots taken before speciation existed
+  archive?: Elite[]; // MAP-Elites archive; absent in snapshots taken before it existed
+  noveltyArchive?: number[][]; // Archived behaviors; absent in snapshots taken before novelty search existed
+  lineage?: LineageRecord[]; // Absent in snapshots taken before lineage tracking existed
+}
+
+export interface SimulationSnapshot {
+  version: number;
+  world: WorldSnapshot;
+  generation: number;
+  simulationTime: number; // ms, drives muscle phases
+  evolutionTimer: number;
+  globalEvent: GlobalEvent | null;
+  rngState: number;
 }
 
 export interface GeneticStats {
@@ -122,24 +405,182 @@ export interface GeneticStats {
   total: number;
 }
 
-export type SimulationEventType = 'COLLISION' | 'EAT' | 'MITOSIS' | 'DEATH';
+export type SimulationEventType = 'COLLISION' | 'EAT' | 'MITOSIS' | 'DEATH' | 'FRACTURE';
+
+export type SimulationEvent =
+  | { type: 'COLLISION'; botIds: [string, string]; point: Point } // First contact between two bots
+  | { type: Exclude<SimulationEventType, 'COLLISION'> };
 
 // --- Worker Types ---
 
-export type WorkerMessageType = 'INIT' | 'START' | 'STOP' | 'UPDATE_SETTINGS' | 'TICK' | 'LOAD_STATE';
+export interface InitPayload {
+  config: SimulationConfig;
+  population?: Genome[];
+  generation?: number;
+}
+
+export interface LoadStatePayload {
+  config: SimulationConfig;
+  snapshot: SimulationSnapshot;
+  population?: Genome[]; // Respawned instead if the snapshot can't be rebuilt
+  generation?: number;
+}
+
+// The saved world couldn't be rebuilt, so the worker respawned the saved population instead
+export interface LoadFailedPayload {
+  reason: string;
+  generation: number;
+}
 
-export interface WorkerMessage {
-  type: WorkerMessageType;
-  payload?: any;
+export interface ToolActionPayload {
+  tool: ToolMode;
+  target: 'BOT' | 'FOOD' | 'EMPTY';
+  targetId: string;
+  worldX: number;
+  worldY: number;
+  screenX: number; // Echoed back so the UI can place floating text
+  screenY: number;
+}
+
+export interface ToolResultPayload {
+  tool: ToolMode;
+  target: 'BOT' | 'FOOD' | 'EMPTY';
+  success: boolean;
+  reward: number;
+  screenX: number;
+  screenY: number;
+}
+
+export interface UpgradePayload {
+  upgradeId: UpgradeID;
+  config: SimulationConfig;
+}
+
+export interface FollowTarget {
+  botId: string;
+  x: number; // Visual center (smoothed render positions)
+  y: number;
+}
+
+// Packed render state for one TICK. Buffers are transferred, not cloned.
+// Field layouts live in services/snapshot.ts. Dead bots are not included.
+// Food added and removed since the engine was at `fromVersion`
+export interface FoodChanges {
+  fromVersion: number;
+  added: Food[];
+  removedIds: string[];
+}
+
+export interface PackedSnapshot {
+  botCount: number;
+  particleCount: number;
+  springCount: number;
+  foodCount: number;
+  worldEpoch: number; // Changes whenever the worker re-creates the engine
+  foodVersion: number; // Engine food version the food arrays reflect
+  foodChanges: FoodChanges | null; // Since the previous TICK; null => re-index from foodIds/foodFloats
+  botIds: string[];
+  botFloats: Float32Array; // energy, COM, irruption/absorption, charge, color, last collision
+  botInts: Int32Array; // group, age, particle/spring ranges
+  particleFloats: Float32Array; // renderX, renderY, charge
+  springFloats: Float32Array; // x1, y1, x2, y2, strain
+  springFlags: Int32Array; // muscle / rigid bits
+  foodIds: string[];
+  foodFloats: Float32Array; // x, y, phase
 }
 
 export interface TickPayload {
-  bots: Xenobot[];
+  snapshot: PackedSnapshot;
+  genomes: Record<string, Genome>; // Bot ID -> Genome, only for bots whose genome changed
+  events: SimulationEvent[]; // Accumulated since the previous TICK
+  ticks: number; // Fixed physics steps since the previous TICK
   timeLeft: number;
   generation: number;
-  bestGenome: Genome | null;
+  evolutionProgress: number;
+  growthProgress: number;
+  reproductionProgress: number;
+  bestBotId: string | null;
+  globalEvent: GlobalEvent | null;
+  followTarget: FollowTarget | null;
+}
+
+export interface SnapshotPayload {
+  requestId: number;
+  snapshot: SimulationSnapshot | null; // null before the world exists
+}
+
+export interface FitnessSummary {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stdDev: number;
 }
 
+export interface EncodingSummary {
+  count: number;
+  fitness: FitnessSummary;
+}
+
+// Live bots placed by the weighted objectives, for the Pareto scatter plot
+export interface ParetoPoint {
+  botId: string;
+  values: number[]; // Raw values, in ParetoPayload.objectives order
+  rank: number; // Non-dominated front (0 = Pareto front)
+}
+
+export interface ParetoPayload {
+  objectives: FitnessObjective[];
+  points: ParetoPoint[];
+}
+
+export interface EvolvedPayload {
+  generation: number; // The generation that just finished
+  stats: GeneticStats;
+  fitness: FitnessSummary;
+  encodings: Record<GenomeEncoding, EncodingSummary>;
+  species: SpeciesSummary[]; // Species found in the finished generation
+  novelty: NoveltySummary | null; // Null unless the generation ran in NOVELTY mode
+  mutations: MutationStats; // Births during the generation, including the offspring bred at its end
+  crossover: CrossoverStats; // Offspring bred when the generation started
+  islands: IslandSummary[]; // The next generation by island (empty when the island model is off)
+}
+
+export interface NoveltySummary {
+  archiveSize: number; // Behaviors archived after this generation
+  mean: number;
+  best: number;
+}
+
+// Main Thread -> Worker
+export type WorkerMessage =
+  | { type: 'INIT'; payload: InitPayload }
+  | { type: 'LOAD_STATE'; payload: LoadStatePayload }
+  | { type: 'START' }
+  | { type: 'STOP' }
+  | { type: 'UPDATE_SETTINGS'; payload: SimulationConfig }
+  | { type: 'TOOL_ACTION'; payload: ToolActionPayload }
+  | { type: 'APPLY_UPGRADE'; payload: UpgradePayload }
+  | { type: 'FOLLOW_BOT'; payload: string | null }
+  | { type: 'REQUEST_SNAPSHOT'; payload: number } // Request ID echoed back in SNAPSHOT
+  | { type: 'REQUEST_ARCHIVE' }
+  | { type: 'SPAWN_ELITE'; payload: string } // Elite key; spawned next to the camera target
+  | { type: 'REQUEST_PARETO' }
+  | { type: 'REQUEST_LINEAGE' };
+
+// Worker -> Main Thread
+export type WorkerResponse =
+  | { type: 'TICK'; payload: TickPayload }
+  | { type: 'TOOL_RESULT'; payload: ToolResultPayload }
+  | { type: 'EVOLVED'; payload: EvolvedPayload }
+  | { type: 'SNAPSHOT'; payload: SnapshotPayload }
+  | { type: 'ARCHIVE'; payload: Elite[] }
+  | { type: 'PARETO'; payload: ParetoPayload }
+  | { type: 'LINEAGE'; payload: LineagePayload }
+  | { type: 'LOAD_FAILED'; payload: LoadFailedPayload };
+
+export type WorkerMessageType = WorkerMessage['type'] | WorkerResponse['type'];
+
 // --- Research / Game Types ---
 
 export type UpgradeID = 